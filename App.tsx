@@ -1,90 +1,194 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { DeliveryStop, Coordinate, Customer, SavedRoute } from './types';
-import { parseAddress, analyzeRoute, bulkParseAddresses } from './services/geminiService';
-import { optimizeRoute, calculateDistance } from './utils/optimizer';
-import RouteMap from './components/RouteMap';
-import { Language, translations } from './translations';
+import { DeliveryStop, Coordinate, Customer, SavedRoute, RouteVersion, Vehicle, RouteRun, StopStatus, ProofOfDelivery, Depot, RouteEnd } from './types';
+import { analyzeRoute } from './services/geminiService';
+import { createGeocoder, GeocoderSettings, DEFAULT_GEOCODER_SETTINGS } from './services/geocoding';
+import { loadState, saveCollection, saveSettings, readMeta, writeMeta, isQuotaError, createBackup, restoreBackup, requestPersistentStorage, PersistedState } from './services/storage';
+import { AuthSession, login, logout, fetchCurrentUser, listUsers, isSessionExpired, can, ApiError, AuthUser } from './services/auth';
+import { createRouter, RoutingSettings, DEFAULT_ROUTING_SETTINGS } from './services/routing';
+import { createSyncClient, mergeRemote, SyncClient, SyncSettings, SyncStatus, RemoteRecord, DEFAULT_SYNC_SETTINGS } from './services/syncClient';
+import { optimizeRoute, OptimizationResult } from './utils/optimizer';
+import { calculateDistance, formatDistance, DistanceUnit, setDistanceModel, haversineModel } from './utils/distance';
+import { formatClockTime, driveMinutes } from './utils/schedule';
+import { exportManifest, buildDriverSheet, printDriverSheet, downloadFile, exportFileName, ExportFormat, ExportContext } from './utils/export';
+import { searchCustomers, customerToStop, findCustomerForStop, saveStopAsCustomer, parseCustomerCsv, formatCustomerCsv } from './utils/customers';
+import { applyEtas, scheduleManifest, scheduleOptionsFor, startTimeToday, formatEta, diffEtas, EtaChange } from './utils/eta';
+import { createRefreshScheduler } from './utils/refreshScheduler';
+import { directionsUrl, isAppleMobile } from './utils/navigation';
+import { buildPodBundle } from './utils/proof';
+import { beginExecution, markStop, replanRemaining, carryOverExecution, mergeAssignedStops, mergeDriverProgress, stopStatus, isStopOpen, delayMinutes, summarizeRun, FAILURE_REASONS } from './utils/execution';
+import { planFleet, groupByVehicle, combineResults, stopDemand, routeDurationMinutes, VEHICLE_COLORS } from './utils/fleet';
+import { TileSettings, DEFAULT_TILE_SETTINGS } from './utils/tiles';
+import { DEFAULT_CANVAS_THRESHOLD } from './utils/mapLayout';
+import { DEFAULT_ROUTE_END, routeEndpoint, routeEndKey, parseRouteEndKey } from './utils/depots';
+import { AnalyticsFilter, filterRuns, runDispatchers, drivenDistance, onTimeByPriority, dayKey } from './utils/analytics';
+import { stopDetailLabels, formatPackages, packageCount, formatCod } from './utils/stopDetails';
+import { ManifestCommand, ManifestHistory, HistoryStep, EMPTY_HISTORY, recordChange, undoChange, redoChange, changesSinceOptimization } from './utils/history';
+import { dueTemplates, nextDueDay, instantiateTemplates, templateStops, reviseTemplate, duplicateTemplate, weekdayName, WEEKDAYS } from './utils/templates';
+import RouteMap, { RouteMapHandle } from './components/RouteMap';
+import SettingsModal from './components/SettingsModal';
+import BulkImportModal from './components/BulkImportModal';
+import CustomerModal from './components/CustomerModal';
+import ProofOfDeliveryModal from './components/ProofOfDeliveryModal';
+import DriverView from './components/DriverView';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import RouteTemplateModal, { TemplateDraft } from './components/RouteTemplateModal';
+import StopModal from './components/StopModal';
+import { Language, translations, locales } from './translations';
 
 const DEFAULT_LOCATION: Coordinate = { lat: 34.0522, lng: -118.2437 };
-const STORAGE_KEY = 'swiftroute_v2_state';
 const AUTH_KEY = 'swiftroute_auth';
-const DEFAULT_DEPOT_START_TIME = "09:00 AM";
+const DEFAULT_SERVER_URL = 'http://localhost:8787';
+const DRIVER_HASH = '#/driver';
+const MANIFEST_HISTORY_KEY = 'manifestHistory';
+const DEFAULT_DEPOT_START_TIME = "09:00";
+const OPTIMIZER_TIME_BUDGET_MS = 400;
+const REFRESH_INTERVAL_OPTIONS = [1, 2, 5, 10, 15, 30];
+
+const stopStatusClass: Record<StopStatus, string> = {
+  pending: 'text-slate-500 bg-slate-100 dark:bg-slate-700',
+  arrived: 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30',
+  delivered: 'text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/30',
+  failed: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30',
+  skipped: 'text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700'
+};
 
 const App: React.FC = () => {
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [dispatcherName, setDispatcherName] = useState('');
-  const [dispatcherId, setDispatcherId] = useState('');
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loginServerUrl, setLoginServerUrl] = useState(DEFAULT_SERVER_URL);
+  const [loginUsername, setLoginUsername] = useState('');
+  const [loginPassword, setLoginPassword] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [drivers, setDrivers] = useState<AuthUser[]>([]);
+  const [isDriverRoute, setIsDriverRoute] = useState(() => window.location.hash === DRIVER_HASH);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   
-  const [activeTab, setActiveTab] = useState<'manifest' | 'directory' | 'routes'>('manifest');
+  const [activeTab, setActiveTab] = useState<'manifest' | 'directory' | 'routes' | 'fleet' | 'analytics'>('manifest');
   const [lang, setLang] = useState<Language>('en');
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>('km');
   const t = translations[lang];
   
   const [stops, setStops] = useState<DeliveryStop[]>([]);
+  const [manifestHistory, setManifestHistory] = useState<ManifestHistory>(EMPTY_HISTORY);
   const [savedCustomers, setSavedCustomers] = useState<Customer[]>([]);
   const [savedRoutes, setSavedRoutes] = useState<SavedRoute[]>([]);
+  const [activeRun, setActiveRun] = useState<Omit<RouteRun, 'stops'> | null>(null);
+  const [runHistory, setRunHistory] = useState<RouteRun[]>([]);
+  // Day the templates due that day were last loaded automatically.
+  const [templatesLoadedOn, setTemplatesLoadedOn] = useState<string | null>(null);
+  const [analyticsFilter, setAnalyticsFilter] = useState<AnalyticsFilter>({});
+  const [failingStopId, setFailingStopId] = useState<string | null>(null);
+  const [failureReason, setFailureReason] = useState<string>(FAILURE_REASONS[0]);
+  const [podStopId, setPodStopId] = useState<string | null>(null);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [aiSummary, setAiSummary] = useState<string | null>(null);
+  const [optimizationReport, setOptimizationReport] = useState<OptimizationResult | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isAutoRefreshEnabled, setIsAutoRefreshEnabled] = useState(false);
+  const [refreshIntervalMinutes, setRefreshIntervalMinutes] = useState(5);
+  const [refreshRetryAt, setRefreshRetryAt] = useState<Date | null>(null);
+  const [etaChanges, setEtaChanges] = useState<EtaChange[]>([]);
+  const [etaChangesSince, setEtaChangesSince] = useState<Date | null>(null);
   const [useSystemTime, setUseSystemTime] = useState(false);
+  const [useAiNarrative, setUseAiNarrative] = useState(true);
   const [depotLocation, setDepotLocation] = useState<Coordinate>(DEFAULT_LOCATION);
+  const [depots, setDepots] = useState<Depot[]>([]);
+  // The named depot the route starts from; null once the start was placed by hand or by geolocation.
+  const [depotId, setDepotId] = useState<string | null>(null);
+  const [routeEnd, setRouteEnd] = useState<RouteEnd>(DEFAULT_ROUTE_END);
   const [isLocating, setIsLocating] = useState(false);
   const [showLangMenu, setShowLangMenu] = useState(false);
   const [showProfileMenu, setShowProfileMenu] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
-  const [newRouteName, setNewRouteName] = useState('');
+  const [editingRoute, setEditingRoute] = useState<SavedRoute | null>(null);
+  const [editingStopId, setEditingStopId] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+  const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [directoryQuery, setDirectoryQuery] = useState('');
+  const [isImportingCustomers, setIsImportingCustomers] = useState(false);
+  const [geocoderSettings, setGeocoderSettings] = useState<GeocoderSettings>(DEFAULT_GEOCODER_SETTINGS);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  const [tileSettings, setTileSettings] = useState<TileSettings>(DEFAULT_TILE_SETTINGS);
+  const [routingSettings, setRoutingSettings] = useState<RoutingSettings>(DEFAULT_ROUTING_SETTINGS);
+  const [canvasThreshold, setCanvasThreshold] = useState(DEFAULT_CANVAS_THRESHOLD);
+  // Bumped whenever cached road legs change, so figures derived from the distance model are recomputed.
+  const [roadRevision, setRoadRevision] = useState(0);
+  const [syncClient, setSyncClient] = useState<SyncClient | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [syncPending, setSyncPending] = useState(0);
 
   const langMenuRef = useRef<HTMLDivElement>(null);
   const profileMenuRef = useRef<HTMLDivElement>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<RouteMapHandle>(null);
 
-  const isIOS = useMemo(() => {
-    if (typeof window === 'undefined') return false;
-    return [
-      'iPad Simulator', 'iPhone Simulator', 'iPod Simulator', 'iPad', 'iPhone', 'iPod'
-    ].includes(navigator.platform)
-    || (navigator.userAgent.includes("Mac") && "ontouchend" in document);
-  }, []);
+  const isIOS = useMemo(isAppleMobile, []);
 
-  const getCurrentTimeFormatted = () => {
-    const now = new Date();
-    let hours = now.getHours();
-    const minutes = now.getMinutes().toString().padStart(2, '0');
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    hours = hours % 12;
-    hours = hours ? hours : 12;
-    return `${hours}:${minutes} ${ampm}`;
+  const applyPersistedState = ({ stops, customers, routes, history, settings }: PersistedState) => {
+    setStops(stops);
+    setSavedCustomers(customers);
+    setSavedRoutes(routes);
+    setRunHistory(history);
+    setActiveRun(settings.activeRun || null);
+    setVehicles(settings.vehicles || []);
+    setAiSummary(settings.aiSummary || null);
+    setLastUpdated(settings.lastUpdated ? new Date(settings.lastUpdated) : null);
+    if (settings.depotLocation) setDepotLocation(settings.depotLocation);
+    if (settings.depots) setDepots(settings.depots);
+    if (settings.depotId) setDepotId(settings.depotId);
+    if (settings.routeEnd) setRouteEnd(settings.routeEnd);
+    if (settings.templatesLoadedOn) setTemplatesLoadedOn(settings.templatesLoadedOn);
+    if (settings.lang) setLang(settings.lang);
+    if (settings.theme) setTheme(settings.theme);
+    if (settings.distanceUnit) setDistanceUnit(settings.distanceUnit);
+    if (settings.useSystemTime !== undefined) setUseSystemTime(settings.useSystemTime);
+    if (settings.isAutoRefreshEnabled !== undefined) setIsAutoRefreshEnabled(settings.isAutoRefreshEnabled);
+    if (settings.refreshIntervalMinutes) setRefreshIntervalMinutes(settings.refreshIntervalMinutes);
+    if (settings.useAiNarrative !== undefined) setUseAiNarrative(settings.useAiNarrative);
+    if (settings.geocoderSettings) setGeocoderSettings({ ...DEFAULT_GEOCODER_SETTINGS, ...settings.geocoderSettings });
+    if (settings.syncSettings) setSyncSettings({ ...DEFAULT_SYNC_SETTINGS, ...settings.syncSettings });
+    if (settings.tileSettings) setTileSettings({ ...DEFAULT_TILE_SETTINGS, ...settings.tileSettings });
+    if (settings.routingSettings) setRoutingSettings({ ...DEFAULT_ROUTING_SETTINGS, ...settings.routingSettings });
+    if (settings.canvasThreshold) setCanvasThreshold(settings.canvasThreshold);
   };
 
-  useEffect(() => {
-    const auth = localStorage.getItem(AUTH_KEY);
-    if (auth) {
-      const parsedAuth = JSON.parse(auth);
-      setDispatcherName(parsedAuth.name);
-      setDispatcherId(parsedAuth.id);
-      setIsLoggedIn(true);
-    }
+  const getRouteStart = () => useSystemTime ? new Date() : startTimeToday(DEFAULT_DEPOT_START_TIME);
 
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setStops(parsed.stops || []);
-        setSavedCustomers(parsed.savedCustomers || []);
-        setSavedRoutes(parsed.savedRoutes || []);
-        setAiSummary(parsed.aiSummary || null);
-        if (parsed.lastUpdated) setLastUpdated(new Date(parsed.lastUpdated));
-        if (parsed.depotLocation) setDepotLocation(parsed.depotLocation);
-        if (parsed.lang) setLang(parsed.lang as Language);
-        if (parsed.theme) setTheme(parsed.theme as 'light' | 'dark');
-        if (parsed.useSystemTime !== undefined) setUseSystemTime(parsed.useSystemTime);
-      } catch (e) {
-        console.error("Failed to parse saved state", e);
+  useEffect(() => {
+    try {
+      const stored: AuthSession | null = JSON.parse(localStorage.getItem(AUTH_KEY) || 'null');
+      // Name-only logins from before accounts existed have no token and are dropped.
+      if (stored?.token && !isSessionExpired(stored)) {
+        setSession(stored);
+        setLoginServerUrl(stored.serverUrl);
+      } else {
+        localStorage.removeItem(AUTH_KEY);
       }
+    } catch {
+      localStorage.removeItem(AUTH_KEY);
     }
 
+    Promise.all([loadState(), readMeta<ManifestHistory>(MANIFEST_HISTORY_KEY)])
+      .then(([state, history]) => {
+        applyPersistedState(state);
+        if (history) setManifestHistory(history);
+        setIsHydrated(true);
+        requestPersistentStorage().catch(() => {});
+      })
+      .catch(error => {
+        // Nothing is written until a load succeeds, so a failure here cannot clobber stored data.
+        console.error("Failed to load saved state", error);
+        setStorageError(t.storage_unavailable);
+      });
+
     if (window.innerWidth < 1024) {
       setIsSidebarOpen(false);
     }
@@ -100,135 +204,642 @@ const App: React.FC = () => {
   }, [theme]);
 
   const [selectedStopId, setSelectedStopId] = useState<string | null>(null);
+  // Stops picked with the map lasso for bulk actions; ids of removed stops are ignored.
+  const [pickedStopIds, setPickedStopIds] = useState<string[]>([]);
   const [input, setInput] = useState('');
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium');
+  const [windowEarliest, setWindowEarliest] = useState('');
+  const [windowLatest, setWindowLatest] = useState('');
+  const [serviceMinutes, setServiceMinutes] = useState('');
+  const [demand, setDemand] = useState('');
+  const [addStopError, setAddStopError] = useState<string | null>(null);
+
+  const geocoder = useMemo(() => createGeocoder(geocoderSettings), [geocoderSettings]);
+  const router = useMemo(() => createRouter(routingSettings), [routingSettings]);
+  const roadGeometry = useCallback((start: Coordinate, end: Coordinate) => router?.leg(start, end)?.geometry, [router, roadRevision]);
+  const customerSuggestions = useMemo(() => searchCustomers(savedCustomers, input), [savedCustomers, input]);
+  const savedStopIds = useMemo(
+    () => new Set(stops.filter(stop => findCustomerForStop(savedCustomers, stop)).map(stop => stop.id)),
+    [stops, savedCustomers]
+  );
+  const visibleCustomers = useMemo(
+    () => directoryQuery.trim()
+      ? searchCustomers(savedCustomers, directoryQuery, savedCustomers.length)
+      : [...savedCustomers].sort((a, b) => a.name.localeCompare(b.name)),
+    [savedCustomers, directoryQuery]
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
 
+  const persist = (write: Promise<void>) => {
+    write
+      .then(() => setStorageError(null))
+      .catch(error => {
+        console.error("Failed to save state", error);
+        setStorageError(isQuotaError(error) ? t.storage_quota : t.storage_write_failed);
+      });
+  };
+
+  useEffect(() => { if (isHydrated) persist(saveCollection('stops', stops)); }, [isHydrated, stops]);
+  useEffect(() => { if (isHydrated) persist(saveCollection('customers', savedCustomers)); }, [isHydrated, savedCustomers]);
+  useEffect(() => { if (isHydrated) persist(saveCollection('routes', savedRoutes)); }, [isHydrated, savedRoutes]);
+  useEffect(() => { if (isHydrated) persist(saveCollection('history', runHistory)); }, [isHydrated, runHistory]);
+  useEffect(() => { if (isHydrated) persist(writeMeta(MANIFEST_HISTORY_KEY, manifestHistory)); }, [isHydrated, manifestHistory]);
+
   useEffect(() => {
-    const stateToSave = JSON.stringify({ 
-      stops, 
-      savedCustomers, 
-      savedRoutes,
+    if (!isHydrated) return;
+    persist(saveSettings({
+      activeRun,
+      vehicles,
       aiSummary,
       depotLocation,
+      depots,
+      depotId,
+      routeEnd,
       lang,
       theme,
+      distanceUnit,
       useSystemTime,
+      useAiNarrative,
+      isAutoRefreshEnabled,
+      refreshIntervalMinutes,
+      geocoderSettings,
+      syncSettings,
+      tileSettings,
+      routingSettings,
+      canvasThreshold,
+      templatesLoadedOn,
       lastUpdated: lastUpdated?.toISOString()
+    }));
+  }, [isHydrated, activeRun, vehicles, aiSummary, lastUpdated, depotLocation, depots, depotId, routeEnd, lang, theme, distanceUnit, useSystemTime, useAiNarrative, isAutoRefreshEnabled, refreshIntervalMinutes, geocoderSettings, syncSettings, tileSettings, routingSettings, canvasThreshold, templatesLoadedOn]);
+
+  const user = session?.user ?? null;
+  const role = user?.role ?? 'driver';
+
+  const signOutLocally = () => {
+    localStorage.removeItem(AUTH_KEY);
+    setSession(null);
+    setLoginPassword('');
+  };
+
+  // Picks up role changes and revoked sessions; offline, the stored session stays valid.
+  useEffect(() => {
+    if (!session) return;
+    fetchCurrentUser(session)
+      .then(current => setSession(prev => {
+        if (!prev) return prev;
+        const next = { ...prev, user: current };
+        localStorage.setItem(AUTH_KEY, JSON.stringify(next));
+        return next;
+      }))
+      .catch(error => { if (error instanceof ApiError && error.status === 401) signOutLocally(); });
+  }, [session?.token]);
+
+  const applyRemoteChanges = (changes: RemoteRecord[]) => {
+    setSavedCustomers(prev => mergeRemote(prev, changes, 'customers'));
+    setSavedRoutes(prev => mergeRemote(prev, changes, 'routes'));
+    setRunHistory(prev => mergeRemote(prev, changes, 'runs'));
+    changes.forEach(change => {
+      if (change.collection !== 'manifests') return;
+      const { id } = change;
+      const data = change.deleted ? {} : change.data;
+      const incoming = data.stops ?? [];
+      const incomingVehicles = data.vehicles ?? [];
+      if (id === session?.user.id) {
+        if (change.deleted) return;
+        setStops(prev => carryOverExecution(incoming, prev));
+        setVehicles(incomingVehicles);
+      } else if (session?.user.role === 'driver') {
+        // Deleted manifests and those no longer assigning us anything arrive empty and take their stops along.
+        const vehicleIds = new Set(incomingVehicles.map(vehicle => vehicle.id));
+        setStops(prev => mergeAssignedStops(prev, incoming, id));
+        setVehicles(prev => [
+          ...prev.filter(vehicle => vehicle.assignedBy !== id && !vehicleIds.has(vehicle.id)),
+          ...incomingVehicles.map(vehicle => ({ ...vehicle, assignedBy: id }))
+        ]);
+        if (incomingVehicles.length === 0) return;
+      } else {
+        // A driver's copy of stops on our vehicles: only their progress is of interest.
+        setStops(prev => mergeDriverProgress(prev, incoming));
+        return;
+      }
+      if (data.depotLocation) setDepotLocation(data.depotLocation);
+      if (data.routeEnd) setRouteEnd(data.routeEnd);
+    });
+  };
+
+  useEffect(() => {
+    if (!isHydrated || !session || !syncSettings.enabled) return;
+    const client = createSyncClient({
+      serverUrl: session.serverUrl,
+      token: session.token,
+      userId: session.user.id,
+      onRemoteChanges: applyRemoteChanges,
+      onStatus: (status, pending) => {
+        setSyncStatus(status);
+        setSyncPending(pending);
+      },
+      onUnauthorized: signOutLocally
     });
-    localStorage.setItem(STORAGE_KEY, stateToSave);
-  }, [stops, savedCustomers, savedRoutes, aiSummary, lastUpdated, depotLocation, lang, theme, useSystemTime]);
+    setSyncClient(client);
+    return () => {
+      client.stop();
+      setSyncClient(null);
+      setSyncStatus(null);
+    };
+  }, [isHydrated, session?.token, session?.user.role, syncSettings.enabled]);
+
+  useEffect(() => { if (can(role, 'editDirectory')) syncClient?.track('customers', savedCustomers); }, [syncClient, role, savedCustomers]);
+  useEffect(() => { if (can(role, 'deleteTemplates')) syncClient?.track('routes', savedRoutes); }, [syncClient, role, savedRoutes]);
+  useEffect(() => { if (can(role, 'shareRuns')) syncClient?.track('runs', runHistory); }, [syncClient, role, runHistory]);
+  useEffect(() => { if (user) syncClient?.track('manifests', [{ id: user.id, stops, vehicles, depotLocation, routeEnd }]); }, [syncClient, stops, vehicles, depotLocation, routeEnd]);
+  useEffect(() => { if (user) syncClient?.track('dispatchers', [{ id: user.id, name: user.name }]); }, [syncClient, user?.name]);
+
+  useEffect(() => {
+    if (!session || !can(role, 'manageFleet') || activeTab !== 'fleet') return;
+    listUsers(session).then(users => setDrivers(users.filter(u => u.role === 'driver'))).catch(() => {});
+  }, [session?.token, role, activeTab]);
+
+  useEffect(() => {
+    if (!can(role, 'manageFleet') && activeTab === 'fleet') setActiveTab('manifest');
+  }, [role, activeTab]);
+
+  useEffect(() => {
+    const handleHashChange = () => setIsDriverRoute(window.location.hash === DRIVER_HASH);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const handleBackup = async () => {
+    try {
+      downloadFile(await createBackup(), exportFileName('swiftroute-backup', 'json'), 'application/json');
+    } catch (error) {
+      console.error(error);
+      alert(t.storage_write_failed);
+    }
+  };
+
+  const handleRestore = async (file: File) => {
+    if (!confirm(syncClient ? `${t.restore_confirm}\n\n${t.restore_sync_note}` : t.restore_confirm)) return;
+    try {
+      const restored = await restoreBackup(await file.text());
+      await syncClient?.reset();
+      applyPersistedState(restored);
+      setManifestHistory(EMPTY_HISTORY);
+      setIsHydrated(true);
+      setStorageError(null);
+      setIsSettingsOpen(false);
+    } catch (error) {
+      console.error(error);
+      alert(t.restore_failed);
+    }
+  };
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (langMenuRef.current && !langMenuRef.current.contains(event.target as Node)) setShowLangMenu(false);
       if (profileMenuRef.current && !profileMenuRef.current.contains(event.target as Node)) setShowProfileMenu(false);
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) setShowExportMenu(false);
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  useEffect(() => {
+    setDistanceModel(router?.model ?? haversineModel);
+    setRoadRevision(r => r + 1);
+  }, [router]);
+
+  const endLocation = routeEndpoint(routeEnd, depotLocation);
+
+  // Road geometry for the legs on the map; anything the service can't route stays a straight line.
+  useEffect(() => {
+    if (!router || stops.length === 0) return;
+    let cancelled = false;
+    const chains = groupByVehicle(stops).map(group => [depotLocation, ...group.stops.map(stop => stop.coords), ...(endLocation ? [endLocation] : [])]);
+    router.prefetchRoutes(chains)
+      .then(changed => { if (changed && !cancelled) setRoadRevision(r => r + 1); })
+      .catch(error => console.warn("Road routing unavailable", error));
+    return () => { cancelled = true; };
+  }, [router, stops, depotLocation, endLocation]);
+
+  const routeSchedule = useMemo(
+    () => scheduleManifest(depotLocation, stops, getRouteStart()),
+    [stops, depotLocation, useSystemTime, lastUpdated, roadRevision]
+  );
+
   const routeStats = useMemo(() => {
     if (stops.length === 0) return { distance: 0, duration: "0h 0m" };
     let totalDist = 0;
-    let current = depotLocation;
-    stops.forEach(stop => {
-      totalDist += calculateDistance(current, stop.coords) * 111;
-      current = stop.coords;
-    });
-    const lastStop = stops[stops.length - 1];
-    if (lastStop.estimatedTime) {
-      try {
-        const parseTime = (timeStr: string) => {
-          const [time, modifier] = timeStr.split(' ');
-          let [hours, minutes] = time.split(':').map(Number);
-          if (modifier === 'PM' && hours < 12) hours += 12;
-          if (modifier === 'AM' && hours === 12) hours = 0;
-          return hours * 60 + minutes;
-        };
-        const startTimeStr = useSystemTime && lastUpdated ? getCurrentTimeFormatted() : DEFAULT_DEPOT_START_TIME;
-        const startMinutes = parseTime(startTimeStr);
-        const endMinutes = parseTime(lastStop.estimatedTime);
-        const diff = endMinutes - startMinutes;
-        const h = Math.floor(diff / 60);
-        const m = diff % 60;
-        return { distance: totalDist, duration: `${h}h ${m}m` };
-      } catch (e) {
-        return { distance: totalDist, duration: "..." };
+    const schedule = scheduleOptionsFor(getRouteStart());
+    let lastArrival = schedule.startMinutes;
+    routeSchedule.forEach(entry => { lastArrival = Math.max(lastArrival, entry.arrivalMinutes); });
+    groupByVehicle(stops).forEach(group => {
+      let current = depotLocation;
+      group.stops.forEach(stop => {
+        totalDist += calculateDistance(current, stop.coords);
+        current = stop.coords;
+      });
+      const last = routeSchedule.get(group.stops[group.stops.length - 1].id);
+      if (endLocation && last) {
+        totalDist += calculateDistance(current, endLocation);
+        lastArrival = Math.max(lastArrival, last.departureMinutes + driveMinutes(current, endLocation, last.departureMinutes, schedule));
       }
-    }
-    return { distance: totalDist, duration: "..." };
-  }, [stops, depotLocation, useSystemTime, lastUpdated]);
+    });
+    const diff = Math.round(lastArrival - schedule.startMinutes);
+    return { distance: totalDist, duration: `${Math.floor(diff / 60)}h ${diff % 60}m` };
+  }, [stops, depotLocation, endLocation, routeSchedule, roadRevision]);
+
+  const vehicleStats = useMemo(() => {
+    const schedule = scheduleOptionsFor(getRouteStart());
+    return vehicles.map(vehicle => {
+      const assigned = stops.filter(s => s.vehicleId === vehicle.id);
+      let distance = 0;
+      let current = depotLocation;
+      assigned.forEach(stop => {
+        distance += calculateDistance(current, stop.coords);
+        current = stop.coords;
+      });
+      if (endLocation && assigned.length > 0) distance += calculateDistance(current, endLocation);
+      const load = assigned.reduce((sum, stop) => sum + stopDemand(stop), 0);
+      return { vehicle, stopCount: assigned.length, distance, load, durationMinutes: routeDurationMinutes(depotLocation, assigned, schedule, endLocation) };
+    }).filter(stat => stat.stopCount > 0);
+  }, [stops, vehicles, depotLocation, endLocation, useSystemTime, lastUpdated, roadRevision]);
 
-  const runOptimization = useCallback(async (manualStops?: DeliveryStop[], manualDepot?: Coordinate) => {
+  // Stops passed in keep their order unless `reorder` is set; without them the current manifest is re-optimized.
+  // Manifest edits go through here so they can be undone; re-timing and progress during a run are not recorded.
+  const commitStops = (command: ManifestCommand, next: DeliveryStop[]) => {
+    if (!activeRun) setManifestHistory(prev => recordChange(prev, command, stops));
+    setStops(next);
+  };
+
+  const runOptimization = useCallback(async (manualStops?: DeliveryStop[], manualDepot?: Coordinate, reorder: boolean = !manualStops, manualEnd?: RouteEnd) => {
     const targetStops = manualStops || stops;
     const targetDepot = manualDepot || depotLocation;
+    const targetEnd = routeEndpoint(manualEnd ?? routeEnd, targetDepot);
     if (targetStops.length === 0) return;
+    if (router) {
+      // The optimizer reads a synchronous matrix, so road legs are fetched up front; on failure it uses great-circle distances.
+      try {
+        if (await router.prefetchMatrix([targetDepot, ...targetStops.map(stop => stop.coords), ...(targetEnd ? [targetEnd] : [])])) setRoadRevision(r => r + 1);
+      } catch (error) {
+        console.warn("Road distances unavailable", error);
+      }
+    }
+    if (activeRun) {
+      const replanned = replanRemaining(targetDepot, targetStops, new Date(), { reorder, timeBudgetMs: OPTIMIZER_TIME_BUDGET_MS, end: targetEnd });
+      setEtaChanges(diffEtas(targetStops, replanned));
+      setEtaChangesSince(lastUpdated);
+      setStops(replanned);
+      setLastUpdated(new Date());
+      return;
+    }
     setIsOptimizing(true);
-    if (!manualStops) setSelectedStopId(null);
-    const orderedStops = manualStops ? manualStops : optimizeRoute(targetDepot, targetStops);
-    const startTime = useSystemTime ? getCurrentTimeFormatted() : DEFAULT_DEPOT_START_TIME;
+    if (reorder) setSelectedStopId(null);
+    let orderedStops = targetStops;
+    if (!reorder) {
+      setOptimizationReport(null);
+    } else {
+      const options = { timeBudgetMs: OPTIMIZER_TIME_BUDGET_MS, schedule: scheduleOptionsFor(getRouteStart()), end: targetEnd };
+      if (vehicles.length > 0) {
+        const plan = planFleet(targetDepot, targetStops, vehicles, options);
+        setOptimizationReport(combineResults(plan.routes.map(r => r.result)));
+        orderedStops = [...plan.routes.flatMap(r => r.stops), ...plan.unassigned];
+      } else {
+        const report = optimizeRoute(targetDepot, targetStops.map(stop => ({ ...stop, vehicleId: undefined })), options);
+        setOptimizationReport(report);
+        orderedStops = report.stops;
+      }
+    }
+    const timedStops = applyEtas(targetDepot, orderedStops, getRouteStart());
+    setEtaChanges(diffEtas(targetStops, timedStops));
+    setEtaChangesSince(lastUpdated);
+    if (reorder) setManifestHistory(prev => recordChange(prev, 'optimize', targetStops));
+    setStops(timedStops);
+    setLastUpdated(new Date());
     try {
-      const result = await analyzeRoute(orderedStops, lang, startTime);
-      const stopsWithInsights = orderedStops.map(stop => {
-        const insight = result.etas.find(e => e.id === stop.id);
-        return { ...stop, estimatedTime: insight?.eta, trafficCondition: insight?.traffic };
-      });
-      setStops(stopsWithInsights);
-      setAiSummary(result.summary);
-      setLastUpdated(new Date());
+      setAiSummary(useAiNarrative ? await analyzeRoute(timedStops, lang) : null);
     } catch (error) {
-      setStops(orderedStops);
+      setAiSummary(null);
     } finally {
       setIsOptimizing(false);
     }
-  }, [stops, depotLocation, lang, useSystemTime]);
+  }, [stops, vehicles, depotLocation, routeEnd, lang, useSystemTime, useAiNarrative, lastUpdated, activeRun, router]);
+
+  // Re-times the current sequence against the clock; the narrative is only re-requested when ETAs moved.
+  // Missing road legs are fetched first. If that fails the stops are still re-timed, and the error is passed
+  // on so the scheduler retries later; a failing narrative is only dropped.
+  const refreshEtas = async () => {
+    if (stops.length === 0 || isOptimizing) return;
+    let roadError: unknown = null;
+    if (router) {
+      try {
+        if (await router.prefetchMatrix([depotLocation, ...stops.map(stop => stop.coords), ...(endLocation ? [endLocation] : [])])) setRoadRevision(r => r + 1);
+      } catch (error) {
+        roadError = error;
+      }
+    }
+    const timedStops = activeRun
+      ? replanRemaining(depotLocation, stops, new Date(), { reorder: false, end: endLocation })
+      : applyEtas(depotLocation, stops, getRouteStart());
+    const changes = diffEtas(stops, timedStops);
+    setEtaChanges(changes);
+    setEtaChangesSince(lastUpdated);
+    setStops(timedStops);
+    setLastUpdated(new Date());
+    if (useAiNarrative && (changes.length > 0 || !aiSummary)) {
+      try {
+        setAiSummary(await analyzeRoute(timedStops, lang));
+      } catch {
+        setAiSummary(null);
+      }
+    }
+    if (roadError) throw roadError;
+  };
+
+  const refreshRef = useRef(refreshEtas);
+  refreshRef.current = refreshEtas;
+
+  // The restored order is kept and only re-timed.
+  const applyHistoryStep = (step: HistoryStep | null) => {
+    if (!step || activeRun) return;
+    setManifestHistory(step.history);
+    setStops(step.stops);
+    setAiSummary(null);
+    if (step.stops.length) runOptimization(step.stops);
+  };
+
+  const handleUndo = () => applyHistoryStep(undoChange(manifestHistory, stops));
+  const handleRedo = () => applyHistoryStep(redoChange(manifestHistory, stops));
+
+  const historyRef = useRef({ enabled: false, handleUndo, handleRedo });
+  historyRef.current = { enabled: role !== 'driver' && !isDriverRoute, handleUndo, handleRedo };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!historyRef.current.enabled || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) historyRef.current.handleUndo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') historyRef.current.handleRedo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isAutoRefreshEnabled) return;
+    const scheduler = createRefreshScheduler({
+      intervalMs: refreshIntervalMinutes * 60000,
+      run: () => refreshRef.current(),
+      onError: (error, retryInMs) => {
+        console.error("Auto-refresh failed", error);
+        setRefreshRetryAt(new Date(Date.now() + retryInMs));
+      },
+      onSuccess: () => setRefreshRetryAt(null)
+    });
+    scheduler.start();
+    return () => {
+      scheduler.stop();
+      setRefreshRetryAt(null);
+    };
+  }, [isAutoRefreshEnabled, refreshIntervalMinutes]);
+
+  const runSummary = useMemo(() => activeRun ? summarizeRun(stops) : null, [activeRun, stops]);
+
+  const archivedRuns = useMemo(() => filterRuns(runHistory, analyticsFilter), [runHistory, analyticsFilter]);
+  const dispatchers = useMemo(() => runDispatchers(runHistory), [runHistory]);
+  const today = dayKey(new Date().toISOString());
+  const todaysRoutes = useMemo(() => dueTemplates(savedRoutes, today), [savedRoutes, today]);
+
+  // On the first visit of a day, an empty manifest is filled with the templates due that day.
+  useEffect(() => {
+    if (!isHydrated || !user || role === 'driver' || templatesLoadedOn === today) return;
+    setTemplatesLoadedOn(today);
+    if (stops.length === 0 && !activeRun && todaysRoutes.length > 0) loadTemplates(todaysRoutes);
+  }, [isHydrated, user?.id, today]);
+
+  const etaChangeById = useMemo(() => new Map(etaChanges.map(change => [change.stopId, change])), [etaChanges]);
 
   const handleAddStop = async (e?: React.FormEvent) => {
     e?.preventDefault();
     if (!input.trim()) return;
     setIsLoading(true);
+    setAddStopError(null);
     try {
-      const parsed = await parseAddress(input);
+      const [match] = await geocoder.geocode(input);
+      if (!match) {
+        setAddStopError(t.geocode_not_found);
+        return;
+      }
+      if (match.confidence < geocoderSettings.minConfidence
+        && !confirm(`${t.geocode_low_confidence} (${Math.round(match.confidence * 100)}%):\n${match.address}\n\n${t.add}?`)) {
+        return;
+      }
       const newStop: DeliveryStop = {
         id: crypto.randomUUID(),
-        address: parsed.address,
-        customerName: parsed.customerName,
+        address: match.address,
+        customerName: match.customerName || t.unknown_customer,
         priority: priority,
-        coords: parsed.coords
+        coords: match.coords,
+        geocodeConfidence: match.confidence
       };
+      if (windowEarliest || windowLatest) {
+        newStop.timeWindow = { earliest: windowEarliest || undefined, latest: windowLatest || undefined };
+      }
+      if (serviceMinutes) newStop.serviceMinutes = Number(serviceMinutes);
+      if (demand) newStop.demand = Number(demand);
       const updatedStops = [...stops, newStop];
-      setStops(updatedStops);
+      commitStops('add', updatedStops);
       setInput('');
+      setWindowEarliest('');
+      setWindowLatest('');
+      setServiceMinutes('');
+      setDemand('');
       setAiSummary(null);
       runOptimization(updatedStops);
     } catch (error) {
       console.error(error);
+      setAddStopError(t.geocode_failed);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSaveCurrentRoute = () => {
-    if (!newRouteName.trim() || stops.length === 0) return;
-    const newRoute: SavedRoute = {
-      id: crypto.randomUUID(),
-      name: newRouteName.trim(),
-      stops: [...stops],
-      date: new Date().toLocaleDateString(lang === 'de' ? 'de-DE' : lang === 'es' ? 'es-ES' : 'en-US'),
-      totalDistance: routeStats.distance
-    };
-    setSavedRoutes(prev => [newRoute, ...prev]);
-    setNewRouteName('');
+  const handleBulkImport = (imported: DeliveryStop[]) => {
+    const updatedStops = [...stops, ...imported];
+    commitStops('import', updatedStops);
+    setIsBulkOpen(false);
+    setAiSummary(null);
+    runOptimization(updatedStops, undefined, true);
+  };
+
+  const handleExport = async (format: ExportFormat | 'print' | 'pod') => {
+    setShowExportMenu(false);
+    if (stops.length === 0) return;
+    const ctx: ExportContext = { name: t.active_manifest, depot: depotLocation, stops, vehicles };
+    if (format === 'pod') {
+      downloadFile(await buildPodBundle(ctx.name, stops), exportFileName(`${ctx.name}-pod`, 'zip'), 'application/zip');
+      return;
+    }
+    if (format !== 'print') {
+      exportManifest(format, ctx);
+      return;
+    }
+    const html = buildDriverSheet(ctx, {
+      title: t.driver_sheet_title,
+      stop: '#',
+      customer: t.field_customerName,
+      address: t.field_address,
+      eta: t.eta,
+      window: t.time_window,
+      traffic: t.traffic_legend,
+      notes: t.driver_sheet_notes,
+      signature: t.driver_sheet_signature,
+      depot: t.hq,
+      totalDistance: t.total_dist,
+      unassigned: t.unassigned,
+      details: stopDetailLabels(t)
+    }, { locale: locales[lang], unit: distanceUnit, mapSvg: mapRef.current?.getSnapshot() });
+    if (!printDriverSheet(html)) alert(t.popup_blocked);
+  };
+
+  const openTemplateModal = (route: SavedRoute | null) => {
+    setEditingRoute(route);
+    setIsSaveModalOpen(true);
+  };
+
+  const closeTemplateModal = () => {
     setIsSaveModalOpen(false);
+    setEditingRoute(null);
+  };
+
+  const handleSaveTemplate = ({ name, recurrence, replaceStops }: TemplateDraft) => {
+    const now = new Date().toISOString();
+    if (!editingRoute) {
+      if (stops.length === 0) return;
+      const newRoute: SavedRoute = {
+        id: crypto.randomUUID(),
+        name,
+        stops: templateStops(stops),
+        date: new Date().toLocaleDateString(locales[lang]),
+        totalDistance: routeStats.distance,
+        recurrence,
+        version: 1,
+        updatedAt: now,
+        updatedBy: user?.name
+      };
+      setSavedRoutes(prev => [newRoute, ...prev]);
+    } else {
+      let route: SavedRoute = { ...editingRoute, name, recurrence };
+      if (replaceStops && stops.length > 0) route = reviseTemplate(route, stops, routeStats.distance, now, user?.name);
+      setSavedRoutes(prev => prev.map(r => r.id === route.id ? route : r));
+    }
+    closeTemplateModal();
+  };
+
+  // Restoring keeps the history linear: the old stop list comes back as a new version.
+  const restoreTemplateVersion = (version: RouteVersion) => {
+    if (!editingRoute) return;
+    const route = reviseTemplate(editingRoute, version.stops, version.totalDistance, new Date().toISOString(), user?.name);
+    setSavedRoutes(prev => prev.map(r => r.id === route.id ? route : r));
+    closeTemplateModal();
+  };
+
+  const duplicateSavedRoute = (route: SavedRoute) => {
+    const copy = duplicateTemplate(route, `${route.name} (${t.copy_suffix})`, new Date().toISOString(), user?.name);
+    setSavedRoutes(prev => [{ ...copy, date: new Date().toLocaleDateString(locales[lang]) }, ...prev]);
+  };
+
+  // Several templates are merged into one manifest, so only then is the combined order re-optimized.
+  const loadTemplates = (routes: SavedRoute[]) => {
+    const loaded = instantiateTemplates(routes);
+    if (loaded.length === 0) return;
+    commitStops('load_template', loaded);
+    setAiSummary(null);
+    setActiveTab('manifest');
+    runOptimization(loaded, undefined, routes.length > 1);
   };
 
-  const loadSavedRoute = (route: SavedRoute) => {
-    setStops(route.stops);
+  const loadSavedRoute = (route: SavedRoute) => loadTemplates([route]);
+
+  const addCustomerToManifest = (customer: Customer) => {
+    const updatedStops = [...stops, customerToStop(customer)];
+    commitStops('add', updatedStops);
+    setInput('');
+    setAddStopError(null);
     setActiveTab('manifest');
-    runOptimization(route.stops);
+    setAiSummary(null);
+    runOptimization(updatedStops);
+  };
+
+  const openCustomerModal = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setIsCustomerModalOpen(true);
+  };
+
+  const handleSaveCustomer = (customer: Customer) => {
+    setSavedCustomers(prev => prev.some(c => c.id === customer.id)
+      ? prev.map(c => c.id === customer.id ? customer : c)
+      : [...prev, customer]);
+    setIsCustomerModalOpen(false);
+    setEditingCustomer(null);
+  };
+
+  const deleteCustomer = (id: string) => {
+    if (confirm(t.delete_customer_confirm)) {
+      setSavedCustomers(prev => prev.filter(c => c.id !== id));
+    }
+  };
+
+  const handleSaveStopToDb = (stop: DeliveryStop) => {
+    setSavedCustomers(prev => saveStopAsCustomer(prev, stop));
+  };
+
+  // Rows without coordinates are geocoded one at a time; rows that repeat a saved customer are skipped.
+  const handleImportCustomers = async (file: File) => {
+    setIsImportingCustomers(true);
+    let imported: Customer[] = [];
+    let skipped = 0;
+    try {
+      for (const draft of parseCustomerCsv(await file.text())) {
+        let coords = draft.coords;
+        let address = draft.address;
+        if (!coords) {
+          try {
+            const [match] = await geocoder.geocode(address);
+            if (match && match.confidence >= geocoderSettings.minConfidence) {
+              coords = match.coords;
+              address = match.address;
+            }
+          } catch (e) {
+            console.error(e);
+          }
+        }
+        const customer = coords ? { ...draft, address, coords, name: draft.name || t.unknown_customer } : null;
+        if (!customer || findCustomerForStop([...savedCustomers, ...imported], customer)) {
+          skipped++;
+          continue;
+        }
+        imported = [...imported, customer];
+      }
+      setSavedCustomers(prev => [...prev, ...imported]);
+      alert(`${imported.length} ${t.customers_imported}, ${skipped} ${t.customers_skipped}`);
+    } catch (e) {
+      console.error(e);
+      alert(t.gazetteer_invalid);
+    } finally {
+      setIsImportingCustomers(false);
+    }
+  };
+
+  const handleExportCustomers = () => {
+    downloadFile(formatCustomerCsv(savedCustomers), exportFileName(t.customer_db, 'csv'), 'text/csv;charset=utf-8');
   };
 
   const deleteSavedRoute = (id: string) => {
@@ -239,42 +850,224 @@ const App: React.FC = () => {
 
   const handleStartRoute = () => {
     if (stops.length === 0) return;
-    const origin = `${depotLocation.lat},${depotLocation.lng}`;
-    const destination = `${stops[stops.length - 1].coords.lat},${stops[stops.length - 1].coords.lng}`;
-    const waypoints = stops.slice(0, -1).map(s => `${s.coords.lat},${s.coords.lng}`).join('|');
-    let url = isIOS 
-      ? `maps://?saddr=${origin}&daddr=${destination}&${stops.slice(0, -1).map(s => `daddr=${s.coords.lat},${s.coords.lng}`).join('&')}`
-      : `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}&waypoints=${waypoints}&travelmode=driving`;
-    window.open(url, '_blank');
+    let runStops = stops;
+    if (!activeRun) {
+      runStops = beginExecution(stops);
+      setStops(runStops);
+      // Snapshots from before the run carry no progress, so restoring one mid-run would lose it.
+      setManifestHistory(EMPTY_HISTORY);
+      setActiveRun({
+        id: crypto.randomUUID(),
+        startedAt: new Date().toISOString(),
+        dispatcherId: user?.id,
+        dispatcherName: user?.name,
+        depot: depotLocation,
+        plannedDistance: routeStats.distance
+      });
+    }
+    const remaining = runStops.filter(stop => isStopOpen(stop));
+    if (remaining.length === 0) return;
+    // Once the run is under way the maps app starts from the device's own location.
+    const waypoints = remaining.map(s => s.coords);
+    const destination = endLocation ?? waypoints.pop()!;
+    window.open(directionsUrl(destination, {
+      origin: remaining.length === runStops.length ? depotLocation : undefined,
+      waypoints,
+      ios: isIOS
+    }), '_blank');
+  };
+
+  // Finishing or failing a stop re-plans the rest from there; arriving only re-times it.
+  const handleMarkStop = (stopId: string, status: StopStatus, reason?: string, proof?: ProofOfDelivery) => {
+    const now = new Date();
+    const updatedStops = stops.map(stop => {
+      if (stop.id !== stopId) return stop;
+      const marked = markStop(stop, status, now, reason);
+      if (proof) marked.proof = proof;
+      else if (status === 'pending') delete marked.proof;
+      return marked;
+    });
+    const replanned = replanRemaining(depotLocation, updatedStops, now, { reorder: status !== 'arrived', timeBudgetMs: OPTIMIZER_TIME_BUDGET_MS, end: endLocation });
+    setEtaChanges(diffEtas(updatedStops, replanned));
+    setEtaChangesSince(lastUpdated);
+    setStops(replanned);
+    setLastUpdated(now);
+    setFailingStopId(null);
+  };
+
+  const handleReplanFromLocation = () => {
+    if (!navigator.geolocation) return;
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(p => {
+      setIsLocating(false);
+      const now = new Date();
+      const replanned = replanRemaining(depotLocation, stops, now, { position: { lat: p.coords.latitude, lng: p.coords.longitude }, timeBudgetMs: OPTIMIZER_TIME_BUDGET_MS, end: endLocation });
+      setEtaChanges(diffEtas(stops, replanned));
+      setEtaChangesSince(lastUpdated);
+      setStops(replanned);
+      setLastUpdated(now);
+    }, () => setIsLocating(false));
+  };
+
+  const handleFinishRun = () => {
+    if (!activeRun || !confirm(t.finish_run_confirm)) return;
+    setRunHistory(prev => [...prev, { ...activeRun, finishedAt: new Date().toISOString(), actualDistance: drivenDistance(activeRun.depot ?? depotLocation, stops), stops }]);
+    setActiveRun(null);
+    setStops(prev => prev.map(({ execution, proof, ...stop }) => stop));
   };
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!dispatcherName.trim()) return;
-    localStorage.setItem(AUTH_KEY, JSON.stringify({ name: dispatcherName, id: dispatcherId || '#42' }));
-    setIsLoggedIn(true);
+    if (!loginUsername.trim() || !loginPassword || isSigningIn) return;
+    setIsSigningIn(true);
+    setLoginError(null);
+    try {
+      const next = await login(loginServerUrl.trim(), loginUsername.trim(), loginPassword);
+      localStorage.setItem(AUTH_KEY, JSON.stringify(next));
+      setSession(next);
+      setLoginPassword('');
+    } catch (error) {
+      setLoginError(error instanceof ApiError && error.status === 401 ? t.login_failed : t.login_unreachable);
+    } finally {
+      setIsSigningIn(false);
+    }
   };
 
   const handleLogout = () => {
-    localStorage.removeItem(AUTH_KEY);
-    setIsLoggedIn(false);
+    if (session) logout(session).catch(() => {});
+    signOutLocally();
+  };
+
+  // Map edits keep the current order and only re-time it. A dragged marker is a confirmed location.
+  const handleMoveStop = (id: string, coords: Coordinate) => {
+    const updatedStops = stops.map(stop => stop.id === id ? { ...stop, coords, geocodeConfidence: undefined } : stop);
+    commitStops('move', updatedStops);
+    runOptimization(updatedStops);
+  };
+
+  const handleSaveStop = (updated: DeliveryStop) => {
+    const updatedStops = stops.map(stop => stop.id === updated.id ? updated : stop);
+    commitStops('edit', updatedStops);
+    setEditingStopId(null);
+    runOptimization(updatedStops);
+  };
+
+  const handleMoveDepot = (coords: Coordinate) => {
+    setDepotLocation(coords);
+    setDepotId(null);
+    if (stops.length) runOptimization(stops, coords);
+  };
+
+  const handleSelectDepot = (id: string) => {
+    const depot = depots.find(d => d.id === id);
+    if (!depot) return;
+    setDepotLocation(depot.coords);
+    setDepotId(depot.id);
+    if (stops.length) runOptimization(stops, depot.coords);
+  };
+
+  const handleRouteEndChange = (key: string) => {
+    const next = parseRouteEndKey(key, depots);
+    setRouteEnd(next);
+    if (stops.length) runOptimization(stops, undefined, true, next);
+  };
+
+  const handleSaveDepot = () => {
+    const name = prompt(t.depot_name_prompt);
+    if (!name?.trim()) return;
+    const depot: Depot = { id: crypto.randomUUID(), name: name.trim(), coords: depotLocation };
+    setDepots(prev => [...prev, depot]);
+    setDepotId(depot.id);
+  };
+
+  const updateDepot = (id: string, name: string) => {
+    setDepots(prev => prev.map(depot => depot.id === id ? { ...depot, name } : depot));
+  };
+
+  // The route keeps its own copy of the coordinates, so removing a depot never moves a planned route.
+  const removeDepot = (id: string) => {
+    setDepots(prev => prev.filter(depot => depot.id !== id));
+    if (depotId === id) setDepotId(null);
+  };
+
+  const handleAddStopAt = (coords: Coordinate) => {
+    const customerName = prompt(t.map_stop_prompt);
+    if (customerName === null) return;
+    const updatedStops = [...stops, {
+      id: crypto.randomUUID(),
+      address: `${coords.lat.toFixed(5)}, ${coords.lng.toFixed(5)}`,
+      customerName: customerName.trim() || t.unknown_customer,
+      priority,
+      coords
+    }];
+    commitStops('add', updatedStops);
+    setAiSummary(null);
+    runOptimization(updatedStops);
+  };
+
+  const pickedStops = stops.filter(stop => pickedStopIds.includes(stop.id));
+
+  const handleBulkPriority = (value: DeliveryStop['priority']) => {
+    const updatedStops = stops.map(stop => pickedStopIds.includes(stop.id) ? { ...stop, priority: value } : stop);
+    commitStops('edit', updatedStops);
+    runOptimization(updatedStops);
+  };
+
+  // Moved stops join the end of the vehicle's run so it stays one consecutive block.
+  const handleBulkAssign = (vehicleId?: string) => {
+    const moved = pickedStops.map(stop => ({ ...stop, vehicleId }));
+    const rest = stops.filter(stop => !pickedStopIds.includes(stop.id));
+    const last = rest.map(stop => stop.vehicleId).lastIndexOf(vehicleId);
+    const at = last === -1 ? rest.length : last + 1;
+    const updatedStops = [...rest.slice(0, at), ...moved, ...rest.slice(at)];
+    commitStops('assign', updatedStops);
+    runOptimization(updatedStops);
+  };
+
+  const handleBulkRemove = () => {
+    if (!confirm(`${t.delete} ${pickedStops.length} ${t.targets}?`)) return;
+    commitStops('remove', stops.filter(stop => !pickedStopIds.includes(stop.id)));
+    setPickedStopIds([]);
   };
 
   const handleDrop = (index: number) => {
     if (draggedIndex === null || draggedIndex === index) return;
     const updatedStops = [...stops];
     const [movedItem] = updatedStops.splice(draggedIndex, 1);
-    updatedStops.splice(index, 0, movedItem);
-    setStops(updatedStops);
+    updatedStops.splice(index, 0, { ...movedItem, vehicleId: stops[index].vehicleId });
+    commitStops('reorder', updatedStops);
     setDraggedIndex(null);
     runOptimization(updatedStops);
   };
 
+  const addVehicle = () => {
+    setVehicles(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: `${t.vehicle} ${prev.length + 1}`,
+      capacity: 50,
+      shiftMinutes: 480,
+      color: VEHICLE_COLORS[prev.length % VEHICLE_COLORS.length]
+    }]);
+  };
+
+  const updateVehicle = (id: string, changes: Partial<Vehicle>) => {
+    setVehicles(prev => prev.map(v => v.id === id ? { ...v, ...changes } : v));
+  };
+
+  const removeVehicle = (id: string) => {
+    setVehicles(prev => prev.filter(v => v.id !== id));
+    setStops(prev => prev.map(s => s.vehicleId === id ? { ...s, vehicleId: undefined } : s));
+  };
+
   const toggleTheme = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
-  if (!isLoggedIn) {
+  const toggleDistanceUnit = () => {
+    setDistanceUnit(prev => prev === 'km' ? 'mi' : 'km');
+  };
+
+  if (!session) {
     return (
       <div className="h-screen w-screen bg-slate-900 flex items-center justify-center p-6 relative overflow-hidden pt-safe pb-safe">
         <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-blue-600/10 rounded-full blur-[120px] animate-pulse"></div>
@@ -289,15 +1082,20 @@ const App: React.FC = () => {
           <form onSubmit={handleLogin} className="p-10 space-y-8">
             <div className="space-y-6">
               <div>
-                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block mb-3">{t.login_name}</label>
-                <input autoFocus required value={dispatcherName} onChange={(e) => setDispatcherName(e.target.value)} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner" />
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block mb-3">{t.login_username}</label>
+                <input autoFocus required autoComplete="username" value={loginUsername} onChange={(e) => setLoginUsername(e.target.value)} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner" />
+              </div>
+              <div>
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block mb-3">{t.login_password}</label>
+                <input required type="password" autoComplete="current-password" value={loginPassword} onChange={(e) => setLoginPassword(e.target.value)} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner" />
               </div>
               <div>
-                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block mb-3">{t.login_id}</label>
-                <input value={dispatcherId} onChange={(e) => setDispatcherId(e.target.value)} placeholder="#42" className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner" />
+                <label className="text-xs font-bold text-slate-400 uppercase tracking-widest block mb-3">{t.login_server}</label>
+                <input required type="url" value={loginServerUrl} onChange={(e) => setLoginServerUrl(e.target.value)} placeholder={DEFAULT_SERVER_URL} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner" />
               </div>
+              {loginError && <p className="text-xs font-bold text-red-500">{loginError}</p>}
             </div>
-            <button type="submit" className="w-full py-5 bg-blue-600 text-white rounded-2xl font-black uppercase tracking-widest text-sm shadow-xl hover:bg-blue-700 active:scale-[0.97] transition-all flex items-center justify-center gap-4">
+            <button type="submit" disabled={isSigningIn} className="disabled:opacity-60 w-full py-5 bg-blue-600 text-white rounded-2xl font-black uppercase tracking-widest text-sm shadow-xl hover:bg-blue-700 active:scale-[0.97] transition-all flex items-center justify-center gap-4">
               {t.login_button}
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
             </button>
@@ -312,6 +1110,47 @@ const App: React.FC = () => {
     );
   }
 
+  const proofModal = podStopId && stops.some(s => s.id === podStopId) && (
+    <ProofOfDeliveryModal
+      lang={lang}
+      stop={stops.find(s => s.id === podStopId)!}
+      onConfirm={(proof) => { handleMarkStop(podStopId, 'delivered', undefined, proof); setPodStopId(null); }}
+      onClose={() => setPodStopId(null)}
+    />
+  );
+
+  if (role === 'driver' || isDriverRoute) {
+    return (
+      <>
+        <DriverView
+          lang={lang}
+          onLangChange={setLang}
+          theme={theme}
+          distanceUnit={distanceUnit}
+          user={user}
+          stops={stops}
+          vehicles={vehicles}
+          customers={savedCustomers}
+          depot={depotLocation}
+          routeEnd={endLocation}
+          isRunActive={activeRun !== null}
+          isLocating={isLocating}
+          syncStatus={syncStatus}
+          tiles={tileSettings}
+          roadGeometry={roadGeometry}
+          onStartRun={handleStartRoute}
+          onMarkStop={handleMarkStop}
+          onDeliver={setPodStopId}
+          onReplan={handleReplanFromLocation}
+          onFinishRun={handleFinishRun}
+          onSwitchToDispatch={role === 'driver' ? undefined : () => { window.location.hash = ''; }}
+          onLogout={handleLogout}
+        />
+        {proofModal}
+      </>
+    );
+  }
+
   return (
     <div className="flex h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 animate-in fade-in duration-500 overflow-hidden pt-safe pb-safe">
       <aside className={`fixed lg:static inset-y-0 left-0 w-[85vw] max-w-[380px] lg:w-96 flex flex-col border-r border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-2xl lg:shadow-none z-40 transition-transform duration-300 ease-in-out transform ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'}`}>
@@ -332,6 +1171,8 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('manifest')} className={`flex-1 py-4 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${activeTab === 'manifest' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>{t.route_manifest}</button>
           <button onClick={() => setActiveTab('directory')} className={`flex-1 py-4 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${activeTab === 'directory' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>{t.customer_db}</button>
           <button onClick={() => setActiveTab('routes')} className={`flex-1 py-4 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${activeTab === 'routes' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>{t.saved_routes_tab}</button>
+          {can(role, 'manageFleet') && <button onClick={() => setActiveTab('fleet')} className={`flex-1 py-4 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${activeTab === 'fleet' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>{t.fleet_tab}</button>}
+          <button onClick={() => setActiveTab('analytics')} className={`flex-1 py-4 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${activeTab === 'analytics' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'}`}>{t.analytics_tab}</button>
         </div>
 
         {activeTab === 'manifest' && (
@@ -340,12 +1181,24 @@ const App: React.FC = () => {
               <div className="relative">
                 <div className="flex items-center justify-between mb-2 px-1">
                   <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.search_placeholder}</label>
-                  <button type="button" onClick={() => { if(!navigator.geolocation) return; setIsLocating(true); navigator.geolocation.getCurrentPosition(p => { setDepotLocation({lat:p.coords.latitude, lng:p.coords.longitude}); setIsLocating(false); if(stops.length) runOptimization(stops, {lat:p.coords.latitude, lng:p.coords.longitude}); }, () => setIsLocating(false)); }} disabled={isLocating} className="text-[10px] font-black text-blue-600 dark:text-blue-400 flex items-center gap-1.5 uppercase active:scale-95">
+                  <button type="button" onClick={() => { if(!navigator.geolocation) return; setIsLocating(true); navigator.geolocation.getCurrentPosition(p => { setDepotLocation({lat:p.coords.latitude, lng:p.coords.longitude}); setDepotId(null); setIsLocating(false); if(stops.length) runOptimization(stops, {lat:p.coords.latitude, lng:p.coords.longitude}); }, () => setIsLocating(false)); }} disabled={isLocating} className="text-[10px] font-black text-blue-600 dark:text-blue-400 flex items-center gap-1.5 uppercase active:scale-95">
                     <svg className={`w-3.5 h-3.5 ${isLocating ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /></svg>
                     {isLocating ? '...' : t.start_my_location}
                   </button>
                 </div>
-                <input type="text" value={input} onChange={(e) => setInput(e.target.value)} placeholder="e.g. 123 Main St" className="w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100" disabled={isLoading} />
+                <input type="text" value={input} onChange={(e) => { setInput(e.target.value); setAddStopError(null); }} placeholder="e.g. 123 Main St" className="w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100" disabled={isLoading} />
+                {addStopError && <p className="mt-2 px-1 text-[11px] font-bold text-red-500">{addStopError}</p>}
+                {customerSuggestions.length > 0 && (
+                  <div className="mt-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-xl overflow-hidden">
+                    <p className="px-4 pt-3 pb-1 text-[9px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.suggested_db}</p>
+                    {customerSuggestions.map(customer => (
+                      <button key={customer.id} type="button" onClick={() => addCustomerToManifest(customer)} className="w-full text-left px-4 py-2.5 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors">
+                        <span className="block text-xs font-black text-slate-800 dark:text-slate-100 truncate">{customer.name}</span>
+                        <span className="block text-[10px] text-slate-500 dark:text-slate-400 truncate">{customer.address}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
               <div className="flex flex-wrap items-center gap-3">
                 <select value={priority} onChange={(e) => setPriority(e.target.value as any)} className="flex-1 px-4 py-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-700 dark:text-slate-300 outline-none">
@@ -357,6 +1210,14 @@ const App: React.FC = () => {
                   {isLoading ? '...' : t.add}
                 </button>
               </div>
+              <div className="flex items-center gap-2">
+                <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest flex-shrink-0">{t.time_window}</label>
+                <input type="time" value={windowEarliest} onChange={(e) => setWindowEarliest(e.target.value)} title={t.window_from} className="flex-1 min-w-0 px-2 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                <span className="text-slate-400">–</span>
+                <input type="time" value={windowLatest} onChange={(e) => setWindowLatest(e.target.value)} title={t.window_to} className="flex-1 min-w-0 px-2 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                <input type="number" min={0} value={serviceMinutes} onChange={(e) => setServiceMinutes(e.target.value)} placeholder={t.service_minutes} title={t.service_minutes} className="w-16 px-2 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                <input type="number" min={0} value={demand} onChange={(e) => setDemand(e.target.value)} placeholder={t.demand} title={t.demand} className="w-16 px-2 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-[11px] font-bold text-slate-700 dark:text-slate-300 outline-none" />
+              </div>
             </form>
           </div>
         )}
@@ -367,10 +1228,41 @@ const App: React.FC = () => {
               <div className="flex items-center justify-between mb-2">
                 <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.active_manifest} ({stops.length})</h2>
                 <div className="flex items-center gap-4">
-                  <button onClick={() => setIsSaveModalOpen(true)} disabled={stops.length === 0} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95 disabled:opacity-30">{t.save_route_btn}</button>
-                  <button onClick={() => { if(confirm(t.flush_route + "?")) setStops([]); }} className="text-[10px] font-black text-red-500 dark:text-red-400 uppercase active:scale-95">{t.flush_route}</button>
+                  <button onClick={() => setIsBulkOpen(true)} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.bulk_add}</button>
+                  <div className="relative" ref={exportMenuRef}>
+                    <button onClick={() => setShowExportMenu(!showExportMenu)} disabled={stops.length === 0} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95 disabled:opacity-30">{t.export}</button>
+                    {showExportMenu && (
+                      <div className="absolute top-full right-0 mt-3 w-48 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl z-50 overflow-hidden animate-in zoom-in duration-200">
+                        {([['csv', t.export_csv], ['gpx', t.export_gpx], ['kml', t.export_kml], ['print', t.export_print], ...(stops.some(s => s.proof) ? [['pod', t.export_pod]] : [])] as [ExportFormat | 'print' | 'pod', string][]).map(([format, label]) => (
+                          <button key={format} onClick={() => handleExport(format)} className="w-full text-left px-5 py-3 text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 transition-colors">{label}</button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <button onClick={() => openTemplateModal(null)} disabled={stops.length === 0} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95 disabled:opacity-30">{t.save_route_btn}</button>
+                  <button onClick={() => { if(confirm(t.flush_route + "?")) { commitStops('flush', []); setOptimizationReport(null); } }} className="text-[10px] font-black text-red-500 dark:text-red-400 uppercase active:scale-95">{t.flush_route}</button>
                 </div>
               </div>
+              {!activeRun && (manifestHistory.past.length > 0 || manifestHistory.future.length > 0) && (
+                <div className="flex items-center justify-between gap-3 px-1">
+                  <div className="flex items-center gap-1">
+                    <button onClick={handleUndo} disabled={manifestHistory.past.length === 0} title={manifestHistory.past.length > 0 ? `${t.undo}: ${t[`command_${manifestHistory.past[manifestHistory.past.length - 1].command}`]} (Ctrl+Z)` : t.undo} className="p-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-blue-600 dark:hover:text-blue-400 active:scale-95 disabled:opacity-30 disabled:hover:bg-transparent"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" /></svg></button>
+                    <button onClick={handleRedo} disabled={manifestHistory.future.length === 0} title={manifestHistory.future.length > 0 ? `${t.redo}: ${t[`command_${manifestHistory.future[manifestHistory.future.length - 1].command}`]} (Ctrl+Shift+Z)` : t.redo} className="p-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-blue-600 dark:hover:text-blue-400 active:scale-95 disabled:opacity-30 disabled:hover:bg-transparent"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" /></svg></button>
+                  </div>
+                  {stops.length > 0 && changesSinceOptimization(manifestHistory) > 0 && (
+                    <button onClick={() => runOptimization()} disabled={isOptimizing} title={t.optimize_changes_hint} className="text-[10px] font-black text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30 px-2 py-1 rounded-md uppercase tracking-tighter active:scale-95">
+                      {changesSinceOptimization(manifestHistory)} {t.changes_since_optimization}
+                    </button>
+                  )}
+                </div>
+              )}
+              {optimizationReport && stops.length > 0 && (
+                <p className={`text-[10px] font-bold uppercase tracking-widest px-1 ${optimizationReport.improvement > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-400 dark:text-slate-500'}`}>
+                  {optimizationReport.improvement > 0 ? `${t.optimizer_gain}: ${(optimizationReport.improvement * 100).toFixed(1)}%` : t.optimizer_no_gain}
+                  {(optimizationReport.greedyLateMinutes > 0 || optimizationReport.lateMinutes > 0) && ` • ${t.optimizer_late} ${Math.round(optimizationReport.greedyLateMinutes)} → ${Math.round(optimizationReport.lateMinutes)} ${t.minutes_short}`}
+                  {' '}({optimizationReport.iterations} {t.optimizer_moves})
+                </p>
+              )}
               {stops.length === 0 ? (
                 <div className="text-center py-20 opacity-30">
                   <svg className="w-16 h-16 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" /></svg>
@@ -378,68 +1270,300 @@ const App: React.FC = () => {
                 </div>
               ) : (
                 stops.map((stop, index) => (
-                  <div key={stop.id} draggable onDragStart={() => setDraggedIndex(index)} onDragOver={(e) => e.preventDefault()} onDrop={() => handleDrop(index)} onClick={() => setSelectedStopId(stop.id)} className={`p-4 bg-white dark:bg-slate-800 border-2 rounded-2xl shadow-sm transition-all cursor-pointer active:scale-[0.98] ${selectedStopId === stop.id ? 'border-blue-500 ring-4 ring-blue-50 dark:ring-blue-900/30' : 'border-slate-100 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'}`}>
+                  <div key={stop.id} draggable onDragStart={() => setDraggedIndex(index)} onDragOver={(e) => e.preventDefault()} onDrop={() => handleDrop(index)} onClick={() => setSelectedStopId(stop.id)} className={`p-4 bg-white dark:bg-slate-800 border-2 rounded-2xl shadow-sm transition-all cursor-pointer active:scale-[0.98] ${activeRun && !isStopOpen(stop) ? 'opacity-60' : ''} ${selectedStopId === stop.id ? 'border-blue-500 ring-4 ring-blue-50 dark:ring-blue-900/30' : 'border-slate-100 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'}`}>
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-3 mb-1">
                           <span className={`flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-lg text-[10px] font-black ${selectedStopId === stop.id ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>{index + 1}</span>
                           <h3 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{stop.customerName}</h3>
+                          {vehicles.length > 0 && (
+                            stop.vehicleId && vehicles.some(v => v.id === stop.vehicleId) ? (
+                              <span className="flex-shrink-0 w-2.5 h-2.5 rounded-full" style={{ backgroundColor: vehicles.find(v => v.id === stop.vehicleId)!.color }} title={vehicles.find(v => v.id === stop.vehicleId)!.name} />
+                            ) : (
+                              <span className="flex-shrink-0 text-[9px] font-black text-red-500 uppercase tracking-tighter">{t.unassigned}</span>
+                            )
+                          )}
                         </div>
                         <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate pl-9">{stop.address}</p>
-                        {stop.estimatedTime && (
+                        {!!(stop.phone || stop.accessInstructions || stop.packages?.length || stop.codAmount) && (
+                          <div className="mt-1.5 pl-9 flex items-center gap-x-3 gap-y-1 flex-wrap text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">
+                            {stop.phone && <span>{t.phone} {stop.phone}</span>}
+                            {stop.accessInstructions && <span title={stop.accessInstructions} className="truncate max-w-[12rem] normal-case tracking-normal text-slate-700 dark:text-slate-300">{t.access_instructions}: {stop.accessInstructions}</span>}
+                            {!!stop.packages?.length && <span title={formatPackages(stop.packages)}>{packageCount(stop.packages)} × {t.packages}</span>}
+                            {!!stop.codAmount && <span className="text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30 px-2 py-0.5 rounded-md">{t.cod} {formatCod(stop.codAmount, locales[lang])}</span>}
+                          </div>
+                        )}
+                        {stop.notes && <p className="mt-1 pl-9 text-[10px] italic text-slate-400 dark:text-slate-500 truncate" title={stop.notes}>{stop.notes}</p>}
+                        {stop.geocodeConfidence !== undefined && stop.geocodeConfidence < geocoderSettings.minConfidence && (
+                          <p className="mt-1 pl-9 text-[10px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-tighter">{t.geocode_check_location} ({Math.round(stop.geocodeConfidence * 100)}%)</p>
+                        )}
+                        {stop.timeWindow && (
+                          <div className="mt-2 pl-9 flex items-center gap-2">
+                            <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">{t.time_window} {stop.timeWindow.earliest || '…'}–{stop.timeWindow.latest || '…'}</span>
+                            {routeSchedule.get(stop.id)?.status === 'late' && (
+                              <span className="text-[10px] font-black text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 px-2 py-0.5 rounded-md uppercase tracking-tighter">{t.window_late} +{Math.round(routeSchedule.get(stop.id)!.lateMinutes)} {t.minutes_short}</span>
+                            )}
+                            {routeSchedule.get(stop.id)?.status === 'early' && (
+                              <span className="text-[10px] font-black text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/30 px-2 py-0.5 rounded-md uppercase tracking-tighter">{t.window_early} ({formatClockTime(routeSchedule.get(stop.id)!.arrivalMinutes)})</span>
+                            )}
+                          </div>
+                        )}
+                        {stop.eta && (
                           <div className="mt-3 pl-9 flex items-center gap-3">
-                            <span className="text-[10px] font-black text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded-md uppercase tracking-tighter">{t.eta} {stop.estimatedTime}</span>
+                            <span className="text-[10px] font-black text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded-md uppercase tracking-tighter">{t.eta} {formatEta(stop.eta, locales[lang])}</span>
+                            {etaChangeById.has(stop.id) && (
+                              <span title={`${t.eta_was} ${formatEta(etaChangeById.get(stop.id)!.previousEta, locales[lang])}`} className={`text-[10px] font-black px-2 py-1 rounded-md uppercase tracking-tighter ${etaChangeById.get(stop.id)!.deltaMinutes > 0 ? 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30' : 'text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/30'}`}>
+                                {etaChangeById.get(stop.id)!.deltaMinutes > 0 ? '+' : '−'}{Math.abs(etaChangeById.get(stop.id)!.deltaMinutes)} {t.minutes_short}
+                              </span>
+                            )}
                             <div className={`w-2 h-2 rounded-full ${stop.trafficCondition === 'heavy' ? 'bg-red-500' : stop.trafficCondition === 'moderate' ? 'bg-amber-500' : 'bg-emerald-500'}`} />
                           </div>
                         )}
+                        {activeRun && (
+                          <div className="mt-3 pl-9 space-y-2" onClick={(e) => e.stopPropagation()}>
+                            {stopStatus(stop) !== 'pending' && (
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <span className={`text-[10px] font-black px-2 py-1 rounded-md uppercase tracking-tighter ${stopStatusClass[stopStatus(stop)]}`}>
+                                  {t[`status_${stopStatus(stop)}`]} {formatEta((stop.execution!.completedAt ?? stop.execution!.arrivedAt)!, locales[lang])}
+                                </span>
+                                {delayMinutes(stop) !== null && (
+                                  <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">{t.planned} {formatEta(stop.execution!.plannedEta!, locales[lang])} ({delayMinutes(stop)! > 0 ? '+' : ''}{delayMinutes(stop)} {t.minutes_short})</span>
+                                )}
+                                {stop.proof && (
+                                  <span title={stop.proof.hash} className="text-[10px] font-bold text-emerald-600 dark:text-emerald-400 uppercase tracking-tighter">{t.pod_short} ✓ {stop.proof.recipientName}</span>
+                                )}
+                                {stop.execution?.failureReason && (
+                                  <span className="text-[10px] font-bold text-red-500 uppercase tracking-tighter">{t[`reason_${stop.execution.failureReason}`] ?? stop.execution.failureReason}</span>
+                                )}
+                                {!isStopOpen(stop) && (
+                                  <button onClick={() => handleMarkStop(stop.id, 'pending')} className="text-[10px] font-black text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.undo}</button>
+                                )}
+                              </div>
+                            )}
+                            {isStopOpen(stop) && (failingStopId === stop.id ? (
+                              <div className="flex items-center gap-2">
+                                <select value={failureReason} onChange={(e) => setFailureReason(e.target.value)} className="flex-1 min-w-0 px-2 py-1.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg text-[10px] font-bold text-slate-700 dark:text-slate-300 outline-none">
+                                  {FAILURE_REASONS.map(reason => <option key={reason} value={reason}>{t[`reason_${reason}`]}</option>)}
+                                </select>
+                                <button onClick={() => handleMarkStop(stop.id, 'failed', failureReason)} className="px-3 py-1.5 bg-red-600 text-white text-[10px] font-black uppercase rounded-lg active:scale-95">{t.mark_failed}</button>
+                                <button onClick={() => setFailingStopId(null)} className="text-[10px] font-black text-slate-400 uppercase">{t.cancel}</button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 flex-wrap">
+                                {stopStatus(stop) === 'pending' && (
+                                  <button onClick={() => handleMarkStop(stop.id, 'arrived')} className="px-3 py-1.5 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.mark_arrived}</button>
+                                )}
+                                <button onClick={() => setPodStopId(stop.id)} className="px-3 py-1.5 bg-emerald-600 text-white text-[10px] font-black uppercase rounded-lg active:scale-95">{t.mark_delivered}</button>
+                                <button onClick={() => { setFailingStopId(stop.id); setFailureReason(FAILURE_REASONS[0]); }} className="px-3 py-1.5 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.mark_failed}</button>
+                                <button onClick={() => handleMarkStop(stop.id, 'skipped')} className="px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.mark_skipped}</button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <button onClick={(e) => { e.stopPropagation(); setStops(prev => prev.filter(s => s.id !== stop.id)); }} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 p-1 active:scale-125 transition-transform"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                      <button onClick={(e) => { e.stopPropagation(); setEditingStopId(stop.id); }} title={t.edit} className="p-1 text-slate-300 dark:text-slate-600 hover:text-blue-500 dark:hover:text-blue-400 active:scale-125 transition-transform"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1.464-4.536z" /></svg></button>
+                      {can(role, 'editDirectory') && <button onClick={(e) => { e.stopPropagation(); handleSaveStopToDb(stop); }} title={savedStopIds.has(stop.id) ? t.saved_to_db : t.save_to_db} className={`p-1 active:scale-125 transition-transform ${savedStopIds.has(stop.id) ? 'text-blue-500 dark:text-blue-400' : 'text-slate-300 dark:text-slate-600 hover:text-blue-500 dark:hover:text-blue-400'}`}><svg className="w-5 h-5" fill={savedStopIds.has(stop.id) ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg></button>}
+                      <button onClick={(e) => { e.stopPropagation(); commitStops('remove', stops.filter(s => s.id !== stop.id)); }} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 p-1 active:scale-125 transition-transform"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
                     </div>
                   </div>
                 ))
               )}
             </>
-          ) : activeTab === 'directory' ? (
+          ) : activeTab === 'fleet' ? (
             <>
               <div className="flex items-center justify-between mb-2">
-                <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.customer_db}</h2>
+                <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.fleet_tab} ({vehicles.length})</h2>
+                <button onClick={addVehicle} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.add_vehicle}</button>
+              </div>
+              {vehicles.length === 0 ? (
+                <div className="text-center py-20 opacity-30 italic text-xs font-bold uppercase tracking-widest dark:text-slate-400">{t.no_vehicles}</div>
+              ) : (
+                vehicles.map(vehicle => (
+                  <div key={vehicle.id} className="p-4 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm space-y-3">
+                    <div className="flex items-center gap-3">
+                      <span className="flex-shrink-0 w-3 h-3 rounded-full" style={{ backgroundColor: vehicle.color }} />
+                      <input value={vehicle.name} onChange={(e) => updateVehicle(vehicle.id, { name: e.target.value })} className="flex-1 min-w-0 bg-transparent text-sm font-black text-slate-800 dark:text-slate-100 outline-none" />
+                      <button onClick={() => removeVehicle(vehicle.id)} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                        {t.capacity}
+                        <input type="number" min={1} value={vehicle.capacity} onChange={(e) => updateVehicle(vehicle.id, { capacity: Number(e.target.value) })} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                      </label>
+                      <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                        {t.shift_hours}
+                        <input type="number" min={0.5} step={0.5} value={vehicle.shiftMinutes / 60} onChange={(e) => updateVehicle(vehicle.id, { shiftMinutes: Number(e.target.value) * 60 })} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                      </label>
+                    </div>
+                    <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                      {t.driver}
+                      <select value={vehicle.driverId ?? ''} onChange={(e) => updateVehicle(vehicle.id, { driverId: e.target.value || undefined })} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none">
+                        <option value="">{t.no_driver}</option>
+                        {drivers.map(driver => <option key={driver.id} value={driver.id}>{driver.name}</option>)}
+                        {vehicle.driverId && !drivers.some(driver => driver.id === vehicle.driverId) && <option value={vehicle.driverId}>{vehicle.driverId}</option>}
+                      </select>
+                    </label>
+                  </div>
+                ))
+              )}
+              <div className="flex items-center justify-between pt-4 mb-2">
+                <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.depots} ({depots.length})</h2>
+                <button onClick={handleSaveDepot} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.save_current_depot}</button>
               </div>
-              {savedCustomers.map(customer => (
-                <div key={customer.id} className="p-4 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl flex justify-between items-center shadow-sm">
-                  <div className="min-w-0 flex-1">
-                    <h3 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{customer.name}</h3>
-                    <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">{customer.address}</p>
+              {depots.length === 0 ? (
+                <p className="text-[11px] text-slate-500 dark:text-slate-400 px-1">{t.no_depots}</p>
+              ) : (
+                depots.map(depot => (
+                  <div key={depot.id} className="p-4 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <input value={depot.name} onChange={(e) => updateDepot(depot.id, e.target.value)} className="w-full bg-transparent text-sm font-black text-slate-800 dark:text-slate-100 outline-none" />
+                      <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 tracking-widest">{depot.coords.lat.toFixed(5)}, {depot.coords.lng.toFixed(5)}</p>
+                    </div>
+                    <button onClick={() => removeDepot(depot.id)} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
                   </div>
-                  <button onClick={() => { 
-                    const newStop: DeliveryStop = { id: crypto.randomUUID(), customerName: customer.name, address: customer.address, coords: customer.coords, priority: 'medium' };
-                    const updatedStops = [...stops, newStop];
-                    setStops(updatedStops); 
-                    setActiveTab('manifest'); 
-                    runOptimization(updatedStops);
-                  }} className="ml-4 px-4 py-2 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.add}</button>
+                ))
+              )}
+            </>
+          ) : activeTab === 'analytics' ? (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.archived_runs} ({archivedRuns.length})</h2>
+                {(analyticsFilter.from || analyticsFilter.to || analyticsFilter.dispatcherId) && <button onClick={() => setAnalyticsFilter({})} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.clear_filters}</button>}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                  {t.date_from}
+                  <input type="date" value={analyticsFilter.from ?? ''} max={analyticsFilter.to} onChange={(e) => setAnalyticsFilter(prev => ({ ...prev, from: e.target.value || undefined }))} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                </label>
+                <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                  {t.date_to}
+                  <input type="date" value={analyticsFilter.to ?? ''} min={analyticsFilter.from} onChange={(e) => setAnalyticsFilter(prev => ({ ...prev, to: e.target.value || undefined }))} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none" />
+                </label>
+              </div>
+              <label className="block text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                {t.run_dispatcher}
+                <select value={analyticsFilter.dispatcherId ?? ''} onChange={(e) => setAnalyticsFilter(prev => ({ ...prev, dispatcherId: e.target.value || undefined }))} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none">
+                  <option value="">{t.all_dispatchers}</option>
+                  {dispatchers.map(dispatcher => <option key={dispatcher.id} value={dispatcher.id}>{dispatcher.name}</option>)}
+                </select>
+              </label>
+              {archivedRuns.length === 0 ? (
+                <div className="text-center py-20 opacity-30 italic text-xs font-bold uppercase tracking-widest dark:text-slate-400">{t.no_runs}</div>
+              ) : (
+                archivedRuns.map(run => {
+                  const summary = summarizeRun(run.stops);
+                  const onTime = onTimeByPriority([run]).reduce((sum, entry) => sum + entry.total, 0);
+                  return (
+                    <div key={run.id} className="p-4 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm space-y-1.5">
+                      <div className="flex justify-between items-start gap-3">
+                        <h3 className="text-sm font-black text-slate-800 dark:text-slate-100">{new Date(run.startedAt).toLocaleString(locales[lang], { dateStyle: 'medium', timeStyle: 'short' })}</h3>
+                        <span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest whitespace-nowrap">{summary.counts.delivered}/{summary.total}</span>
+                      </div>
+                      {run.dispatcherName && <p className="text-[10px] text-slate-400 dark:text-slate-500 font-bold uppercase tracking-widest">{run.dispatcherName}</p>}
+                      <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">
+                        {t.planned} {formatDistance(run.plannedDistance ?? 0, distanceUnit)} • {t.actual} {formatDistance(run.actualDistance ?? 0, distanceUnit)}
+                        {onTime > 0 && ` • ${t.on_time_rate} ${Math.round(summary.onTime / onTime * 100)}%`}
+                      </p>
+                    </div>
+                  );
+                })
+              )}
+            </>
+          ) : activeTab === 'directory' ? (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.customer_db} ({savedCustomers.length})</h2>
+                <div className="flex items-center gap-4">
+                  {can(role, 'editDirectory') && (
+                    <>
+                      <button onClick={() => openCustomerModal(null)} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.add_customer}</button>
+                      <label className={`text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95 cursor-pointer ${isImportingCustomers ? 'opacity-30 pointer-events-none' : ''}`}>
+                        {isImportingCustomers ? '...' : t.import_customers}
+                        <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImportCustomers(file); e.target.value = ''; }} />
+                      </label>
+                    </>
+                  )}
+                  <button onClick={handleExportCustomers} disabled={savedCustomers.length === 0} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95 disabled:opacity-30">{t.export_customers}</button>
                 </div>
-              ))}
+              </div>
+              <input type="text" value={directoryQuery} onChange={(e) => setDirectoryQuery(e.target.value)} placeholder={t.search_db_placeholder} className="w-full px-5 py-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100" />
+              {visibleCustomers.length === 0 ? (
+                <div className="text-center py-20 opacity-30 italic text-xs font-bold uppercase tracking-widest dark:text-slate-400">{savedCustomers.length === 0 ? t.no_customers : t.no_matches}</div>
+              ) : (
+                visibleCustomers.map(customer => (
+                  <div key={customer.id} className="p-4 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm">
+                    <div className="flex justify-between items-start gap-3">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <h3 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{customer.name}</h3>
+                          {customer.priority === 'high' && <span className="flex-shrink-0 text-[9px] font-black text-white bg-slate-900 dark:bg-slate-600 px-1.5 py-0.5 rounded uppercase tracking-tighter">{t.express}</span>}
+                        </div>
+                        <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">{customer.address}</p>
+                        {(customer.phone || customer.timeWindow) && (
+                          <p className="mt-1 text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-tighter truncate">
+                            {[customer.phone, customer.timeWindow && `${t.time_window} ${customer.timeWindow.earliest || '…'}–${customer.timeWindow.latest || '…'}`].filter(Boolean).join(' • ')}
+                          </p>
+                        )}
+                        {customer.notes && <p className="mt-1 text-[11px] italic text-slate-500 dark:text-slate-400 line-clamp-2">{customer.notes}</p>}
+                      </div>
+                      <button onClick={() => addCustomerToManifest(customer)} className="flex-shrink-0 px-4 py-2 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.add}</button>
+                    </div>
+                    {can(role, 'editDirectory') && <div className="mt-3 flex gap-4">
+                      <button onClick={() => openCustomerModal(customer)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.edit}</button>
+                      <button onClick={() => deleteCustomer(customer.id)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-red-500 dark:hover:text-red-400 uppercase">{t.delete}</button>
+                    </div>}
+                  </div>
+                ))
+              )}
             </>
           ) : (
             <>
+              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900/40 rounded-2xl space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{t.todays_routes}</h2>
+                  <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400">{new Date(`${today}T12:00:00`).toLocaleDateString(locales[lang], { weekday: 'long', day: 'numeric', month: 'short' })}</span>
+                </div>
+                {todaysRoutes.length === 0 ? (
+                  <p className="text-[11px] font-bold text-slate-400 dark:text-slate-500 italic">{t.no_routes_today}</p>
+                ) : (
+                  <>
+                    <p className="text-xs font-bold text-slate-700 dark:text-slate-200">{todaysRoutes.map(route => route.name).join(', ')}</p>
+                    <button onClick={() => (stops.length === 0 || confirm(t.replace_manifest_confirm)) && loadTemplates(todaysRoutes)} disabled={!!activeRun} className="w-full py-2.5 bg-blue-600 dark:bg-blue-500 text-white text-[10px] font-black uppercase rounded-xl active:scale-95 transition-all disabled:opacity-50">{t.load_todays_routes} ({todaysRoutes.reduce((sum, route) => sum + route.stops.length, 0)} {t.targets})</button>
+                  </>
+                )}
+              </div>
               <div className="flex items-center justify-between mb-2">
                 <h2 className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.saved_routes_tab}</h2>
               </div>
               {savedRoutes.length === 0 ? (
                 <div className="text-center py-20 opacity-30 italic text-xs font-bold uppercase tracking-widest dark:text-slate-400">{t.no_saved_routes}</div>
               ) : (
-                savedRoutes.map(route => (
-                  <div key={route.id} className="p-5 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm space-y-3 group hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
-                    <div className="flex justify-between items-start">
-                      <div className="min-w-0">
-                        <h3 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{route.name}</h3>
-                        <p className="text-[10px] text-slate-400 dark:text-slate-500 font-bold uppercase tracking-widest mt-0.5">{route.date} • {route.stops.length} {t.targets}</p>
+                savedRoutes.map(route => {
+                  const nextDue = route.recurrence ? nextDueDay(route, today) : null;
+                  return (
+                    <div key={route.id} className="p-5 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 rounded-2xl shadow-sm space-y-3 group hover:border-blue-200 dark:hover:border-blue-800 transition-colors">
+                      <div className="flex justify-between items-start">
+                        <div className="min-w-0">
+                          <h3 className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{route.name}</h3>
+                          <p className="text-[10px] text-slate-400 dark:text-slate-500 font-bold uppercase tracking-widest mt-0.5">{route.date} • {route.stops.length} {t.targets} • v{route.version ?? 1}</p>
+                          {route.recurrence && (
+                            <p className="text-[10px] text-blue-600 dark:text-blue-400 font-bold mt-1">
+                              {WEEKDAYS.filter(d => route.recurrence!.weekdays.includes(d)).map(d => weekdayName(d, locales[lang])).join(', ')}
+                              {route.recurrence.intervalWeeks > 1 && ` • ${t.every} ${route.recurrence.intervalWeeks} ${t.weeks}`}
+                              {nextDue && ` • ${t.next_due} ${new Date(`${nextDue}T12:00:00`).toLocaleDateString(locales[lang], { day: 'numeric', month: 'short' })}`}
+                            </p>
+                          )}
+                        </div>
+                        {can(role, 'deleteTemplates') && <button onClick={() => deleteSavedRoute(route.id)} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>}
                       </div>
-                      <button onClick={() => deleteSavedRoute(route.id)} className="text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 transition-colors"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
+                      {can(role, 'deleteTemplates') && <div className="flex gap-4">
+                        <button onClick={() => openTemplateModal(route)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.edit}</button>
+                        <button onClick={() => duplicateSavedRoute(route)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.duplicate}</button>
+                      </div>}
+                      <button onClick={() => loadSavedRoute(route)} className="w-full py-2.5 bg-slate-900 dark:bg-slate-950 text-white text-[10px] font-black uppercase rounded-xl active:scale-95 transition-all">{t.load}</button>
                     </div>
-                    <button onClick={() => loadSavedRoute(route)} className="w-full py-2.5 bg-slate-900 dark:bg-slate-950 text-white text-[10px] font-black uppercase rounded-xl active:scale-95 transition-all">{t.load}</button>
-                  </div>
-                ))
+                  );
+                })
               )}
             </>
           )}
@@ -447,10 +1571,47 @@ const App: React.FC = () => {
 
         {activeTab === 'manifest' && (
           <div className="p-6 border-t border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-950 space-y-4 pb-safe">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                {t.route_start}
+                <select value={depotId ?? ''} onChange={(e) => handleSelectDepot(e.target.value)} className="mt-1 w-full px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none">
+                  {!depotId && <option value="">{t.custom_location}</option>}
+                  {depots.map(depot => <option key={depot.id} value={depot.id}>{depot.name}</option>)}
+                </select>
+              </label>
+              <label className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                {t.route_end}
+                <select value={routeEndKey(routeEnd)} onChange={(e) => handleRouteEndChange(e.target.value)} className="mt-1 w-full px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none">
+                  <option value="return">{t.end_return}</option>
+                  <option value="last_stop">{t.end_last_stop}</option>
+                  {depots.map(depot => <option key={depot.id} value={`depot:${depot.id}`}>{depot.name}</option>)}
+                  {routeEnd.mode === 'depot' && !depots.some(depot => depot.id === routeEnd.depotId) && <option value={routeEndKey(routeEnd)}>{t.removed_depot}</option>}
+                </select>
+              </label>
+            </div>
             <div className="space-y-3">
               <div className="flex items-center justify-between px-1">
                  <span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">{t.auto_refresh}</span>
-                 <button onClick={() => setIsAutoRefreshEnabled(!isAutoRefreshEnabled)} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${isAutoRefreshEnabled ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${isAutoRefreshEnabled ? 'translate-x-6' : 'translate-x-1'}`} /></button>
+                 <div className="flex items-center gap-3">
+                   {isAutoRefreshEnabled && (
+                     <select value={refreshIntervalMinutes} onChange={(e) => setRefreshIntervalMinutes(Number(e.target.value))} title={t.refresh_interval} className="px-2 py-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg text-[10px] font-black text-slate-700 dark:text-slate-300 outline-none">
+                       {REFRESH_INTERVAL_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} {t.minutes_short}</option>)}
+                     </select>
+                   )}
+                   <button onClick={() => setIsAutoRefreshEnabled(!isAutoRefreshEnabled)} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${isAutoRefreshEnabled ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${isAutoRefreshEnabled ? 'translate-x-6' : 'translate-x-1'}`} /></button>
+                 </div>
+              </div>
+              {refreshRetryAt && (
+                <p className="px-1 text-[10px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-widest">{t.refresh_retry} {refreshRetryAt.toLocaleTimeString(locales[lang], { hour: '2-digit', minute: '2-digit' })}</p>
+              )}
+              {etaChangesSince && (
+                <p className="px-1 text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                  {etaChanges.length > 0 ? `${etaChanges.length} ${t.etas_changed}` : t.no_eta_changes} {t.since} {etaChangesSince.toLocaleTimeString(locales[lang], { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              )}
+              <div className="flex items-center justify-between px-1">
+                 <span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">{t.ai_narrative}</span>
+                 <button onClick={() => setUseAiNarrative(!useAiNarrative)} className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${useAiNarrative ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`}><span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${useAiNarrative ? 'translate-x-6' : 'translate-x-1'}`} /></button>
               </div>
               <div className="flex items-center justify-between px-1">
                  <span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">{t.use_current_time}</span>
@@ -458,9 +1619,25 @@ const App: React.FC = () => {
               </div>
             </div>
             
+            {activeRun && runSummary && (
+              <div className="p-4 bg-white dark:bg-slate-900 border-2 border-emerald-100 dark:border-emerald-900/40 rounded-2xl space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-emerald-600 dark:text-emerald-400 uppercase tracking-widest flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />{t.run_in_progress}</span>
+                  <span className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">{runSummary.total - runSummary.counts.pending - runSummary.counts.arrived}/{runSummary.total}</span>
+                </div>
+                <p className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">
+                  {t.status_delivered} {runSummary.counts.delivered} • {t.status_failed} {runSummary.counts.failed} • {t.status_skipped} {runSummary.counts.skipped}
+                  {runSummary.averageDelayMinutes !== null && ` • ${t.avg_delay} ${runSummary.averageDelayMinutes > 0 ? '+' : ''}${Math.round(runSummary.averageDelayMinutes)} ${t.minutes_short}`}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={handleReplanFromLocation} disabled={isLocating} className="flex-1 py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 text-[10px] font-black uppercase rounded-xl active:scale-95">{isLocating ? '...' : t.replan_from_location}</button>
+                  <button onClick={handleFinishRun} className="flex-1 py-2.5 bg-slate-900 dark:bg-slate-950 text-white text-[10px] font-black uppercase rounded-xl active:scale-95">{t.finish_run}</button>
+                </div>
+              </div>
+            )}
             <button onClick={handleStartRoute} disabled={stops.length < 1} className="w-full h-16 bg-emerald-600 dark:bg-emerald-700 text-white rounded-[1.25rem] font-black uppercase tracking-[0.2em] text-sm shadow-2xl shadow-emerald-200 dark:shadow-none active:scale-[0.96] transition-all flex items-center justify-center gap-3">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-              {t.start_now}
+              {activeRun ? t.resume_navigation : t.start_now}
             </button>
             <button onClick={() => runOptimization()} disabled={stops.length < 1 || isOptimizing} className="w-full h-12 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 border-2 border-slate-200 dark:border-slate-700 rounded-[1rem] font-black uppercase tracking-widest text-[10px] active:scale-[0.98] flex items-center justify-center gap-2">
               {isOptimizing ? <div className="w-4 h-4 border-2 border-slate-300 border-t-slate-800 rounded-full animate-spin" /> : t.manual_refresh}
@@ -481,6 +1658,12 @@ const App: React.FC = () => {
               <div className="flex items-center gap-2">
                 <div className={`w-2.5 h-2.5 rounded-full ${stops.length > 0 ? 'bg-emerald-500 animate-pulse' : 'bg-slate-300 dark:bg-slate-700'}`} />
                 <span className="text-sm font-black text-slate-800 dark:text-slate-200">{t.health_active}</span>
+                {lastUpdated && (
+                  <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest ml-2">{t.last_updated} {lastUpdated.toLocaleTimeString(locales[lang], { hour: '2-digit', minute: '2-digit' })}</span>
+                )}
+                {syncStatus && (
+                  <span title={syncPending > 0 ? `${syncPending} ${t.sync_pending}` : undefined} className={`text-[10px] font-bold uppercase tracking-widest ml-2 ${syncStatus === 'error' ? 'text-red-500' : syncStatus === 'offline' ? 'text-amber-500' : 'text-slate-400 dark:text-slate-500'}`}>{t[`sync_${syncStatus}` as keyof typeof t]}{syncPending > 0 ? ` (${syncPending})` : ''}</span>
+                )}
               </div>
             </div>
           </div>
@@ -494,6 +1677,12 @@ const App: React.FC = () => {
                 )}
              </button>
 
+             <button onClick={() => setIsSettingsOpen(true)} title={t.settings_title} className="p-3 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-2xl transition-all border border-slate-200 dark:border-slate-700 active:scale-95 text-slate-700 dark:text-slate-300">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+             </button>
+
+             <button onClick={toggleDistanceUnit} title={t.distance_unit} className="px-4 py-3 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-2xl transition-all border border-slate-200 dark:border-slate-700 active:scale-95 font-black text-xs uppercase text-slate-700 dark:text-slate-300">{distanceUnit}</button>
+
              <div className="relative" ref={langMenuRef}>
                 <button onClick={() => setShowLangMenu(!showLangMenu)} className="flex items-center gap-2 px-4 py-3 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-2xl transition-all border border-slate-200 dark:border-slate-700 active:scale-95 font-black text-xs uppercase text-slate-700 dark:text-slate-300">{lang}</button>
                 {showLangMenu && (
@@ -507,7 +1696,7 @@ const App: React.FC = () => {
 
              <div className="relative" ref={profileMenuRef}>
                 <button onClick={() => setShowProfileMenu(!showProfileMenu)} className="flex items-center gap-4 pl-4 pr-3 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-[1.5rem] shadow-xl active:scale-[0.98] transition-all">
-                  <span className="text-xs font-black truncate max-w-[120px] hidden sm:block">{dispatcherName}</span>
+                  <span className="text-xs font-black truncate max-w-[120px] hidden sm:block">{user.name}</span>
                   <div className="h-10 w-10 rounded-xl bg-blue-600 flex items-center justify-center">
                       <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
                   </div>
@@ -516,8 +1705,13 @@ const App: React.FC = () => {
                   <div className="absolute top-full right-0 mt-3 w-56 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-[1.5rem] shadow-2xl z-50 overflow-hidden animate-in zoom-in-95 origin-top-right">
                     <div className="px-6 py-5 bg-slate-50 dark:bg-slate-900 border-b border-slate-100 dark:border-slate-800">
                       <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.welcome}</p>
-                      <p className="text-sm font-black text-slate-900 dark:text-slate-100 mt-1">{dispatcherName}</p>
+                      <p className="text-sm font-black text-slate-900 dark:text-slate-100 mt-1">{user.name}</p>
+                      <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mt-1">{t[`role_${role}`]}</p>
                     </div>
+                    <a href={DRIVER_HASH} onClick={() => setShowProfileMenu(false)} className="w-full text-left px-6 py-5 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 text-xs font-black uppercase tracking-widest transition-colors flex items-center gap-3">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>
+                      {t.driver_view}
+                    </a>
                     <button onClick={handleLogout} className="w-full text-left px-6 py-5 hover:bg-red-50 dark:hover:bg-red-950 text-red-600 dark:text-red-400 text-xs font-black uppercase tracking-widest transition-colors flex items-center gap-3">
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 16l4-4m0 0l-4-4m4 4H7" /></svg>
                       {t.logout}
@@ -529,8 +1723,40 @@ const App: React.FC = () => {
         </header>
 
         <main className="flex-1 p-6 lg:p-10 overflow-hidden relative flex flex-col gap-6 lg:gap-8 bg-slate-50 dark:bg-slate-950">
+          {storageError && (
+            <div className="flex items-center justify-between gap-4 px-6 py-4 bg-red-50 dark:bg-red-950/40 border border-red-200 dark:border-red-900 rounded-2xl">
+              <p className="text-xs font-bold text-red-700 dark:text-red-300">{storageError}</p>
+              {isHydrated && <button onClick={handleBackup} className="flex-shrink-0 px-4 py-2 bg-red-600 text-white text-[10px] font-black uppercase rounded-xl active:scale-95">{t.backup}</button>}
+            </div>
+          )}
+          {activeTab === 'analytics' ? (
+            <div className="flex-1 min-h-0 bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <AnalyticsDashboard runs={archivedRuns} lang={lang} theme={theme} distanceUnit={distanceUnit} />
+            </div>
+          ) : (
           <div className="flex-1 bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-xl border border-slate-200 dark:border-slate-800 overflow-hidden relative">
-             <RouteMap stops={stops} baseLocation={depotLocation} selectedStopId={selectedStopId} onStopSelect={setSelectedStopId} lang={lang} theme={theme} />
+             <RouteMap ref={mapRef} stops={stops} baseLocation={depotLocation} endLocation={endLocation} selectedStopId={selectedStopId} onStopSelect={setSelectedStopId} lang={lang} theme={theme} distanceUnit={distanceUnit} vehicles={vehicles} tiles={tileSettings} roadGeometry={roadGeometry}
+               onStopMove={handleMoveStop} onDepotMove={handleMoveDepot} onAddStopAt={handleAddStopAt} selectedStopIds={pickedStopIds} onSelectionChange={setPickedStopIds} canvasThreshold={canvasThreshold} />
+             {pickedStops.length > 0 && (
+                <div className="absolute top-4 left-4 z-20 flex flex-wrap items-center gap-2 bg-white/95 dark:bg-slate-800/95 backdrop-blur px-3 py-2.5 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl animate-in fade-in">
+                   <span className="text-[10px] font-black text-amber-600 dark:text-amber-400 uppercase tracking-widest px-1">{pickedStops.length} {t.selected}</span>
+                   <select value="" onChange={(e) => handleBulkPriority(e.target.value as DeliveryStop['priority'])} className="px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase text-slate-700 dark:text-slate-300 outline-none">
+                      <option value="" disabled>{t.set_priority}</option>
+                      <option value="low">{t.priority_low}</option>
+                      <option value="medium">{t.priority_medium}</option>
+                      <option value="high">{t.priority_high}</option>
+                   </select>
+                   {vehicles.length > 0 && (
+                     <select value="" onChange={(e) => handleBulkAssign(e.target.value === 'none' ? undefined : e.target.value)} className="px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase text-slate-700 dark:text-slate-300 outline-none">
+                        <option value="" disabled>{t.move_to_vehicle}</option>
+                        {vehicles.map(vehicle => <option key={vehicle.id} value={vehicle.id}>{vehicle.name}</option>)}
+                        <option value="none">{t.unassigned}</option>
+                     </select>
+                   )}
+                   <button onClick={handleBulkRemove} className="px-3 py-2 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 rounded-xl text-[10px] font-black uppercase active:scale-95">{t.delete}</button>
+                   <button onClick={() => setPickedStopIds([])} className="p-1.5 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200" title={t.clear_selection}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                </div>
+             )}
              {isOptimizing && !aiSummary && (
                 <div className="absolute inset-0 bg-white/40 dark:bg-slate-950/40 backdrop-blur-[2px] flex items-center justify-center z-50">
                    <div className="bg-slate-900 dark:bg-slate-800 text-white px-8 py-5 rounded-[2rem] shadow-2xl flex items-center gap-5 border border-slate-700 dark:border-slate-600 animate-in fade-in zoom-in">
@@ -540,10 +1766,11 @@ const App: React.FC = () => {
                 </div>
              )}
           </div>
+          )}
 
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 lg:gap-8">
              {[
-               {label: t.total_dist, value: `${routeStats.distance.toFixed(1)} km`, icon: "M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7", color: "blue"},
+               {label: t.total_dist, value: formatDistance(routeStats.distance, distanceUnit), icon: "M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7", color: "blue"},
                {label: t.total_dur, value: routeStats.duration, icon: "M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z", color: "indigo"},
                {label: t.manifest_stops, value: `${stops.length} ${t.targets}`, icon: "M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z", color: "emerald"}
              ].map((stat, i) => (
@@ -559,6 +1786,20 @@ const App: React.FC = () => {
              ))}
           </div>
 
+          {vehicleStats.length > 0 && (
+            <div className="flex flex-wrap gap-3">
+              {vehicleStats.map(stat => (
+                <div key={stat.vehicle.id} className="bg-white dark:bg-slate-900 rounded-2xl px-5 py-3 border border-slate-200 dark:border-slate-800 shadow-sm flex items-center gap-3">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: stat.vehicle.color }} />
+                  <span className="text-xs font-black text-slate-800 dark:text-slate-100">{stat.vehicle.name}</span>
+                  <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                    {stat.stopCount} {t.targets} • {formatDistance(stat.distance, distanceUnit)} • {Math.floor(stat.durationMinutes / 60)}h {Math.round(stat.durationMinutes % 60)}m • {t.vehicle_load} {stat.load}/{stat.vehicle.capacity}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {aiSummary && (
             <div className="bg-slate-900 dark:bg-slate-800 text-white p-8 rounded-[2.5rem] shadow-2xl flex flex-col sm:flex-row gap-6 items-center border border-slate-800 dark:border-slate-700 animate-in slide-in-from-bottom-8 duration-700">
               <div className="bg-blue-600 dark:bg-blue-500 p-5 rounded-3xl border-4 border-slate-800 dark:border-slate-700 shadow-2xl flex-shrink-0">
@@ -574,26 +1815,55 @@ const App: React.FC = () => {
         </main>
       </div>
 
-      {/* Save Route Modal */}
+      {isSettingsOpen && (
+        <SettingsModal lang={lang} geocoderSettings={geocoderSettings} onGeocoderSettingsChange={setGeocoderSettings} onBackup={handleBackup} onRestore={handleRestore} session={session} syncSettings={syncSettings} onSyncSettingsChange={setSyncSettings} syncStatus={syncStatus} syncPending={syncPending} tileSettings={tileSettings} onTileSettingsChange={setTileSettings} routingSettings={routingSettings} onRoutingSettingsChange={setRoutingSettings} canvasThreshold={canvasThreshold} onCanvasThresholdChange={setCanvasThreshold} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {isCustomerModalOpen && (
+        <CustomerModal
+          lang={lang}
+          customer={editingCustomer}
+          geocoder={geocoder}
+          minConfidence={geocoderSettings.minConfidence}
+          onSave={handleSaveCustomer}
+          onClose={() => { setIsCustomerModalOpen(false); setEditingCustomer(null); }}
+        />
+      )}
+
+      {proofModal}
+
+      {isBulkOpen && (
+        <BulkImportModal
+          lang={lang}
+          geocoder={geocoder}
+          provider={geocoderSettings.provider}
+          minConfidence={geocoderSettings.minConfidence}
+          existingStops={stops}
+          defaultPriority={priority}
+          onImport={handleBulkImport}
+          onClose={() => setIsBulkOpen(false)}
+        />
+      )}
+
+      {editingStopId && stops.some(stop => stop.id === editingStopId) && (
+        <StopModal
+          lang={lang}
+          stop={stops.find(stop => stop.id === editingStopId)!}
+          onSave={handleSaveStop}
+          onClose={() => setEditingStopId(null)}
+        />
+      )}
+
       {isSaveModalOpen && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
-          <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-300 border dark:border-slate-800">
-            <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
-              <h3 className="text-xl font-black uppercase tracking-tight">{t.save_route_title}</h3>
-              <button onClick={() => setIsSaveModalOpen(false)} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
-            </div>
-            <div className="p-8 space-y-6">
-              <div>
-                <label className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3">{t.route_name_label}</label>
-                <input autoFocus value={newRouteName} onChange={(e) => setNewRouteName(e.target.value)} placeholder={t.route_name_placeholder} className="w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-base focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100" />
-              </div>
-              <div className="flex gap-4">
-                <button onClick={() => setIsSaveModalOpen(false)} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.cancel}</button>
-                <button onClick={handleSaveCurrentRoute} disabled={!newRouteName.trim()} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 dark:hover:bg-blue-600 active:scale-95 transition-all disabled:opacity-50">{t.save_confirm}</button>
-              </div>
-            </div>
-          </div>
-        </div>
+        <RouteTemplateModal
+          lang={lang}
+          route={editingRoute}
+          manifestStopCount={stops.length}
+          today={today}
+          onSave={handleSaveTemplate}
+          onRestoreVersion={restoreTemplateVersion}
+          onClose={closeTemplateModal}
+        />
       )}
     </div>
   );
@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { RouteRun } from '../types';
+import { Language, translations, locales } from '../translations';
+import { DistanceUnit, convertDistance, formatDistance } from '../utils/distance';
+import { summarizeRun } from '../utils/execution';
+import { distancePerDay, onTimeByPriority, serviceTimeByCustomer, stopsPerHour } from '../utils/analytics';
+
+interface AnalyticsDashboardProps {
+  /** Finished runs, already filtered. */
+  runs: RouteRun[];
+  lang: Language;
+  theme: 'light' | 'dark';
+  distanceUnit: DistanceUnit;
+}
+
+interface BarSeries {
+  label: string;
+  color: string;
+}
+
+interface BarChartProps {
+  labels: string[];
+  series: BarSeries[];
+  /** One row per label, one value per series. */
+  values: number[][];
+  format: (value: number) => string;
+  theme: 'light' | 'dark';
+  maxValue?: number;
+}
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 200;
+const MARGIN = { top: 12, right: 8, bottom: 28, left: 40 };
+const MAX_CUSTOMERS = 8;
+
+const formatWhole = (value: number) => `${Math.round(value)}`;
+const formatPercent = (value: number) => `${Math.round(value)}%`;
+
+// Grouped bars scaled into a fixed viewBox, so the chart resizes with its card without redrawing.
+const BarChart: React.FC<BarChartProps> = ({ labels, series, values, format, theme, maxValue }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    const svg = d3.select(svgRef.current!);
+    svg.selectAll("*").remove();
+    const axisColor = theme === 'dark' ? '#64748b' : '#94a3b8';
+    const x = d3.scaleBand<number>()
+      .domain(d3.range(labels.length))
+      .range([MARGIN.left, CHART_WIDTH - MARGIN.right])
+      .padding(0.2);
+    const inner = d3.scaleBand<number>()
+      .domain(d3.range(series.length))
+      .range([0, x.bandwidth()])
+      .padding(0.1);
+    const y = d3.scaleLinear()
+      .domain([0, maxValue ?? Math.max(1, d3.max(values.flat()) ?? 0)])
+      .nice()
+      .range([CHART_HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+    const yAxis = svg.append("g")
+      .attr("transform", `translate(${MARGIN.left},0)`)
+      .call(d3.axisLeft(y).ticks(4).tickSize(-(CHART_WIDTH - MARGIN.left - MARGIN.right)).tickFormat(value => format(Number(value))));
+    yAxis.select(".domain").remove();
+    yAxis.selectAll("line").attr("stroke", theme === 'dark' ? '#1e293b' : '#f1f5f9');
+    yAxis.selectAll("text").attr("fill", axisColor).attr("font-size", 9).attr("font-weight", 700);
+
+    // Long axes only label every few bars.
+    const every = Math.ceil(labels.length / 12);
+    svg.append("g")
+      .selectAll("text")
+      .data(labels)
+      .join("text")
+      .attr("x", (_, i) => x(i)! + x.bandwidth() / 2)
+      .attr("y", CHART_HEIGHT - MARGIN.bottom + 14)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 9)
+      .attr("font-weight", 700)
+      .attr("fill", axisColor)
+      .text((label, i) => i % every === 0 ? label : '');
+
+    svg.append("g")
+      .selectAll("g")
+      .data(values)
+      .join("g")
+      .attr("transform", (_, i) => `translate(${x(i)},0)`)
+      .selectAll("rect")
+      .data((row, i) => row.map((value, s) => ({ value, s, label: labels[i] })))
+      .join("rect")
+      .attr("x", d => inner(d.s)!)
+      .attr("width", inner.bandwidth())
+      .attr("y", y(0))
+      .attr("height", 0)
+      .attr("rx", 3)
+      .attr("fill", d => series[d.s].color)
+      .call(rect => rect.append("title").text(d => `${d.label} • ${series[d.s].label}: ${format(d.value)}`))
+      .transition()
+      .duration(500)
+      .attr("y", d => y(d.value))
+      .attr("height", d => y(0) - y(d.value));
+  }, [labels, series, values, format, theme, maxValue]);
+
+  return <svg ref={svgRef} viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" />;
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ runs, lang, theme, distanceUnit }) => {
+  const t = translations[lang];
+  const locale = locales[lang];
+
+  const summary = useMemo(() => summarizeRun(runs.flatMap(run => run.stops)), [runs]);
+  const planned = runs.reduce((sum, run) => sum + (run.plannedDistance ?? 0), 0);
+  const driven = runs.reduce((sum, run) => sum + (run.actualDistance ?? 0), 0);
+  const onTime = onTimeByPriority(runs).reduce((sum, entry) => ({ onTime: sum.onTime + entry.onTime, total: sum.total + entry.total }), { onTime: 0, total: 0 });
+
+  const charts = useMemo(() => {
+    const days = distancePerDay(runs);
+    const hours = stopsPerHour(runs);
+    // Trim the day to the hours that saw any work.
+    const busy = hours.flatMap((count, hour) => count > 0 ? [hour] : []);
+    const firstHour = busy[0] ?? 0;
+    const lastHour = busy[busy.length - 1] ?? -1;
+    const priorities = onTimeByPriority(runs);
+    const customers = serviceTimeByCustomer(runs).slice(0, MAX_CUSTOMERS);
+    return {
+      distance: {
+        labels: days.map(day => new Date(`${day.day}T12:00:00`).toLocaleDateString(locale, { month: 'short', day: 'numeric' })),
+        values: days.map(day => [convertDistance(day.planned, distanceUnit), convertDistance(day.actual, distanceUnit)])
+      },
+      hours: {
+        labels: d3.range(firstHour, lastHour + 1).map(String),
+        values: hours.slice(firstHour, lastHour + 1).map(count => [count])
+      },
+      onTime: {
+        labels: priorities.map(entry => t[`priority_${entry.priority}`]),
+        values: priorities.map(entry => [entry.total > 0 ? entry.onTime / entry.total * 100 : 0])
+      },
+      service: {
+        labels: customers.map(entry => entry.customerName.length > 10 ? `${entry.customerName.slice(0, 9)}…` : entry.customerName),
+        values: customers.map(entry => [entry.averageMinutes])
+      }
+    };
+  }, [runs, distanceUnit, lang]);
+
+  const distanceSeries = useMemo<BarSeries[]>(() => [
+    { label: t.planned, color: theme === 'dark' ? '#475569' : '#cbd5e1' },
+    { label: t.actual, color: '#3b82f6' }
+  ], [lang, theme]);
+  const hourSeries = useMemo<BarSeries[]>(() => [{ label: t.stops_completed, color: '#6366f1' }], [lang]);
+  const onTimeSeries = useMemo<BarSeries[]>(() => [{ label: t.on_time_rate, color: '#10b981' }], [lang]);
+  const serviceSeries = useMemo<BarSeries[]>(() => [{ label: t.avg_service_time, color: '#f59e0b' }], [lang]);
+
+  const formatMinutes = useCallback((value: number) => `${Math.round(value)} ${t.minutes_short}`, [lang]);
+
+  if (runs.length === 0) {
+    return <div className="h-full flex items-center justify-center text-center opacity-30 italic text-xs font-bold uppercase tracking-widest dark:text-slate-400">{t.no_runs}</div>;
+  }
+
+  const kpis = [
+    { label: t.archived_runs, value: String(runs.length) },
+    { label: t.stops_completed, value: `${summary.counts.delivered + summary.counts.failed}/${summary.total}` },
+    { label: `${t.planned} / ${t.actual}`, value: `${formatDistance(planned, distanceUnit, 0)} / ${formatDistance(driven, distanceUnit, 0)}` },
+    { label: t.on_time_rate, value: onTime.total > 0 ? formatPercent(onTime.onTime / onTime.total * 100) : '—' },
+    { label: t.avg_delay, value: summary.averageDelayMinutes !== null ? `${summary.averageDelayMinutes > 0 ? '+' : ''}${Math.round(summary.averageDelayMinutes)} ${t.minutes_short}` : '—' }
+  ];
+
+  const cards = [
+    { title: `${t.distance_per_day} (${distanceUnit})`, legend: distanceSeries, chart: <BarChart labels={charts.distance.labels} values={charts.distance.values} series={distanceSeries} format={formatWhole} theme={theme} /> },
+    { title: t.stops_per_hour, chart: <BarChart labels={charts.hours.labels} values={charts.hours.values} series={hourSeries} format={formatWhole} theme={theme} /> },
+    { title: t.on_time_by_priority, chart: <BarChart labels={charts.onTime.labels} values={charts.onTime.values} series={onTimeSeries} format={formatPercent} theme={theme} maxValue={100} /> },
+    { title: t.service_time_by_customer, chart: <BarChart labels={charts.service.labels} values={charts.service.values} series={serviceSeries} format={formatMinutes} theme={theme} /> }
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto custom-scrollbar p-6 lg:p-8 space-y-6">
+      <div className="grid grid-cols-2 xl:grid-cols-5 gap-4">
+        {kpis.map(kpi => (
+          <div key={kpi.label} className="p-4 bg-slate-50 dark:bg-slate-950 rounded-2xl border border-slate-100 dark:border-slate-800">
+            <p className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest mb-1">{kpi.label}</p>
+            <p className="text-lg font-black text-slate-900 dark:text-slate-100">{kpi.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {cards.map(card => (
+          <div key={card.title} className="p-5 bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-[10px] font-black text-slate-500 dark:text-slate-400 uppercase tracking-widest">{card.title}</h4>
+              {card.legend && (
+                <div className="flex items-center gap-3">
+                  {card.legend.map(series => (
+                    <span key={series.label} className="flex items-center gap-1.5 text-[9px] font-black text-slate-500 dark:text-slate-400 uppercase">
+                      <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: series.color }} />{series.label}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            {card.chart}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
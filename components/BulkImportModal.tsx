@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { DeliveryStop, GeocodingResult } from '../types';
+import { Language, translations } from '../translations';
+import { bulkParseAddresses } from '../services/geminiService';
+import { Geocoder, GeocoderProvider } from '../services/geocoding';
+import {
+  ImportDraft, ImportField, ColumnMapping, DraftStatus, IMPORT_FIELDS,
+  readSpreadsheet, guessColumnMapping, rowsToDrafts, markDuplicates, draftToStop
+} from '../utils/manifestImport';
+
+interface BulkImportModalProps {
+  lang: Language;
+  geocoder: Geocoder;
+  provider: GeocoderProvider;
+  minConfidence: number;
+  existingStops: DeliveryStop[];
+  defaultPriority: DeliveryStop['priority'];
+  onImport: (stops: DeliveryStop[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'input' | 'mapping' | 'review';
+
+const cellInputClass = "w-full px-2 py-1.5 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg text-[11px] font-semibold text-slate-800 dark:text-slate-200 outline-none focus:border-blue-500";
+
+const statusClass: Record<DraftStatus, string> = {
+  pending: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  ok: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400',
+  low_confidence: 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400',
+  not_found: 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400',
+  duplicate: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  error: 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400'
+};
+
+const BulkImportModal: React.FC<BulkImportModalProps> = ({ lang, geocoder, provider, minConfidence, existingStops, defaultPriority, onImport, onClose }) => {
+  const t = translations[lang];
+  const [step, setStep] = useState<Step>('input');
+  const [mode, setMode] = useState<'text' | 'file'>('text');
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [drafts, setDrafts] = useState<ImportDraft[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const statusLabel: Record<DraftStatus, string> = {
+    pending: t.bulk_status_pending,
+    ok: t.bulk_status_ok,
+    low_confidence: t.bulk_status_low,
+    not_found: t.bulk_status_not_found,
+    duplicate: t.bulk_status_duplicate,
+    error: t.bulk_status_error
+  };
+
+  const fromResult = (draft: ImportDraft, result?: GeocodingResult): ImportDraft => {
+    if (!result) return { ...draft, coords: undefined, confidence: undefined, status: 'not_found', include: false };
+    const confident = result.confidence >= minConfidence;
+    return {
+      ...draft,
+      customerName: draft.customerName || result.customerName || t.unknown_customer,
+      address: draft.address || result.address,
+      coords: result.coords,
+      confidence: result.confidence,
+      status: confident ? 'ok' : 'low_confidence',
+      include: confident
+    };
+  };
+
+  const locate = async (draft: ImportDraft): Promise<ImportDraft> => {
+    try {
+      const [best] = await geocoder.geocode([draft.customerName, draft.address].filter(Boolean).join(', '));
+      return fromResult(draft, best);
+    } catch (e) {
+      return { ...draft, status: 'error', include: false };
+    }
+  };
+
+  // Geocodes one row at a time so self-hosted or rate-limited endpoints are not flooded.
+  const locateAll = async (pending: ImportDraft[]) => {
+    const located: ImportDraft[] = [];
+    for (const draft of pending) {
+      located.push(draft.status === 'pending' ? await locate(draft) : draft);
+      setDrafts([...located, ...pending.slice(located.length)]);
+    }
+    setDrafts(markDuplicates(located, existingStops));
+  };
+
+  const handleParseText = async () => {
+    if (!text.trim()) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      let parsed: ImportDraft[];
+      if (provider === 'gemini') {
+        const results = await bulkParseAddresses(text);
+        parsed = results.map(result => fromResult({
+          key: crypto.randomUUID(), customerName: result.customerName ?? '', address: result.address,
+          priority: defaultPriority, status: 'pending', include: true
+        }, result));
+        setDrafts(markDuplicates(parsed, existingStops));
+        setStep('review');
+      } else {
+        parsed = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => ({
+          key: crypto.randomUUID(), customerName: '', address: line, priority: defaultPriority, status: 'pending' as DraftStatus, include: true
+        }));
+        setDrafts(parsed);
+        setStep('review');
+        await locateAll(parsed);
+      }
+      if (parsed.length === 0) setError(t.bulk_nothing_found);
+    } catch (e) {
+      setError(t.geocode_failed);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (sheet.length === 0) {
+        setError(t.bulk_nothing_found);
+        return;
+      }
+      setRows(sheet);
+      setMapping(guessColumnMapping(sheet[0]));
+      setStep('mapping');
+    } catch (e) {
+      console.error(e);
+      setError(t.bulk_file_unreadable);
+    }
+  };
+
+  const handleApplyMapping = async () => {
+    if (!mapping) return;
+    const parsed = rowsToDrafts(hasHeader ? rows.slice(1) : rows, mapping, defaultPriority);
+    setDrafts(parsed);
+    setStep('review');
+    setIsWorking(true);
+    await locateAll(parsed);
+    setIsWorking(false);
+  };
+
+  const updateDraft = (key: string, changes: Partial<ImportDraft>) => {
+    setDrafts(prev => prev.map(d => d.key === key ? { ...d, ...changes } : d));
+  };
+
+  const relocateDraft = async (draft: ImportDraft) => {
+    updateDraft(draft.key, { status: 'pending' });
+    const located = await locate({ ...draft, coords: undefined });
+    setDrafts(prev => prev.map(d => d.key === draft.key ? located : d));
+  };
+
+  const importable = drafts.filter(d => d.include && d.coords);
+
+  const handleImport = () => {
+    if (importable.length === 0) return;
+    onImport(importable.map(draftToStop));
+  };
+
+  const header = rows[0] ?? [];
+  const fieldLabel = (field: ImportField) => t[`field_${field}` as keyof typeof t];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-black uppercase tracking-tight">{t.bulk_title}</h3>
+            <p className="text-slate-400 text-xs font-medium mt-1">{step === 'review' ? t.bulk_review_desc : t.bulk_desc}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto custom-scrollbar flex-1">
+          {step === 'input' && (
+            <>
+              <div className="flex bg-slate-50 dark:bg-slate-950 p-1 rounded-2xl border border-slate-100 dark:border-slate-800">
+                <button onClick={() => setMode('text')} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${mode === 'text' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400'}`}>{t.bulk_paste_tab}</button>
+                <button onClick={() => setMode('file')} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${mode === 'file' ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400'}`}>{t.bulk_file_tab}</button>
+              </div>
+              {mode === 'text' ? (
+                <>
+                  {provider === 'gemini' && <p className="text-[11px] font-bold text-blue-600 dark:text-blue-400">{t.bulk_ai_info}</p>}
+                  <textarea autoFocus value={text} onChange={(e) => setText(e.target.value)} placeholder={t.bulk_placeholder} rows={10} className="w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100 font-mono" />
+                  <button onClick={handleParseText} disabled={isWorking || !text.trim()} className="w-full py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 active:scale-95 transition-all disabled:opacity-50">{isWorking ? '...' : t.import_addresses}</button>
+                </>
+              ) : (
+                <label className="block py-16 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-[2rem] text-center cursor-pointer hover:border-blue-400 transition-colors">
+                  <span className="block text-sm font-black text-slate-700 dark:text-slate-200 uppercase tracking-widest">{t.bulk_file_pick}</span>
+                  <span className="block text-[11px] text-slate-400 mt-2">{t.bulk_file_hint}</span>
+                  <input type="file" accept=".csv,.tsv,.txt,.xlsx,.xls,.ods" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }} />
+                </label>
+              )}
+            </>
+          )}
+
+          {step === 'mapping' && mapping && (
+            <>
+              <label className="flex items-center gap-3 text-[11px] font-bold text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-blue-600" />
+                {t.bulk_has_header}
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <label key={field} className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                    {fieldLabel(field)}
+                    <select value={mapping[field]} onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })} className="mt-1 w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none normal-case">
+                      <option value={-1}>{t.bulk_column_ignore}</option>
+                      {header.map((col, i) => <option key={i} value={i}>{hasHeader ? col || `#${i + 1}` : `#${i + 1} (${col})`}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-400">{rows.length - (hasHeader ? 1 : 0)} {t.bulk_rows}</p>
+            </>
+          )}
+
+          {step === 'review' && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-separate border-spacing-y-1.5">
+                <thead>
+                  <tr className="text-[10px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                    <th className="px-2"></th>
+                    <th className="px-2">{t.field_customerName}</th>
+                    <th className="px-2">{t.field_address}</th>
+                    <th className="px-2">{t.field_priority}</th>
+                    <th className="px-2"></th>
+                    <th className="px-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drafts.map(draft => (
+                    <tr key={draft.key} className={draft.include ? '' : 'opacity-50'}>
+                      <td className="px-2"><input type="checkbox" checked={draft.include} disabled={!draft.coords} onChange={(e) => updateDraft(draft.key, { include: e.target.checked })} className="accent-blue-600" /></td>
+                      <td className="px-2 min-w-[140px]"><input value={draft.customerName} onChange={(e) => updateDraft(draft.key, { customerName: e.target.value })} className={cellInputClass} /></td>
+                      <td className="px-2 min-w-[220px]"><input value={draft.address} onChange={(e) => updateDraft(draft.key, { address: e.target.value })} className={cellInputClass} /></td>
+                      <td className="px-2">
+                        <select value={draft.priority} onChange={(e) => updateDraft(draft.key, { priority: e.target.value as DeliveryStop['priority'] })} className={cellInputClass}>
+                          <option value="low">{t.priority_low}</option>
+                          <option value="medium">{t.priority_medium}</option>
+                          <option value="high">{t.priority_high}</option>
+                        </select>
+                      </td>
+                      <td className="px-2 whitespace-nowrap">
+                        <span className={`text-[9px] font-black uppercase tracking-tighter px-2 py-1 rounded-md ${statusClass[draft.status]}`}>
+                          {statusLabel[draft.status]}{draft.confidence !== undefined && draft.status !== 'duplicate' ? ` ${Math.round(draft.confidence * 100)}%` : ''}
+                        </span>
+                      </td>
+                      <td className="px-2 whitespace-nowrap text-right">
+                        <button onClick={() => relocateDraft(draft)} disabled={draft.status === 'pending'} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase mr-3 active:scale-95 disabled:opacity-30">{t.bulk_locate}</button>
+                        <button onClick={() => setDrafts(prev => prev.filter(d => d.key !== draft.key))} className="text-slate-300 dark:text-slate-600 hover:text-red-500 align-middle"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {error && <p className="text-[11px] font-bold text-red-500">{error}</p>}
+        </div>
+
+        {step !== 'input' && (
+          <div className="p-6 border-t border-slate-100 dark:border-slate-800 flex gap-4 flex-shrink-0">
+            <button onClick={() => { setStep('input'); setDrafts([]); setError(null); }} disabled={isWorking} className="px-8 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all disabled:opacity-50">{t.bulk_back}</button>
+            {step === 'mapping' ? (
+              <button onClick={handleApplyMapping} disabled={!mapping || (mapping.address < 0 && (mapping.lat < 0 || mapping.lng < 0))} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 active:scale-95 transition-all disabled:opacity-50">{t.bulk_continue}</button>
+            ) : (
+              <button onClick={handleImport} disabled={isWorking || importable.length === 0} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 active:scale-95 transition-all disabled:opacity-50">
+                {isWorking ? '...' : `${t.bulk_add_selected} (${importable.length})`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkImportModal;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Customer, DeliveryStop } from '../types';
+import { Language, translations } from '../translations';
+import { Geocoder } from '../services/geocoding';
+
+interface CustomerModalProps {
+  lang: Language;
+  /** Record to edit; `null` creates a new customer. */
+  customer: Customer | null;
+  geocoder: Geocoder;
+  minConfidence: number;
+  onSave: (customer: Customer) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100";
+const labelClass = "text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3";
+
+const CustomerModal: React.FC<CustomerModalProps> = ({ lang, customer, geocoder, minConfidence, onSave, onClose }) => {
+  const t = translations[lang];
+  const [name, setName] = useState(customer?.name ?? '');
+  const [address, setAddress] = useState(customer?.address ?? '');
+  const [phone, setPhone] = useState(customer?.phone ?? '');
+  const [priority, setPriority] = useState<DeliveryStop['priority']>(customer?.priority ?? 'medium');
+  const [earliest, setEarliest] = useState(customer?.timeWindow?.earliest ?? '');
+  const [latest, setLatest] = useState(customer?.timeWindow?.latest ?? '');
+  const [notes, setNotes] = useState(customer?.notes ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !address.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      let coords = customer?.coords;
+      let resolvedAddress = address.trim();
+      // Only re-geocode when the address was actually changed.
+      if (!customer || customer.address !== resolvedAddress) {
+        const [match] = await geocoder.geocode(resolvedAddress);
+        if (!match) {
+          setError(t.geocode_not_found);
+          return;
+        }
+        if (match.confidence < minConfidence
+          && !confirm(`${t.geocode_low_confidence} (${Math.round(match.confidence * 100)}%):\n${match.address}\n\n${t.save}?`)) {
+          return;
+        }
+        coords = match.coords;
+        resolvedAddress = match.address;
+      }
+      onSave({
+        id: customer?.id ?? crypto.randomUUID(),
+        name: name.trim(),
+        address: resolvedAddress,
+        coords: coords!,
+        priority,
+        phone: phone.trim() || undefined,
+        notes: notes.trim() || undefined,
+        timeWindow: earliest || latest ? { earliest: earliest || undefined, latest: latest || undefined } : undefined
+      });
+    } catch (err) {
+      console.error(err);
+      setError(t.geocode_failed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
+          <h3 className="text-xl font-black uppercase tracking-tight">{customer ? t.edit_customer : t.new_customer}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-8 space-y-6">
+          <div>
+            <label className={labelClass}>{t.field_customerName}</label>
+            <input autoFocus value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t.field_address}</label>
+            <input value={address} onChange={(e) => { setAddress(e.target.value); setError(null); }} className={inputClass} />
+            {error && <p className="mt-3 text-[11px] font-bold text-red-500">{error}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t.phone}</label>
+              <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t.default_priority}</label>
+              <select value={priority} onChange={(e) => setPriority(e.target.value as DeliveryStop['priority'])} className={inputClass}>
+                <option value="low">{t.priority_low}</option>
+                <option value="medium">{t.priority_medium}</option>
+                <option value="high">{t.priority_high}</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t.time_window}</label>
+            <div className="flex items-center gap-3">
+              <input type="time" value={earliest} onChange={(e) => setEarliest(e.target.value)} title={t.window_from} className={inputClass} />
+              <span className="text-slate-400">–</span>
+              <input type="time" value={latest} onChange={(e) => setLatest(e.target.value)} title={t.window_to} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t.notes}</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={`${inputClass} resize-none`} />
+          </div>
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.cancel}</button>
+            <button type="submit" disabled={isSaving || !name.trim() || !address.trim()} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 dark:hover:bg-blue-600 active:scale-95 transition-all disabled:opacity-50">{isSaving ? '...' : t.save}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerModal;
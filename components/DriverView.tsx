@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DeliveryStop, Coordinate, Customer, Vehicle, StopStatus } from '../types';
+import { Language, translations, locales } from '../translations';
+import { AuthUser } from '../services/auth';
+import { SyncStatus } from '../services/syncClient';
+import { DistanceUnit } from '../utils/distance';
+import { formatEta } from '../utils/eta';
+import { findCustomerForStop } from '../utils/customers';
+import { stopStatus, isStopOpen, summarizeRun, FAILURE_REASONS } from '../utils/execution';
+import { directionsUrl, isAppleMobile } from '../utils/navigation';
+import { TileSettings } from '../utils/tiles';
+import { formatCod, formatPackages } from '../utils/stopDetails';
+import RouteMap from './RouteMap';
+
+interface DriverViewProps {
+  lang: Language;
+  onLangChange: (lang: Language) => void;
+  theme: 'light' | 'dark';
+  distanceUnit: DistanceUnit;
+  user: AuthUser;
+  stops: DeliveryStop[];
+  vehicles: Vehicle[];
+  customers: Customer[];
+  depot: Coordinate;
+  /** Where the route finishes after the last stop, if anywhere. */
+  routeEnd?: Coordinate;
+  isRunActive: boolean;
+  isLocating: boolean;
+  syncStatus: SyncStatus | null;
+  tiles: TileSettings;
+  roadGeometry?: (start: Coordinate, end: Coordinate) => Coordinate[] | undefined;
+  onStartRun: () => void;
+  onMarkStop: (stopId: string, status: StopStatus, reason?: string) => void;
+  onDeliver: (stopId: string) => void;
+  onReplan: () => void;
+  onFinishRun: () => void;
+  /** Only offered to accounts that can also dispatch. */
+  onSwitchToDispatch?: () => void;
+  onLogout: () => void;
+}
+
+const LANGUAGES: Language[] = ['en', 'es', 'de'];
+
+const statusDot: Record<StopStatus, string> = {
+  pending: 'bg-slate-300 dark:bg-slate-600',
+  arrived: 'bg-blue-500',
+  delivered: 'bg-emerald-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-amber-500'
+};
+
+const DriverView: React.FC<DriverViewProps> = ({
+  lang, onLangChange, theme, distanceUnit, user, stops, vehicles, customers, depot, routeEnd, isRunActive, isLocating, syncStatus, tiles, roadGeometry,
+  onStartRun, onMarkStop, onDeliver, onReplan, onFinishRun, onSwitchToDispatch, onLogout
+}) => {
+  const t = translations[lang];
+  const [mode, setMode] = useState<'list' | 'map'>('list');
+  const [selectedStopId, setSelectedStopId] = useState<string | null>(null);
+  const [isFailing, setIsFailing] = useState(false);
+  const [failureReason, setFailureReason] = useState<string>(FAILURE_REASONS[0]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const ios = useMemo(isAppleMobile, []);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Vehicles assigned to this account; without any assignment the whole manifest is theirs.
+  const assignedStops = useMemo(() => {
+    const vehicleIds = new Set(vehicles.filter(v => v.driverId === user.id).map(v => v.id));
+    return vehicleIds.size > 0 ? stops.filter(stop => stop.vehicleId && vehicleIds.has(stop.vehicleId)) : stops;
+  }, [stops, vehicles, user.id]);
+
+  const assignedVehicles = useMemo(() => vehicles.filter(v => assignedStops.some(stop => stop.vehicleId === v.id)), [vehicles, assignedStops]);
+  const summary = useMemo(() => summarizeRun(assignedStops), [assignedStops]);
+  const nextStop = assignedStops.find(stop => stopStatus(stop) === 'arrived') ?? assignedStops.find(isStopOpen);
+  const phone = nextStop ? nextStop.phone ?? findCustomerForStop(customers, nextStop)?.phone : undefined;
+  const doneCount = summary.total - summary.counts.pending - summary.counts.arrived;
+
+  useEffect(() => { setIsFailing(false); }, [nextStop?.id]);
+
+  const time = (iso?: string) => iso ? formatEta(iso, locales[lang]) : '';
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 pt-safe pb-safe">
+      <header className="flex items-center justify-between gap-3 px-5 py-4 bg-slate-900 text-white">
+        <div className="min-w-0">
+          <h1 className="text-lg font-black uppercase tracking-tight truncate">{t.driver_view}</h1>
+          <p className="text-[10px] font-bold text-blue-400/80 uppercase tracking-widest truncate">{user.name} • {doneCount}/{summary.total} {t.stops_done}</p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button onClick={() => onLangChange(LANGUAGES[(LANGUAGES.indexOf(lang) + 1) % LANGUAGES.length])} className="px-3 py-2 bg-white/10 rounded-xl text-[10px] font-black uppercase">{lang}</button>
+          {onSwitchToDispatch && <button onClick={onSwitchToDispatch} className="px-3 py-2 bg-white/10 rounded-xl text-[10px] font-black uppercase">{t.dispatch_view}</button>}
+          <button onClick={onLogout} title={t.logout} className="p-2 bg-white/10 rounded-xl"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 16l4-4m0 0l-4-4m4 4H7" /></svg></button>
+        </div>
+      </header>
+
+      {(!isOnline || syncStatus === 'offline') && (
+        <div className="px-5 py-2 bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest text-center">{t.offline_mode}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {assignedStops.length === 0 ? (
+          <div className="text-center py-24 opacity-40 italic text-xs font-bold uppercase tracking-widest">{t.no_assigned_stops}</div>
+        ) : !isRunActive ? (
+          <button onClick={onStartRun} className="w-full h-16 bg-emerald-600 text-white rounded-[1.25rem] font-black uppercase tracking-[0.2em] text-sm shadow-xl active:scale-[0.97] transition-all">{t.start_now}</button>
+        ) : nextStop ? (
+          <div className="p-5 bg-white dark:bg-slate-900 border-2 border-blue-100 dark:border-blue-900/40 rounded-[1.75rem] shadow-sm space-y-4">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{t.next_stop} #{assignedStops.indexOf(nextStop) + 1}</p>
+                <h2 className="text-xl font-black mt-1 break-words">{nextStop.customerName}</h2>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 break-words">{nextStop.address}</p>
+              </div>
+              {nextStop.priority === 'high' && <span className="flex-shrink-0 text-[9px] font-black text-white bg-slate-900 dark:bg-slate-600 px-1.5 py-0.5 rounded uppercase tracking-tighter">{t.express}</span>}
+            </div>
+            <p className="text-[11px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter">
+              {[nextStop.eta && `${t.eta} ${time(nextStop.eta)}`, nextStop.timeWindow && `${t.time_window} ${nextStop.timeWindow.earliest || '…'}–${nextStop.timeWindow.latest || '…'}`].filter(Boolean).join(' • ')}
+            </p>
+            {!!(nextStop.accessInstructions || nextStop.packages?.length || nextStop.codAmount || nextStop.notes) && (
+              <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1.5 p-3 bg-slate-50 dark:bg-slate-950 rounded-xl text-xs">
+                {nextStop.accessInstructions && <><dt className="font-black text-slate-400 dark:text-slate-500 uppercase text-[10px] pt-0.5">{t.access_instructions}</dt><dd className="font-black break-words">{nextStop.accessInstructions}</dd></>}
+                {!!nextStop.packages?.length && <><dt className="font-black text-slate-400 dark:text-slate-500 uppercase text-[10px] pt-0.5">{t.packages}</dt><dd className="font-bold break-words">{formatPackages(nextStop.packages)}</dd></>}
+                {!!nextStop.codAmount && <><dt className="font-black text-amber-600 dark:text-amber-400 uppercase text-[10px] pt-0.5">{t.cod}</dt><dd className="font-black text-amber-600 dark:text-amber-400">{formatCod(nextStop.codAmount, locales[lang])}</dd></>}
+                {nextStop.notes && <><dt className="font-black text-slate-400 dark:text-slate-500 uppercase text-[10px] pt-0.5">{t.notes}</dt><dd className="font-medium break-words">{nextStop.notes}</dd></>}
+              </dl>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <a href={directionsUrl(nextStop.coords, { ios })} target="_blank" rel="noreferrer" className="py-4 bg-blue-600 text-white rounded-2xl font-black uppercase tracking-widest text-xs text-center active:scale-95 transition-all">{t.navigate}</a>
+              {phone ? (
+                <a href={`tel:${phone.replace(/[^\d+]/g, '')}`} className="py-4 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 rounded-2xl font-black uppercase tracking-widest text-xs text-center active:scale-95 transition-all">{t.call}</a>
+              ) : (
+                <span className="py-4 bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-600 rounded-2xl font-black uppercase tracking-widest text-xs text-center">{t.call}</span>
+              )}
+            </div>
+            {isFailing ? (
+              <div className="flex items-center gap-2">
+                <select value={failureReason} onChange={(e) => setFailureReason(e.target.value)} className="flex-1 min-w-0 px-3 py-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-700 dark:text-slate-300 outline-none">
+                  {FAILURE_REASONS.map(reason => <option key={reason} value={reason}>{t[`reason_${reason}`]}</option>)}
+                </select>
+                <button onClick={() => onMarkStop(nextStop.id, 'failed', failureReason)} className="px-4 py-3 bg-red-600 text-white text-xs font-black uppercase rounded-xl active:scale-95">{t.mark_failed}</button>
+                <button onClick={() => setIsFailing(false)} className="text-xs font-black text-slate-400 uppercase">{t.cancel}</button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {stopStatus(nextStop) === 'pending' && (
+                  <button onClick={() => onMarkStop(nextStop.id, 'arrived')} className="col-span-2 py-3 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 text-xs font-black uppercase rounded-xl active:scale-95">{t.mark_arrived}</button>
+                )}
+                <button onClick={() => onDeliver(nextStop.id)} className="col-span-2 py-4 bg-emerald-600 text-white text-sm font-black uppercase rounded-xl active:scale-95">{t.mark_delivered}</button>
+                <button onClick={() => { setIsFailing(true); setFailureReason(FAILURE_REASONS[0]); }} className="py-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-xs font-black uppercase rounded-xl active:scale-95">{t.mark_failed}</button>
+                <button onClick={() => onMarkStop(nextStop.id, 'skipped')} className="py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-xs font-black uppercase rounded-xl active:scale-95">{t.mark_skipped}</button>
+              </div>
+            )}
+            <button onClick={onReplan} disabled={isLocating} className="w-full text-[10px] font-black text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 uppercase tracking-widest">{isLocating ? '...' : t.replan_from_location}</button>
+          </div>
+        ) : (
+          <div className="p-6 bg-emerald-50 dark:bg-emerald-900/20 border-2 border-emerald-100 dark:border-emerald-900/40 rounded-[1.75rem] text-center space-y-4">
+            <p className="text-sm font-black text-emerald-700 dark:text-emerald-400 uppercase tracking-widest">{t.all_stops_done}</p>
+            <button onClick={onFinishRun} className="w-full py-4 bg-slate-900 dark:bg-slate-800 text-white text-xs font-black uppercase rounded-2xl active:scale-95">{t.finish_run}</button>
+          </div>
+        )}
+
+        {assignedStops.length > 0 && (
+          <>
+            <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-2xl">
+              {(['list', 'map'] as const).map(m => (
+                <button key={m} onClick={() => setMode(m)} className={`flex-1 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${mode === m ? 'bg-white dark:bg-slate-800 shadow-sm text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500'}`}>{m === 'list' ? t.list_view : t.map_view}</button>
+              ))}
+            </div>
+            {mode === 'map' ? (
+              <div className="h-[60vh] rounded-[1.75rem] overflow-hidden border border-slate-200 dark:border-slate-800">
+                <RouteMap stops={assignedStops} baseLocation={depot} endLocation={routeEnd} selectedStopId={selectedStopId ?? nextStop?.id} onStopSelect={setSelectedStopId} lang={lang} theme={theme} distanceUnit={distanceUnit} vehicles={assignedVehicles} tiles={tiles} roadGeometry={roadGeometry} />
+              </div>
+            ) : (
+              <ol className="space-y-2">
+                {assignedStops.map((stop, i) => {
+                  const status = stopStatus(stop);
+                  const finished = !isStopOpen(stop);
+                  return (
+                    <li key={stop.id} className={`flex items-center gap-3 p-4 rounded-2xl border-2 transition-colors ${stop.id === nextStop?.id ? 'bg-white dark:bg-slate-900 border-blue-200 dark:border-blue-800' : 'bg-white/60 dark:bg-slate-900/60 border-transparent'} ${finished ? 'opacity-50' : ''}`}>
+                      <span className="w-7 text-sm font-black text-slate-400 dark:text-slate-500">{i + 1}</span>
+                      <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${statusDot[status]}`} />
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-sm font-black truncate ${finished ? 'line-through' : ''}`}>{stop.customerName}</p>
+                        <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">{stop.address}</p>
+                      </div>
+                      <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-tighter flex-shrink-0">
+                        {finished ? `${t[`status_${status}`]} ${time(stop.execution?.completedAt)}` : time(stop.eta)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriverView;
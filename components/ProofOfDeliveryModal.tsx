@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { DeliveryStop, ProofOfDelivery, Coordinate } from '../types';
+import { Language, translations } from '../translations';
+import { createProof, readPhoto } from '../utils/proof';
+import SignaturePad from './SignaturePad';
+
+interface ProofOfDeliveryModalProps {
+  lang: Language;
+  stop: DeliveryStop;
+  onConfirm: (proof: ProofOfDelivery) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100";
+const labelClass = "text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3";
+
+const ProofOfDeliveryModal: React.FC<ProofOfDeliveryModalProps> = ({ lang, stop, onConfirm, onClose }) => {
+  const t = translations[lang];
+  const [recipientName, setRecipientName] = useState('');
+  const [note, setNote] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [location, setLocation] = useState<Coordinate | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Best effort: the proof is still valid without a position fix.
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      p => setLocation({ lat: p.coords.latitude, lng: p.coords.longitude }),
+      () => {},
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }, []);
+
+  const handlePhoto = async (file: File) => {
+    try {
+      setPhoto(await readPhoto(file));
+      setError(null);
+    } catch (e) {
+      setError(t.pod_photo_failed);
+    }
+  };
+
+  const canConfirm = recipientName.trim() !== '' && (signature !== null || photo !== null);
+
+  const handleConfirm = async () => {
+    if (!canConfirm) return;
+    setIsSaving(true);
+    try {
+      onConfirm(await createProof(stop.id, {
+        recipientName: recipientName.trim(),
+        note: note.trim() || undefined,
+        signature: signature ?? undefined,
+        photo: photo ?? undefined,
+        capturedAt: new Date().toISOString(),
+        location
+      }));
+    } catch (e) {
+      console.error(e);
+      setError(t.pod_save_failed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-xl font-black uppercase tracking-tight">{t.pod_title}</h3>
+            <p className="text-[11px] text-slate-400 truncate mt-1">{stop.customerName} • {stop.address}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-8 space-y-6">
+          <div>
+            <label className={labelClass}>{t.pod_recipient}</label>
+            <input autoFocus value={recipientName} onChange={(e) => setRecipientName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t.pod_signature}</label>
+            <SignaturePad onChange={setSignature} clearLabel={t.pod_clear} />
+          </div>
+          <div>
+            <label className={labelClass}>{t.pod_photo}</label>
+            {photo ? (
+              <div className="relative">
+                <img src={photo} alt="" className="w-full max-h-56 object-cover rounded-2xl" />
+                <button type="button" onClick={() => setPhoto(null)} className="absolute top-3 right-3 px-3 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black uppercase rounded-lg active:scale-95">{t.pod_clear}</button>
+              </div>
+            ) : (
+              <label className="block py-4 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] text-center cursor-pointer active:scale-95 transition-all">
+                {t.pod_take_photo}
+                <input type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handlePhoto(file); e.target.value = ''; }} />
+              </label>
+            )}
+          </div>
+          <div>
+            <label className={labelClass}>{t.notes}</label>
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} className={`${inputClass} resize-none`} />
+          </div>
+          {error && <p className="text-[11px] font-bold text-red-500">{error}</p>}
+          {!canConfirm && <p className="text-[11px] font-bold text-slate-400">{t.pod_requirements}</p>}
+          <div className="flex gap-4">
+            <button onClick={onClose} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.cancel}</button>
+            <button onClick={handleConfirm} disabled={!canConfirm || isSaving} className="flex-1 py-4 bg-emerald-600 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-emerald-700 active:scale-95 transition-all disabled:opacity-50">{isSaving ? '...' : t.pod_confirm}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProofOfDeliveryModal;
@@ -1,30 +1,175 @@
-
-import React, { useEffect, useRef } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { DeliveryStop, Coordinate, TrafficCondition } from '../types';
-import { Language, translations } from '../translations';
+import { DeliveryStop, Coordinate, TrafficCondition, Vehicle } from '../types';
+import { Language, translations, locales } from '../translations';
+import { calculateDistance, formatDistance, DistanceUnit } from '../utils/distance';
+import { groupByVehicle } from '../utils/fleet';
+import { formatEta } from '../utils/eta';
+import { DEFAULT_TILE_SETTINGS, MIN_TILE_ZOOM, TilePlacement, TileSettings, fitTransform, projectMercator, unprojectMercator, tileUrl, visibleTiles } from '../utils/tiles';
+import { stopDetailLabels, stopDetailLines } from '../utils/stopDetails';
+import { DEFAULT_CANVAS_THRESHOLD, LabelBox, LabelCandidate, StopCluster, clusterStops, placeLabels } from '../utils/mapLayout';
 
 interface RouteMapProps {
   stops: DeliveryStop[];
   baseLocation: Coordinate;
+  /** Where vehicles finish after their last stop; draws a closing leg to it. */
+  endLocation?: Coordinate;
   selectedStopId?: string | null;
   onStopSelect: (id: string) => void;
   lang: Language;
   theme: 'light' | 'dark';
+  distanceUnit: DistanceUnit;
+  vehicles?: Vehicle[];
+  tiles?: TileSettings;
+  /** Road polyline for a leg, when a routing service has provided one. */
+  roadGeometry?: (start: Coordinate, end: Coordinate) => Coordinate[] | undefined;
+  /** Makes stop markers draggable; called with the drop position. */
+  onStopMove?: (id: string, coords: Coordinate) => void;
+  /** Makes the depot marker draggable. */
+  onDepotMove?: (coords: Coordinate) => void;
+  /** Right-clicking empty map places a stop here. */
+  onAddStopAt?: (coords: Coordinate) => void;
+  /** Stops picked with the lasso; highlighted alongside the single selection. */
+  selectedStopIds?: string[];
+  /** Enables lasso selection: shift-drag, or plain drag while lasso mode is on. */
+  onSelectionChange?: (ids: string[]) => void;
+  /** Stop count above which legs and unselected markers are painted on a canvas. */
+  canvasThreshold?: number;
+}
+
+export interface RouteMapHandle {
+  /** Standalone SVG markup of the current map at full extent, for print and export. */
+  getSnapshot: () => string | null;
 }
 
-const RouteMap: React.FC<RouteMapProps> = ({ stops, baseLocation, selectedStopId, onStopSelect, lang, theme }) => {
+interface Segment {
+  start: Coordinate;
+  end: Coordinate;
+  traffic?: TrafficCondition;
+  targetId: string;
+  vehicleColor?: string;
+  geometry?: Coordinate[];
+  /** The leg from the last stop to the route's end point. */
+  closing?: boolean;
+}
+
+type Layer = d3.Selection<SVGGElement, unknown, null, undefined>;
+
+// Layers and behaviours that live as long as the component; `draw` only joins data into them.
+interface Scene {
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  tileLayer: Layer;
+  segmentLayer: Layer;
+  pillLayer: Layer;
+  depot: Layer;
+  finish: Layer;
+  clusterLayer: Layer;
+  stopLayer: Layer;
+  zoom: d3.ZoomBehavior<SVGSVGElement, unknown>;
+  stopDrag: d3.DragBehavior<SVGGElement, DeliveryStop, DeliveryStop | d3.SubjectPosition>;
+  /** Markers being dragged, keyed by the coordinate object they stand in for. */
+  moved: Map<Coordinate, Coordinate>;
+  project: (c: Coordinate) => [number, number];
+  settleIntro: () => void;
+}
+
+const NO_STOP_IDS: string[] = [];
+
+// Light tiles read as a glaring patch in dark mode; invert them but keep water blue.
+const DARK_TILE_FILTER = 'invert(1) hue-rotate(180deg) brightness(0.85) contrast(0.9)';
+
+// Screen-space grid for clustering; from this tile zoom on every stop is drawn on its own.
+const CLUSTER_CELL = 48;
+const CLUSTER_MAX_ZOOM = 17;
+const LINE_HEIGHT = 12;
+const PILL_HEIGHT = 20;
+
+const RouteMap = forwardRef<RouteMapHandle, RouteMapProps>(({ stops, baseLocation, endLocation, selectedStopId, onStopSelect, lang, theme, distanceUnit, vehicles = [], tiles = DEFAULT_TILE_SETTINGS, roadGeometry,
+  onStopMove, onDepotMove, onAddStopAt, selectedStopIds = NO_STOP_IDS, onSelectionChange, canvasThreshold = DEFAULT_CANVAS_THRESHOLD }, ref) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown>>(null);
+  const tileSvgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sceneRef = useRef<Scene | null>(null);
+  const transformRef = useRef(d3.zoomIdentity);
+  // The view survives re-renders and edits; showing a different manifest or resizing refits it.
+  const viewRef = useRef<{ size: string; ids: Set<string> } | null>(null);
+  const drawRef = useRef<() => void>(() => {});
+  const fitRef = useRef<(points?: Coordinate[]) => d3.ZoomTransform>(() => d3.zoomIdentity);
+  const [isLassoMode, setIsLassoMode] = useState(false);
   const t = translations[lang];
 
-  // Simple distance calculation helper
-  const calculateDist = (p1: Coordinate, p2: Coordinate): number => {
-    const dy = p1.lat - p2.lat;
-    const dx = p1.lng - p2.lng;
-    return Math.sqrt(dx * dx + dy * dy) * 111; // 111 km per degree approx
+  const useCanvas = stops.length > canvasThreshold;
+
+  // Read from event handlers, so fresh callbacks from the parent never force a redraw.
+  const latestRef = useRef({ stops, baseLocation, useCanvas, isLassoMode, onStopSelect, onStopMove, onDepotMove, onAddStopAt, onSelectionChange });
+  latestRef.current = { stops, baseLocation, useCanvas, isLassoMode, onStopSelect, onStopMove, onDepotMove, onAddStopAt, onSelectionChange };
+
+  const vehicleColor = (vehicleId?: string) => vehicles.find(v => v.id === vehicleId)?.color;
+
+  // Every vehicle leaves from the depot; without a fleet this is one chain.
+  const segments = useMemo<Segment[]>(() => groupByVehicle(stops).flatMap((group, g) => {
+    const vehicleColor = vehicles.find(v => v.id === group.vehicleId)?.color;
+    const legs: Segment[] = group.stops.map((stop, i) => {
+      const start = i === 0 ? baseLocation : group.stops[i - 1].coords;
+      return {
+        start,
+        end: stop.coords,
+        traffic: stop.trafficCondition,
+        targetId: stop.id,
+        vehicleColor,
+        geometry: roadGeometry?.(start, stop.coords)
+      };
+    });
+    if (endLocation) {
+      const start = group.stops[group.stops.length - 1].coords;
+      legs.push({ start, end: endLocation, targetId: `end:${g}`, vehicleColor, geometry: roadGeometry?.(start, endLocation), closing: true });
+    }
+    return legs;
+  }), [stops, baseLocation, endLocation, vehicles, roadGeometry]);
+
+  // Returning to the start depot needs no marker of its own.
+  const showFinish = !!endLocation && (endLocation.lat !== baseLocation.lat || endLocation.lng !== baseLocation.lng);
+
+  const stopNumbers = useMemo(() => new Map(stops.map((stop, i) => [stop.id, i + 1])), [stops]);
+
+  fitRef.current = (points = [baseLocation, ...(showFinish ? [endLocation!] : []), ...stops.map(s => s.coords)]) => {
+    const svgEl = svgRef.current!;
+    const { x, y, k } = fitTransform(points.map(projectMercator), svgEl.clientWidth, svgEl.clientHeight, 80, tiles.maxZoom);
+    return d3.zoomIdentity.translate(x, y).scale(k);
   };
 
+  useImperativeHandle(ref, () => ({
+    getSnapshot: () => {
+      const scene = sceneRef.current;
+      if (!svgRef.current || !scene) return null;
+      const current = transformRef.current;
+      scene.svg.interrupt().call(scene.zoom.transform, fitRef.current());
+      const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+      const tileClone = tileSvgRef.current?.querySelector('.map-tiles')?.cloneNode(true);
+      if (tileClone) clone.insertBefore(tileClone, clone.firstChild);
+      // Large manifests live on the canvas; carry them over as an image between tiles and markers.
+      if (canvasRef.current && canvasRef.current.style.display !== 'none') {
+        const image = document.createElementNS('http://www.w3.org/2000/svg', 'image');
+        image.setAttribute('href', canvasRef.current.toDataURL());
+        image.setAttribute('width', String(svgRef.current.clientWidth));
+        image.setAttribute('height', String(svgRef.current.clientHeight));
+        clone.insertBefore(image, tileClone ? tileClone.nextSibling : clone.firstChild);
+      }
+      scene.svg.call(scene.zoom.transform, current);
+      clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+      clone.setAttribute('viewBox', `0 0 ${svgRef.current.clientWidth} ${svgRef.current.clientHeight}`);
+      clone.removeAttribute('class');
+      // Freeze animations in their finished state
+      clone.querySelectorAll('animate, animateTransform').forEach(node => node.remove());
+      clone.querySelectorAll('path').forEach(path => {
+        path.removeAttribute('stroke-dasharray');
+        path.removeAttribute('stroke-dashoffset');
+      });
+      clone.querySelectorAll<SVGGElement>('.distance-label').forEach(label => { label.style.opacity = '1'; });
+      return new XMLSerializer().serializeToString(clone);
+    }
+  }), []);
+
   const getTrafficColor = (condition?: TrafficCondition) => {
     switch (condition) {
       case 'heavy': return '#ef4444';
@@ -34,245 +179,535 @@ const RouteMap: React.FC<RouteMapProps> = ({ stops, baseLocation, selectedStopId
     }
   };
 
-  const handleZoomIn = () => {
-    if (svgRef.current) d3.select(svgRef.current).transition().duration(300).call(zoomRef.current!.scaleBy, 1.5);
-  };
+  const markerFill = (stop: DeliveryStop, isSelected: boolean) =>
+    isSelected ? '#3b82f6' : (stop.priority === 'high' ? (theme === 'dark' ? '#3b82f6' : '#60a5fa') : (theme === 'dark' ? '#475569' : '#94a3b8'));
 
-  const handleZoomOut = () => {
-    if (svgRef.current) d3.select(svgRef.current).transition().duration(300).call(zoomRef.current!.scaleBy, 0.66);
+  // Buttons step whole tile levels so tiles render at their native resolution.
+  const zoomByLevel = (delta: number) => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const level = Math.round(Math.log2(transformRef.current.k)) + delta;
+    scene.svg.transition().duration(300).call(scene.zoom.scaleTo, 2 ** level);
   };
 
+  const handleZoomIn = () => zoomByLevel(1);
+
+  const handleZoomOut = () => zoomByLevel(-1);
+
   const handleResetZoom = () => {
-    if (svgRef.current) {
-      d3.select(svgRef.current).transition().duration(500).call(zoomRef.current!.transform, d3.zoomIdentity);
-    }
+    sceneRef.current?.svg.transition().duration(500).call(sceneRef.current.zoom.transform, fitRef.current());
   };
 
+  // Builds the layers and behaviours once; everything data-dependent happens in `draw`.
   useEffect(() => {
-    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current!);
+    const tileLayer = d3.select(tileSvgRef.current!).append("g").attr("class", "map-tiles");
+    const overlay = svg.append("g").attr("class", "map-container");
+    const segmentLayer = overlay.append("g");
+    const pillLayer = overlay.append("g").style("pointer-events", "none");
+    const depot = overlay.append("g").attr("class", "depot");
+    depot.append("circle").attr("r", 10).attr("stroke-width", 3);
+    depot.append("text")
+      .attr("y", -18)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "12px")
+      .attr("font-weight", "800")
+      .attr("stroke-width", 3)
+      .attr("paint-order", "stroke");
+    const finish = overlay.append("g").attr("class", "finish");
+    finish.append("rect").attr("x", -8).attr("y", -8).attr("width", 16).attr("height", 16).attr("rx", 3).attr("stroke-width", 3);
+    finish.append("text")
+      .attr("y", -16)
+      .attr("text-anchor", "middle")
+      .attr("font-size", "11px")
+      .attr("font-weight", "800")
+      .attr("stroke-width", 3)
+      .attr("paint-order", "stroke");
+    const clusterLayer = overlay.append("g");
+    const stopLayer = overlay.append("g");
+    const lasso = svg.append("path")
+      .attr("class", "lasso")
+      .attr("fill", "#3b82f6")
+      .attr("fill-opacity", 0.08)
+      .attr("stroke", "#3b82f6")
+      .attr("stroke-width", 1.5)
+      .attr("stroke-dasharray", "4,3")
+      .style("pointer-events", "none");
+
+    const moved = new Map<Coordinate, Coordinate>();
+    const project = (c: Coordinate) => transformRef.current.apply(projectMercator(moved.get(c) ?? c));
+    const pointerCoords = (point: [number, number]) => unprojectMercator(transformRef.current.invert(point));
+
+    // Dash lengths are measured when the intro starts; finish it instead of letting it stretch.
+    const settleIntro = () => {
+      segmentLayer.selectAll<SVGPathElement, unknown>("path.intro").interrupt().classed("intro", false).attr("stroke-dasharray", null).attr("stroke-dashoffset", null);
+    };
+
+    // Legs follow a dragged marker live; the parent only hears about the drop.
+    const markerDrag = <T,>(enabled: () => boolean, origin: (d: T) => Coordinate, onDrop: (d: T, coords: Coordinate) => void) => d3.drag<SVGGElement, T>()
+      .filter(event => enabled() && !event.button)
+      .clickDistance(4)
+      .on("start", function() {
+        settleIntro();
+        d3.select(this).raise();
+      })
+      .on("drag", (event, d) => {
+        moved.set(origin(d), pointerCoords([event.x, event.y]));
+        drawRef.current();
+      })
+      .on("end", (event, d) => {
+        const coords = moved.get(origin(d));
+        if (coords) onDrop(d, coords);
+      });
 
-    const width = svgRef.current.clientWidth;
-    const height = svgRef.current.clientHeight;
-    const padding = 80;
+    const stopDrag = markerDrag<DeliveryStop>(() => !!latestRef.current.onStopMove, d => d.coords, (d, coords) => latestRef.current.onStopMove?.(d.id, coords));
+    depot.call(markerDrag<unknown>(() => !!latestRef.current.onDepotMove, () => latestRef.current.baseLocation, (_, coords) => latestRef.current.onDepotMove?.(coords)));
 
-    const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove();
+    svg.on("contextmenu", (event: MouseEvent) => {
+      const { onAddStopAt } = latestRef.current;
+      if (!onAddStopAt || (event.target as Element).closest(".stop, .cluster, .depot")) return;
+      event.preventDefault();
+      onAddStopAt(pointerCoords(d3.pointer(event)));
+    });
 
-    // Create a container group for zooming
-    const container = svg.append("g").attr("class", "map-container");
+    // Canvas markers have no DOM node of their own; pick the nearest one under the pointer.
+    svg.on("click", (event: MouseEvent) => {
+      const { stops, useCanvas, onStopSelect } = latestRef.current;
+      if (!useCanvas || event.defaultPrevented || (event.target as Element).closest(".stop, .cluster, .depot")) return;
+      const [x, y] = d3.pointer(event);
+      const hit = d3.least(stops, stop => {
+        const [sx, sy] = project(stop.coords);
+        return (sx - x) ** 2 + (sy - y) ** 2;
+      });
+      if (hit) {
+        const [sx, sy] = project(hit.coords);
+        if ((sx - x) ** 2 + (sy - y) ** 2 <= 100) onStopSelect(hit.id);
+      }
+    });
+
+    // Drag and zoom filters receive the raw pointer, touch or wheel event, not a d3 event.
+    const isLassoGesture = (event: MouseEvent | TouchEvent) => !!latestRef.current.onSelectionChange && (latestRef.current.isLassoMode || event.shiftKey);
+    let lassoPoints: [number, number][] = [];
+
+    svg.call(d3.drag<SVGSVGElement, unknown>()
+      .container(function() { return this; })
+      .filter(event => isLassoGesture(event) && !event.button)
+      .on("start", (event) => { lassoPoints = [[event.x, event.y]]; })
+      .on("drag", (event) => {
+        lassoPoints.push([event.x, event.y]);
+        lasso.attr("d", `M${lassoPoints.join("L")}Z`);
+      })
+      .on("end", () => {
+        lasso.attr("d", null);
+        if (lassoPoints.length < 3) return;
+        const { stops, onSelectionChange } = latestRef.current;
+        onSelectionChange?.(stops.filter(s => d3.polygonContains(lassoPoints, project(s.coords))).map(s => s.id));
+      }));
 
-    // Initialize Zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.5, 10])
+      .filter(event => (!event.ctrlKey || event.type === 'wheel') && !event.button && (event.type === 'wheel' || !isLassoGesture(event)))
       .on("zoom", (event) => {
-        container.attr("transform", event.transform);
+        transformRef.current = event.transform;
+        settleIntro();
+        drawRef.current();
       });
-
     svg.call(zoom);
-    (zoomRef as any).current = zoom;
-
-    const allPoints = [baseLocation, ...stops.map(s => s.coords)];
-    
-    const xScale = d3.scaleLinear()
-      .domain([d3.min(allPoints, d => d.lng)! - 0.005, d3.max(allPoints, d => d.lng)! + 0.005])
-      .range([padding, width - padding]);
-
-    const yScale = d3.scaleLinear()
-      .domain([d3.min(allPoints, d => d.lat)! - 0.005, d3.max(allPoints, d => d.lat)! + 0.005])
-      .range([height - padding, padding]);
-
-    const g = container.append("g");
-    
-    if (stops.length > 0) {
-      const segments = [
-        { start: baseLocation, end: stops[0].coords, traffic: stops[0].trafficCondition, targetId: stops[0].id },
-        ...stops.slice(0, -1).map((s, i) => ({
-          start: s.coords,
-          end: stops[i+1].coords,
-          traffic: stops[i+1].trafficCondition,
-          targetId: stops[i+1].id
-        }))
-      ];
-
-      segments.forEach((seg, idx) => {
-        const lineData = [seg.start, seg.end];
-        const lineGenerator = d3.line<Coordinate>()
-          .x(d => xScale(d.lng))
-          .y(d => yScale(d.lat));
-
-        const isSelected = selectedStopId === seg.targetId;
-        const color = getTrafficColor(seg.traffic);
 
+    sceneRef.current = { svg, tileLayer, segmentLayer, pillLayer, depot, finish, clusterLayer, stopLayer, zoom, stopDrag, moved, project, settleIntro };
+    return () => {
+      svg.on(".zoom", null).on(".drag", null).on("contextmenu", null).on("click", null).selectAll("*").remove();
+      tileLayer.remove();
+      sceneRef.current = null;
+      viewRef.current = null;
+    };
+  }, []);
+
+  drawRef.current = () => {
+    const scene = sceneRef.current;
+    const svgEl = svgRef.current;
+    if (!scene || !svgEl) return;
+    const width = svgEl.clientWidth;
+    const height = svgEl.clientHeight;
+    const transform = transformRef.current;
+    const { moved, project } = scene;
+    const picked = new Set(selectedStopIds);
+    const haloColor = theme === 'dark' ? '#0f172a' : 'white';
+
+    const placements = tiles.url ? visibleTiles(transform, width, height, tiles.maxZoom) : [];
+    scene.tileLayer
+      .style("filter", theme === 'dark' ? DARK_TILE_FILTER : null)
+      .selectAll<SVGImageElement, TilePlacement>("image")
+      .data(placements, d => `${tiles.url}|${d.key}`)
+      .join(enter => enter.append("image").attr("href", d => tileUrl(tiles.url, d)).attr("preserveAspectRatio", "none"))
+      .attr("x", d => d.left)
+      .attr("y", d => d.top)
+      // Half a pixel of overlap hides seams between neighbouring tiles at fractional zooms.
+      .attr("width", d => d.size + 0.5)
+      .attr("height", d => d.size + 0.5);
+
+    const segmentPoints = (d: Segment): [number, number][] =>
+      (d.geometry && !moved.has(d.start) && !moved.has(d.end) ? d.geometry : [d.start, d.end]).map(project);
+    const segmentColor = (d: Segment) => d.vehicleColor ?? getTrafficColor(d.traffic);
+
+    // --- LEGS ---
+    const enteredLines: SVGPathElement[] = [];
+    scene.segmentLayer.selectAll<SVGGElement, Segment>("g.segment")
+      .data(useCanvas ? [] : segments, d => d.targetId)
+      .join(enter => {
+        const group = enter.append("g").attr("class", "segment");
         // Path Glow/Background
-        g.append("path")
-          .datum(lineData)
-          .attr("fill", "none")
+        group.append("path").attr("class", "glow").attr("fill", "none").attr("stroke-linecap", "round").attr("stroke-linejoin", "round");
+        // Main Route Path
+        group.append("path").attr("class", "line intro").attr("fill", "none").attr("stroke-linecap", "round").attr("stroke-linejoin", "round")
+          .each(function() { enteredLines.push(this); });
+        return group;
+      })
+      .each(function(d) {
+        const isSelected = selectedStopId === d.targetId;
+        const color = segmentColor(d);
+        const path = `M${segmentPoints(d).join("L")}`;
+        const group = d3.select(this);
+        group.select(".glow")
+          .attr("d", path)
           .attr("stroke", color)
           .attr("stroke-width", isSelected ? 12 : 6)
-          .attr("stroke-linecap", "round")
-          .attr("opacity", isSelected ? 0.4 : 0.15)
-          .attr("d", lineGenerator)
-          .attr("class", isSelected ? "animate-pulse" : "");
-
-        // Main Route Path
-        const path = g.append("path")
-          .datum(lineData)
-          .attr("fill", "none")
+          .attr("opacity", isSelected ? 0.4 : d.closing ? 0 : 0.15)
+          .classed("animate-pulse", isSelected);
+        // The way home is drawn fainter than the deliveries.
+        const line = group.select<SVGPathElement>(".line")
+          .attr("d", path)
           .attr("stroke", color)
           .attr("stroke-width", isSelected ? 6 : 3.5)
-          .attr("stroke-linecap", "round")
-          .attr("d", lineGenerator);
-
-        const totalLength = (path.node() as SVGPathElement).getTotalLength();
-        
+          .attr("opacity", d.closing ? 0.5 : null);
+        line.selectAll("animate")
+          .data(isSelected ? [d] : [])
+          .join(enter => enter.append("animate")
+            .attr("attributeName", "stroke-dashoffset")
+            .attr("from", "0")
+            .attr("to", "20")
+            .attr("dur", "0.5s")
+            .attr("repeatCount", "indefinite"));
         if (isSelected) {
-            path
-                .attr("stroke-dasharray", `4, 4`)
-                .attr("stroke-width", 6)
-                .append("animate")
-                .attr("attributeName", "stroke-dashoffset")
-                .attr("from", "0")
-                .attr("to", "20")
-                .attr("dur", "0.5s")
-                .attr("repeatCount", "indefinite");
-        } else {
-            path
-                .attr("stroke-dasharray", `${totalLength} ${totalLength}`)
-                .attr("stroke-dashoffset", totalLength)
-                .transition()
-                .duration(800)
-                .delay(idx * 200)
-                .attr("stroke-dashoffset", 0);
+          line.interrupt().classed("intro", false).attr("stroke-dasharray", "4, 4").attr("stroke-dashoffset", null);
+        } else if (!line.classed("intro")) {
+          line.attr("stroke-dasharray", null);
         }
+      });
 
-        // --- SEGMENT DISTANCE LABELS ---
-        const dist = calculateDist(seg.start, seg.end);
-        const midX = (xScale(seg.start.lng) + xScale(seg.end.lng)) / 2;
-        const midY = (yScale(seg.start.lat) + yScale(seg.end.lat)) / 2;
-        const distanceText = `${dist.toFixed(1)}km`;
-        
-        const pillWidth = Math.max(42, distanceText.length * 7 + 16);
-        const pillHeight = 20;
-
-        const labelGroup = g.append("g")
-          .attr("class", "distance-label")
-          .style("opacity", 0)
-          .style("pointer-events", "none");
+    // New legs draw themselves in; big batches share a two second budget.
+    const introDelay = Math.min(200, 2000 / Math.max(1, enteredLines.length));
+    enteredLines.forEach((node, i) => {
+      const line = d3.select(node);
+      if (!line.classed("intro")) return;
+      const totalLength = node.getTotalLength();
+      line
+          .attr("stroke-dasharray", `${totalLength} ${totalLength}`)
+          .attr("stroke-dashoffset", totalLength)
+          .transition()
+          .duration(800)
+          .delay(i * introDelay)
+          .attr("stroke-dashoffset", 0)
+          .on("end", () => line.classed("intro", false).attr("stroke-dasharray", null).attr("stroke-dashoffset", null));
+    });
 
+    // --- SEGMENT DISTANCE LABELS ---
+    const pillBoxes = new Map<string, LabelBox>();
+    const pills = scene.pillLayer.selectAll<SVGGElement, Segment>("g.distance-label")
+      .data(useCanvas ? [] : segments, d => d.targetId)
+      .join(enter => {
+        const group = enter.append("g").attr("class", "distance-label").style("opacity", 0);
         // Pill Backdrop
-        labelGroup.append("rect")
-          .attr("x", midX - pillWidth/2)
-          .attr("y", midY - pillHeight/2)
-          .attr("width", pillWidth)
-          .attr("height", pillHeight)
-          .attr("rx", pillHeight/2)
-          .attr("fill", theme === 'dark' ? '#1e293b' : 'white')
-          .attr("stroke", isSelected ? color : theme === 'dark' ? '#334155' : color + '40')
-          .attr("stroke-width", isSelected ? 2 : 1)
+        group.append("rect")
+          .attr("y", -PILL_HEIGHT / 2)
+          .attr("height", PILL_HEIGHT)
+          .attr("rx", PILL_HEIGHT / 2)
           .attr("filter", "drop-shadow(0px 2px 4px rgba(0,0,0,0.1))");
-
         // Distance Text
-        labelGroup.append("text")
-          .attr("x", midX)
-          .attr("y", midY + 4)
+        group.append("text")
+          .attr("y", 4)
           .attr("text-anchor", "middle")
           .attr("font-size", "9px")
           .attr("font-weight", "800")
+          .attr("font-family", "Inter, sans-serif");
+        group.transition().duration(500).delay(400).style("opacity", 1);
+        return group;
+      })
+      .each(function(d) {
+        const isSelected = selectedStopId === d.targetId;
+        const color = segmentColor(d);
+        const distanceText = formatDistance(calculateDistance(d.start, d.end), distanceUnit).replace(' ', '');
+        const pillWidth = Math.max(42, distanceText.length * 7 + 16);
+        const points = segmentPoints(d);
+        // Road legs carry their pill on the middle vertex so it stays on the street.
+        const [x, y] = points.length === 2
+          ? [(points[0][0] + points[1][0]) / 2, (points[0][1] + points[1][1]) / 2]
+          : points[Math.floor(points.length / 2)];
+        pillBoxes.set(d.targetId, { left: x - pillWidth / 2, top: y - PILL_HEIGHT / 2, width: pillWidth, height: PILL_HEIGHT });
+        const group = d3.select(this).attr("transform", `translate(${x},${y})`);
+        group.select("rect")
+          .attr("x", -pillWidth / 2)
+          .attr("width", pillWidth)
+          .attr("fill", theme === 'dark' ? '#1e293b' : 'white')
+          .attr("stroke", isSelected ? color : theme === 'dark' ? '#334155' : color + '40')
+          .attr("stroke-width", isSelected ? 2 : 1);
+        group.select("text")
           .attr("fill", isSelected ? color : theme === 'dark' ? '#94a3b8' : "#475569")
-          .attr("font-family", "Inter, sans-serif")
           .text(distanceText);
-
-        labelGroup.transition()
-          .duration(500)
-          .delay(idx * 200 + 400)
-          .style("opacity", 1);
       });
-    }
 
     // Depot icon
-    g.append("circle")
-      .attr("cx", xScale(baseLocation.lng))
-      .attr("cy", yScale(baseLocation.lat))
-      .attr("r", 10)
+    const depotPoint = project(baseLocation);
+    scene.depot
+      .attr("transform", `translate(${depotPoint})`)
+      .style("cursor", onDepotMove ? "move" : null);
+    scene.depot.select("circle")
       .attr("fill", theme === 'dark' ? '#60a5fa' : '#1e293b')
-      .attr("stroke", theme === 'dark' ? '#1e293b' : 'white')
-      .attr("stroke-width", 3);
-
-    g.append("text")
-      .attr("x", xScale(baseLocation.lng))
-      .attr("y", yScale(baseLocation.lat) - 18)
-      .attr("text-anchor", "middle")
-      .attr("font-size", "12px")
-      .attr("font-weight", "800")
+      .attr("stroke", theme === 'dark' ? '#1e293b' : 'white');
+    scene.depot.select("text")
       .attr("fill", theme === 'dark' ? '#f8fafc' : '#1e293b')
+      .attr("stroke", haloColor)
       .text(t.hq);
 
-    // Stops
-    const stopGroups = g.selectAll(".stop")
-      .data(stops)
-      .enter()
-      .append("g")
-      .attr("class", "stop")
-      .style("cursor", "pointer")
-      .on("click", (event, d) => {
-        onStopSelect(d.id);
+    const finishPoint = endLocation ? project(endLocation) : depotPoint;
+    scene.finish
+      .style("display", showFinish ? null : "none")
+      .attr("transform", `translate(${finishPoint})`);
+    scene.finish.select("rect")
+      .attr("fill", theme === 'dark' ? '#f8fafc' : '#475569')
+      .attr("stroke", theme === 'dark' ? '#1e293b' : 'white');
+    scene.finish.select("text")
+      .attr("fill", theme === 'dark' ? '#f8fafc' : '#1e293b')
+      .attr("stroke", haloColor)
+      .text(t.route_end);
+
+    // --- STOPS AND CLUSTERS ---
+    const zoomLevel = Math.round(Math.log2(transform.k));
+    const standsAlone = (stop: DeliveryStop) => stop.id === selectedStopId || picked.has(stop.id) || moved.has(stop.coords);
+    // On canvas, SVG keeps only the markers that need to stay interactive and labelled.
+    const groups: StopCluster[] = useCanvas
+      ? stops.filter(standsAlone).map(stop => ({ key: stop.id, stops: [stop], center: projectMercator(stop.coords) }))
+      : clusterStops(stops, zoomLevel, CLUSTER_CELL, zoomLevel >= CLUSTER_MAX_ZOOM ? () => true : standsAlone);
+    const singles = groups.filter(group => group.stops.length === 1).map(group => group.stops[0]);
+    const clusters = groups.filter(group => group.stops.length > 1);
+
+    scene.clusterLayer.selectAll<SVGGElement, StopCluster>("g.cluster")
+      .data(clusters, d => d.key)
+      .join(enter => {
+        const group = enter.append("g")
+          .attr("class", "cluster")
+          .style("cursor", "zoom-in")
+          .on("click", (event, d) => {
+            scene.svg.transition().duration(500).call(scene.zoom.transform, fitRef.current(d.stops.map(stop => stop.coords)));
+          });
+        group.append("circle").attr("stroke-width", 3);
+        group.append("text")
+          .attr("y", 4)
+          .attr("text-anchor", "middle")
+          .attr("font-size", "11px")
+          .attr("font-weight", "800")
+          .attr("font-family", "Inter, sans-serif")
+          .attr("fill", "white");
+        return group;
+      })
+      .attr("transform", d => `translate(${transform.apply(d.center)})`)
+      .each(function(d) {
+        const group = d3.select(this);
+        const colors = new Set(d.stops.map(stop => vehicleColor(stop.vehicleId)));
+        group.select("circle")
+          .attr("r", Math.min(26, 12 + Math.log2(d.stops.length) * 3))
+          .attr("fill", theme === 'dark' ? '#3b82f6' : '#1e40af')
+          .attr("fill-opacity", 0.9)
+          .attr("stroke", colors.size === 1 ? [...colors][0] ?? (theme === 'dark' ? '#1e293b' : 'white') : (theme === 'dark' ? '#1e293b' : 'white'));
+        group.select("text").text(d.stops.length);
       });
 
-    stopGroups.each(function(d, i) {
+    const stopGroups = scene.stopLayer.selectAll<SVGGElement, DeliveryStop>("g.stop")
+      .data(singles, d => d.id)
+      .join(enter => {
+        const group = enter.append("g")
+          .attr("class", "stop")
+          .style("cursor", "pointer")
+          .on("click", (event, d) => latestRef.current.onStopSelect(d.id))
+          .call(scene.stopDrag);
+        group.append("circle").attr("class", "marker").attr("opacity", 1);
+        group.append("title");
+        const label = group.append("text")
+          .attr("class", "stop-label")
+          .attr("text-anchor", "middle")
+          .attr("font-family", "Inter, sans-serif")
+          .attr("stroke-width", 3)
+          .attr("paint-order", "stroke");
+        label.append("tspan").attr("class", "name");
+        label.append("tspan")
+          .attr("class", "eta")
+          .attr("x", 0)
+          .attr("dy", "1.2em")
+          .attr("font-size", "9px")
+          .attr("font-weight", "600");
+        return group;
+      })
+      .attr("transform", d => `translate(${project(d.coords)})`);
+
+    const detailLabels = stopDetailLabels(t);
+    stopGroups.each(function(d) {
       const isSelected = selectedStopId === d.id;
       const group = d3.select(this);
 
-      if (isSelected) {
-          group.append("circle")
-            .attr("cx", xScale(d.coords.lng))
-            .attr("cy", yScale(d.coords.lat))
+      group.selectAll("circle.picked")
+        .data(picked.has(d.id) ? [d] : [])
+        .join(enter => enter.insert("circle", "circle.marker")
+          .attr("class", "picked")
+          .attr("r", 14)
+          .attr("fill", "#f59e0b")
+          .attr("fill-opacity", 0.2)
+          .attr("stroke", "#f59e0b")
+          .attr("stroke-width", 2.5));
+
+      group.selectAll("circle.ring")
+        .data(isSelected ? [d] : [])
+        .join(enter => {
+          const ring = enter.insert("circle", "circle.marker")
+            .attr("class", "ring")
             .attr("r", 16)
             .attr("fill", "none")
             .attr("stroke", "#3b82f6")
             .attr("stroke-width", 2)
-            .attr("stroke-dasharray", "4,2")
-            .append("animateTransform")
+            .attr("stroke-dasharray", "4,2");
+          ring.append("animateTransform")
             .attr("attributeName", "transform")
             .attr("type", "rotate")
-            .attr("from", `0 ${xScale(d.coords.lng)} ${yScale(d.coords.lat)}`)
-            .attr("to", `360 ${xScale(d.coords.lng)} ${yScale(d.coords.lat)}`)
+            .attr("from", "0")
+            .attr("to", "360")
             .attr("dur", "4s")
             .attr("repeatCount", "indefinite");
-      }
+          return ring;
+        });
 
-      group.append("circle")
-        .attr("cx", xScale(d.coords.lng))
-        .attr("cy", yScale(d.coords.lat))
+      group.select("circle.marker")
         .attr("r", isSelected ? 10 : 8)
-        .attr("fill", isSelected ? '#3b82f6' : (d.priority === 'high' ? (theme === 'dark' ? '#3b82f6' : '#60a5fa') : (theme === 'dark' ? '#475569' : '#94a3b8')))
-        .attr("stroke", theme === 'dark' ? '#1e293b' : 'white')
-        .attr("stroke-width", isSelected ? 3 : 2)
-        .attr("opacity", 1);
-
-      const label = group.append("text")
-        .attr("x", xScale(d.coords.lng))
-        .attr("y", yScale(d.coords.lat) + (isSelected ? 26 : 22))
-        .attr("text-anchor", "middle")
-        .attr("font-family", "Inter, sans-serif");
-
-      label.append("tspan")
+        .attr("fill", markerFill(d, isSelected))
+        .attr("stroke", vehicleColor(d.vehicleId) ?? (theme === 'dark' ? '#1e293b' : 'white'))
+        .attr("stroke-width", isSelected ? 3 : 2);
+
+      group.select("title").text([
+        `${stopNumbers.get(d.id)}: ${d.customerName}`,
+        d.address,
+        ...stopDetailLines(d, detailLabels, locales[lang])
+      ].join("\n"));
+
+      group.select("text").attr("stroke", haloColor);
+      group.select("tspan.name")
         .attr("font-size", isSelected ? "11px" : "10px")
         .attr("font-weight", isSelected ? "800" : "700")
         .attr("fill", isSelected ? (theme === 'dark' ? '#60a5fa' : "#1e40af") : (theme === 'dark' ? '#f1f5f9' : "#1e293b"))
-        .text(`${i + 1}: ${d.customerName}`);
+        .text(`${stopNumbers.get(d.id)}: ${d.customerName}`);
+      group.select("tspan.eta")
+        .attr("fill", theme === 'dark' ? '#94a3b8' : "#64748b")
+        .style("display", d.eta ? null : "none")
+        .text(d.eta ? `${t.eta}: ${formatEta(d.eta, locales[lang])}` : '');
+    });
 
-      if (d.estimatedTime) {
-        label.append("tspan")
-          .attr("x", xScale(d.coords.lng))
-          .attr("dy", "1.2em")
-          .attr("font-size", "9px")
-          .attr("font-weight", "600")
-          .attr("fill", theme === 'dark' ? '#94a3b8' : "#64748b")
-          .text(`${t.eta}: ${d.estimatedTime}`);
-      }
+    // --- LABEL PLACEMENT ---
+    // Markers are obstacles; labels try below, above, right and left before being hidden.
+    // The selection goes first, distance pills last.
+    const markerBox = ([x, y]: [number, number], r: number): LabelBox => ({ left: x - r, top: y - r, width: 2 * r, height: 2 * r });
+    const obstacles: LabelBox[] = [
+      markerBox(depotPoint, 12),
+      { left: depotPoint[0] - 18, top: depotPoint[1] - 30, width: 36, height: 14 },
+      ...(showFinish ? [markerBox(finishPoint, 10), { left: finishPoint[0] - 20, top: finishPoint[1] - 28, width: 40, height: 14 }] : []),
+      ...clusters.map(cluster => markerBox(transform.apply(cluster.center), 20)),
+      ...singles.map(stop => markerBox(project(stop.coords), 10))
+    ];
+    const onScreen = ([x, y]: [number, number]) => x > -100 && x < width + 100 && y > -50 && y < height + 50;
+    const rank = (stop: DeliveryStop) => stop.id === selectedStopId ? 0 : picked.has(stop.id) ? 1 : stop.priority === 'high' ? 2 : 3;
+    const labelOffsets = new Map<string, [number, number][]>();
+    const candidates: LabelCandidate[] = [...singles]
+      .sort((a, b) => rank(a) - rank(b) || stopNumbers.get(a.id)! - stopNumbers.get(b.id)!)
+      .filter(stop => onScreen(project(stop.coords)))
+      .map(stop => {
+        const [x, y] = project(stop.coords);
+        const lines = stop.eta ? 2 : 1;
+        const name = `${stopNumbers.get(stop.id)}: ${stop.customerName}`;
+        const labelWidth = Math.max(name.length * 6, stop.eta ? (t.eta.length + 10) * 5 : 0);
+        const radius = stop.id === selectedStopId ? 10 : 8;
+        const sideDy = 4 - (lines - 1) * LINE_HEIGHT / 2;
+        const offsets: [number, number][] = [
+          [0, radius + 14],
+          [0, -radius - 6 - (lines - 1) * LINE_HEIGHT],
+          [radius + 6 + labelWidth / 2, sideDy],
+          [-radius - 6 - labelWidth / 2, sideDy]
+        ];
+        labelOffsets.set(stop.id, offsets);
+        return {
+          id: stop.id,
+          boxes: offsets.map(([dx, dy]) => ({ left: x + dx - labelWidth / 2, top: y + dy - 10, width: labelWidth, height: lines * LINE_HEIGHT }))
+        };
+      });
+    pillBoxes.forEach((box, id) => candidates.push({ id: `pill:${id}`, boxes: [box] }));
+    const placed = placeLabels(candidates, obstacles);
+
+    stopGroups.select<SVGTextElement>("text.stop-label").each(function(d) {
+      const choice = placed.get(d.id) ?? -1;
+      const offset = labelOffsets.get(d.id)?.[choice];
+      d3.select(this)
+        .style("display", offset ? null : "none")
+        .attr("transform", offset ? `translate(${offset})` : null);
     });
+    pills.style("display", d => (placed.get(`pill:${d.targetId}`) ?? -1) === -1 ? "none" : null);
+
+    // --- CANVAS ---
+    const canvas = canvasRef.current;
+    if (canvas) {
+      canvas.style.display = useCanvas ? '' : 'none';
+      if (useCanvas) {
+        const ratio = window.devicePixelRatio || 1;
+        if (canvas.width !== width * ratio || canvas.height !== height * ratio) {
+          canvas.width = width * ratio;
+          canvas.height = height * ratio;
+        }
+        const context = canvas.getContext('2d')!;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, width, height);
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.lineWidth = 2.5;
+        context.globalAlpha = 0.8;
+        segments.forEach(d => {
+          context.strokeStyle = segmentColor(d);
+          context.beginPath();
+          segmentPoints(d).forEach(([x, y], i) => i === 0 ? context.moveTo(x, y) : context.lineTo(x, y));
+          context.stroke();
+        });
+        context.globalAlpha = 1;
+        context.lineWidth = 1.5;
+        stops.forEach(stop => {
+          const point = project(stop.coords);
+          if (standsAlone(stop) || !onScreen(point)) return;
+          context.beginPath();
+          context.arc(point[0], point[1], 5, 0, 2 * Math.PI);
+          context.fillStyle = markerFill(stop, false);
+          context.fill();
+          context.strokeStyle = vehicleColor(stop.vehicleId) ?? (theme === 'dark' ? '#1e293b' : 'white');
+          context.stroke();
+        });
+      }
+    }
+  };
 
-  }, [stops, baseLocation, selectedStopId, onStopSelect, lang, theme, t.hq, t.eta]);
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const svgEl = svgRef.current;
+    if (!scene || !svgEl) return;
+    scene.zoom.scaleExtent([2 ** MIN_TILE_ZOOM, 2 ** tiles.maxZoom]);
+    scene.moved.clear();
+    const size = `${svgEl.clientWidth}x${svgEl.clientHeight}`;
+    const ids = new Set(stops.map(s => s.id));
+    const previous = viewRef.current;
+    const keepView = previous?.size === size && (stops.some(s => previous.ids.has(s.id)) || (stops.length === 0 && previous.ids.size === 0));
+    viewRef.current = { size, ids };
+    if (keepView) drawRef.current();
+    else scene.svg.interrupt().call(scene.zoom.transform, fitRef.current());
+  }, [stops, baseLocation, selectedStopId, selectedStopIds, lang, theme, distanceUnit, vehicles, tiles, segments, useCanvas, !!onDepotMove]);
 
   return (
     <div className="w-full h-full bg-slate-50 dark:bg-slate-900 rounded-2xl shadow-inner border border-slate-200 dark:border-slate-800 overflow-hidden relative">
@@ -290,11 +725,33 @@ const RouteMap: React.FC<RouteMapProps> = ({ stops, baseLocation, selectedStopId
             <div className="w-3.5 h-1 rounded-full bg-red-500"></div> <span className="text-slate-700 dark:text-slate-300 font-semibold uppercase tracking-tight">{t.traffic_heavy}</span>
           </div>
         </div>
+        {vehicles.length > 0 && (
+          <div className="bg-white/95 dark:bg-slate-800/95 backdrop-blur px-3 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-[10px] shadow-sm">
+            <p className="font-bold text-slate-400 dark:text-slate-500 uppercase mb-2 tracking-wider">{t.fleet_tab}</p>
+            {vehicles.map(vehicle => (
+              <div key={vehicle.id} className="flex items-center gap-2 mb-1.5 last:mb-0">
+                <div className="w-3.5 h-1 rounded-full" style={{ backgroundColor: vehicle.color }}></div> <span className="text-slate-700 dark:text-slate-300 font-semibold uppercase tracking-tight">{vehicle.name}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Zoom Controls */}
       <div className="absolute bottom-6 right-6 flex flex-col gap-2 z-10">
         <div className="bg-white/95 dark:bg-slate-800/95 backdrop-blur p-1.5 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-xl flex flex-col gap-1">
+          {onSelectionChange && (
+            <>
+              <button
+                onClick={() => setIsLassoMode(prev => !prev)}
+                className={`w-10 h-10 flex items-center justify-center rounded-xl transition-all border hover:shadow-md active:scale-90 ${isLassoMode ? 'bg-amber-500 border-amber-500 text-white' : 'bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 text-slate-600 dark:text-slate-200 border-slate-100 dark:border-slate-600'}`}
+                title={t.lasso_select}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} strokeDasharray="3 3" d="M5 5h14v14H5z" /></svg>
+              </button>
+              <div className="h-px bg-slate-100 dark:bg-slate-600 mx-2 my-0.5"></div>
+            </>
+          )}
           <button 
             onClick={handleZoomIn}
             className="w-10 h-10 flex items-center justify-center rounded-xl bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 text-slate-600 dark:text-slate-200 transition-all border border-slate-100 dark:border-slate-600 hover:shadow-md active:scale-90"
@@ -320,9 +777,17 @@ const RouteMap: React.FC<RouteMapProps> = ({ stops, baseLocation, selectedStopId
         </div>
       </div>
 
-      <svg ref={svgRef} className="w-full h-full cursor-grab active:cursor-grabbing" />
+      {tiles.url && tiles.attribution && (
+        <div className="absolute bottom-0 left-0 z-10 px-2 py-0.5 bg-white/80 dark:bg-slate-900/80 rounded-tr-lg text-[9px] font-semibold text-slate-500 dark:text-slate-400 pointer-events-none">
+          {tiles.attribution}
+        </div>
+      )}
+
+      <svg ref={tileSvgRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" style={{ display: 'none' }} />
+      <svg ref={svgRef} className={`relative w-full h-full ${isLassoMode ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`} />
     </div>
   );
-};
+});
 
 export default RouteMap;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { RouteRecurrence, RouteVersion, SavedRoute } from '../types';
+import { Language, translations, locales } from '../translations';
+import { WEEKDAYS, defaultRecurrence, weekdayName } from '../utils/templates';
+
+export interface TemplateDraft {
+  name: string;
+  recurrence?: RouteRecurrence;
+  /** Store the current manifest as the template's next version. */
+  replaceStops: boolean;
+}
+
+interface RouteTemplateModalProps {
+  lang: Language;
+  /** Template to edit; `null` saves the current manifest as a new template. */
+  route: SavedRoute | null;
+  manifestStopCount: number;
+  /** Local calendar day as "YYYY-MM-DD", the default start of a new schedule. */
+  today: string;
+  onSave: (draft: TemplateDraft) => void;
+  onRestoreVersion: (version: RouteVersion) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100";
+const labelClass = "text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3";
+
+const RouteTemplateModal: React.FC<RouteTemplateModalProps> = ({ lang, route, manifestStopCount, today, onSave, onRestoreVersion, onClose }) => {
+  const t = translations[lang];
+  const locale = locales[lang];
+  const [name, setName] = useState(route?.name ?? '');
+  const [isRecurring, setIsRecurring] = useState(!!route?.recurrence);
+  const [recurrence, setRecurrence] = useState<RouteRecurrence>(route?.recurrence ?? defaultRecurrence(today));
+  const [exceptionDay, setExceptionDay] = useState('');
+  const [replaceStops, setReplaceStops] = useState(false);
+
+  const updateRecurrence = (changes: Partial<RouteRecurrence>) => setRecurrence(prev => ({ ...prev, ...changes }));
+
+  const toggleWeekday = (weekday: number) => updateRecurrence({
+    weekdays: recurrence.weekdays.includes(weekday)
+      ? recurrence.weekdays.filter(d => d !== weekday)
+      : [...recurrence.weekdays, weekday].sort()
+  });
+
+  const addException = () => {
+    if (!exceptionDay || recurrence.exceptions.includes(exceptionDay)) return;
+    updateRecurrence({ exceptions: [...recurrence.exceptions, exceptionDay].sort() });
+    setExceptionDay('');
+  };
+
+  const canSave = !!name.trim() && (!isRecurring || recurrence.weekdays.length > 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({ name: name.trim(), recurrence: isRecurring ? recurrence : undefined, replaceStops });
+  };
+
+  const formatDay = (day: string) => new Date(`${day}T12:00:00`).toLocaleDateString(locale, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
+          <h3 className="text-xl font-black uppercase tracking-tight">{route ? t.edit_template : t.save_route_title}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-8 space-y-6">
+          <div>
+            <label className={labelClass}>{t.route_name_label}</label>
+            <input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder={t.route_name_placeholder} className={inputClass} />
+          </div>
+
+          <div className="space-y-4">
+            <label className="flex items-center gap-3 text-xs font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={isRecurring} onChange={(e) => setIsRecurring(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+              {t.repeats_weekly}
+            </label>
+            {isRecurring && (
+              <>
+                <div className="flex gap-1.5">
+                  {WEEKDAYS.map(weekday => (
+                    <button key={weekday} type="button" onClick={() => toggleWeekday(weekday)} className={`flex-1 py-2.5 rounded-xl text-[10px] font-black uppercase transition-all ${recurrence.weekdays.includes(weekday) ? 'bg-blue-600 dark:bg-blue-500 text-white shadow-sm' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400'}`}>
+                      {weekdayName(weekday, locale)}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={labelClass}>{t.every_weeks}</label>
+                    <input type="number" min={1} max={52} value={recurrence.intervalWeeks} onChange={(e) => updateRecurrence({ intervalWeeks: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t.starting_on}</label>
+                    <input type="date" value={recurrence.startDate} onChange={(e) => e.target.value && updateRecurrence({ startDate: e.target.value })} className={inputClass} />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>{t.skip_days}</label>
+                  <div className="flex gap-3">
+                    <input type="date" value={exceptionDay} onChange={(e) => setExceptionDay(e.target.value)} className={inputClass} />
+                    <button type="button" onClick={addException} disabled={!exceptionDay} className="px-5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase text-[10px] active:scale-95 disabled:opacity-50">{t.add}</button>
+                  </div>
+                  {recurrence.exceptions.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {recurrence.exceptions.map(day => (
+                        <span key={day} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-lg text-[10px] font-black">
+                          {formatDay(day)}
+                          <button type="button" onClick={() => updateRecurrence({ exceptions: recurrence.exceptions.filter(d => d !== day) })} className="p-0.5 hover:text-red-500">×</button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          {route && (
+            <div className="space-y-3">
+              <label className={`flex items-center gap-3 text-xs font-bold text-slate-600 dark:text-slate-300 ${manifestStopCount === 0 ? 'opacity-40' : 'cursor-pointer'}`}>
+                <input type="checkbox" checked={replaceStops} disabled={manifestStopCount === 0} onChange={(e) => setReplaceStops(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+                {t.replace_with_manifest} ({manifestStopCount} {t.targets})
+              </label>
+              <div>
+                <label className={labelClass}>{t.template_versions}</label>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between px-4 py-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl text-[11px] font-bold text-slate-700 dark:text-slate-200">
+                    <span>v{route.version ?? 1} • {route.stops.length} {t.targets}{route.updatedBy ? ` • ${route.updatedBy}` : ''}</span>
+                    <span className="text-[9px] font-black uppercase text-blue-600 dark:text-blue-400">{t.current_version}</span>
+                  </div>
+                  {(route.history ?? []).map(version => (
+                    <div key={version.version} className="flex items-center justify-between px-4 py-3 bg-slate-50 dark:bg-slate-950 rounded-xl text-[11px] font-bold text-slate-600 dark:text-slate-300">
+                      <span>v{version.version} • {version.stops.length} {t.targets}{version.savedAt ? ` • ${new Date(version.savedAt).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })}` : ''}{version.savedBy ? ` • ${version.savedBy}` : ''}</span>
+                      <button type="button" onClick={() => confirm(`${t.restore_version} v${version.version}?`) && onRestoreVersion(version)} className="text-[9px] font-black uppercase text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400">{t.restore_version}</button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.cancel}</button>
+            <button type="submit" disabled={!canSave} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 dark:hover:bg-blue-600 active:scale-95 transition-all disabled:opacity-50">{t.save_confirm}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RouteTemplateModal;
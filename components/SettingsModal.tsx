@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { Language, translations } from '../translations';
+import { GeocoderSettings, GeocoderProvider, parseGazetteer } from '../services/geocoding';
+import { getStorageEstimate, StorageEstimate } from '../services/storage';
+import { SyncSettings, SyncStatus } from '../services/syncClient';
+import { AuthSession, can } from '../services/auth';
+import { TileSettings, DEFAULT_TILE_SETTINGS } from '../utils/tiles';
+import { DEFAULT_CANVAS_THRESHOLD } from '../utils/mapLayout';
+import { RoutingSettings, RoutingProvider, DEFAULT_ROUTING_PROFILES } from '../services/routing';
+import UserManagement from './UserManagement';
+
+interface SettingsModalProps {
+  lang: Language;
+  geocoderSettings: GeocoderSettings;
+  onGeocoderSettingsChange: (settings: GeocoderSettings) => void;
+  onBackup: () => void;
+  onRestore: (file: File) => void;
+  session: AuthSession;
+  syncSettings: SyncSettings;
+  onSyncSettingsChange: (settings: SyncSettings) => void;
+  syncStatus: SyncStatus | null;
+  syncPending: number;
+  tileSettings: TileSettings;
+  onTileSettingsChange: (settings: TileSettings) => void;
+  canvasThreshold: number;
+  onCanvasThresholdChange: (threshold: number) => void;
+  routingSettings: RoutingSettings;
+  onRoutingSettingsChange: (settings: RoutingSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100";
+const labelClass = "text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3";
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : bytes >= 1024 ** 2 ? `${(bytes / 1024 ** 2).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ lang, geocoderSettings, onGeocoderSettingsChange, onBackup, onRestore, session, syncSettings, onSyncSettingsChange, syncStatus, syncPending, tileSettings, onTileSettingsChange, canvasThreshold, onCanvasThresholdChange, routingSettings, onRoutingSettingsChange, onClose }) => {
+  const t = translations[lang];
+  const [gazetteerError, setGazetteerError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  }, []);
+
+  const update = (changes: Partial<GeocoderSettings>) => onGeocoderSettingsChange({ ...geocoderSettings, ...changes });
+
+  // Switching backends swaps in the new one's profile unless a custom profile was typed.
+  const handleRoutingProvider = (provider: RoutingProvider) => {
+    const isDefaultProfile = Object.values(DEFAULT_ROUTING_PROFILES).includes(routingSettings.profile);
+    onRoutingSettingsChange({
+      ...routingSettings,
+      provider,
+      profile: provider !== 'none' && isDefaultProfile ? DEFAULT_ROUTING_PROFILES[provider] : routingSettings.profile
+    });
+  };
+
+  const handleGazetteerFile = async (file: File) => {
+    try {
+      const entries = parseGazetteer(await file.text(), file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      if (entries.length === 0) {
+        setGazetteerError(t.gazetteer_empty);
+        return;
+      }
+      setGazetteerError(null);
+      update({ gazetteer: entries });
+    } catch (e) {
+      setGazetteerError(t.gazetteer_invalid);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
+          <h3 className="text-xl font-black uppercase tracking-tight">{t.settings_title}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-8 space-y-6">
+          <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em]">{t.geocoder_section}</h4>
+          <div>
+            <label className={labelClass}>{t.geocoder_provider}</label>
+            <select value={geocoderSettings.provider} onChange={(e) => update({ provider: e.target.value as GeocoderProvider })} className={inputClass}>
+              <option value="gemini">Gemini (AI)</option>
+              <option value="nominatim">Nominatim</option>
+              <option value="gazetteer">{t.gazetteer}</option>
+            </select>
+          </div>
+          {geocoderSettings.provider === 'nominatim' && (
+            <div>
+              <label className={labelClass}>{t.nominatim_url}</label>
+              <input value={geocoderSettings.nominatimUrl} onChange={(e) => update({ nominatimUrl: e.target.value })} className={inputClass} />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>{t.min_confidence} ({Math.round(geocoderSettings.minConfidence * 100)}%)</label>
+            <input type="range" min={0} max={1} step={0.05} value={geocoderSettings.minConfidence} onChange={(e) => update({ minConfidence: Number(e.target.value) })} className="w-full accent-blue-600" />
+          </div>
+          <div>
+            <label className={labelClass}>{t.gazetteer} ({geocoderSettings.gazetteer.length})</label>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-3">{t.gazetteer_hint}</p>
+            <div className="flex gap-3">
+              <label className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] text-center cursor-pointer active:scale-95 transition-all">
+                {t.gazetteer_load}
+                <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleGazetteerFile(file); e.target.value = ''; }} />
+              </label>
+              {geocoderSettings.gazetteer.length > 0 && (
+                <button onClick={() => update({ gazetteer: [] })} className="px-5 py-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.delete}</button>
+              )}
+            </div>
+            {gazetteerError && <p className="mt-3 text-[11px] font-bold text-red-500">{gazetteerError}</p>}
+          </div>
+          <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] pt-2">{t.map_section}</h4>
+          <div>
+            <label className={labelClass}>{t.tile_url}</label>
+            <input value={tileSettings.url} onChange={(e) => onTileSettingsChange({ ...tileSettings, url: e.target.value.trim() })} placeholder={DEFAULT_TILE_SETTINGS.url} className={inputClass} />
+            <p className="mt-2 text-[11px] text-slate-500 dark:text-slate-400">{t.tile_url_hint}</p>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>{t.tile_attribution}</label>
+              <input value={tileSettings.attribution} onChange={(e) => onTileSettingsChange({ ...tileSettings, attribution: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t.tile_max_zoom}</label>
+              <input type="number" min={2} max={22} value={tileSettings.maxZoom} onChange={(e) => onTileSettingsChange({ ...tileSettings, maxZoom: Math.max(2, Math.min(22, Number(e.target.value) || DEFAULT_TILE_SETTINGS.maxZoom)) })} className={inputClass} />
+            </div>
+          </div>
+          {(tileSettings.url !== DEFAULT_TILE_SETTINGS.url || tileSettings.attribution !== DEFAULT_TILE_SETTINGS.attribution || tileSettings.maxZoom !== DEFAULT_TILE_SETTINGS.maxZoom) && (
+            <button onClick={() => onTileSettingsChange(DEFAULT_TILE_SETTINGS)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.tile_reset}</button>
+          )}
+          <div>
+            <label className={labelClass}>{t.canvas_threshold}</label>
+            <input type="number" min={50} step={50} value={canvasThreshold} onChange={(e) => onCanvasThresholdChange(Math.max(50, Number(e.target.value) || DEFAULT_CANVAS_THRESHOLD))} className={inputClass} />
+            <p className="mt-2 text-[11px] text-slate-500 dark:text-slate-400">{t.canvas_threshold_hint}</p>
+          </div>
+          <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] pt-2">{t.routing_section}</h4>
+          <div>
+            <label className={labelClass}>{t.routing_provider}</label>
+            <select value={routingSettings.provider} onChange={(e) => handleRoutingProvider(e.target.value as RoutingProvider)} className={inputClass}>
+              <option value="none">{t.routing_none}</option>
+              <option value="osrm">OSRM</option>
+              <option value="valhalla">Valhalla</option>
+            </select>
+            <p className="mt-2 text-[11px] text-slate-500 dark:text-slate-400">{t.routing_hint}</p>
+          </div>
+          {routingSettings.provider !== 'none' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <label className={labelClass}>{t.routing_url}</label>
+                <input value={routingSettings.url} onChange={(e) => onRoutingSettingsChange({ ...routingSettings, url: e.target.value.trim() })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>{t.routing_profile}</label>
+                <input value={routingSettings.profile} onChange={(e) => onRoutingSettingsChange({ ...routingSettings, profile: e.target.value.trim() })} className={inputClass} />
+              </div>
+            </div>
+          )}
+          <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] pt-2">{t.storage_section}</h4>
+          <div>
+            {storageEstimate && (
+              <>
+                <label className={labelClass}>{t.storage_usage} ({formatBytes(storageEstimate.usage)} / {formatBytes(storageEstimate.quota)})</label>
+                <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-2">
+                  <div className={`h-full ${storageEstimate.usage / storageEstimate.quota > 0.8 ? 'bg-red-500' : 'bg-blue-600'}`} style={{ width: `${Math.min(100, (storageEstimate.usage / (storageEstimate.quota || 1)) * 100)}%` }} />
+                </div>
+                {!storageEstimate.persisted && <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-3">{t.storage_not_persisted}</p>}
+              </>
+            )}
+            <div className="flex gap-3">
+              <button onClick={onBackup} className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.backup}</button>
+              <label className="flex-1 py-3 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] text-center cursor-pointer active:scale-95 transition-all">
+                {t.restore}
+                <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onRestore(file); e.target.value = ''; }} />
+              </label>
+            </div>
+          </div>
+          <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] pt-2">{t.sync_section}</h4>
+          <div className="space-y-4">
+            <label className="flex items-center gap-3 text-sm font-bold text-slate-700 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={syncSettings.enabled} onChange={(e) => onSyncSettingsChange({ ...syncSettings, enabled: e.target.checked })} className="w-5 h-5 accent-blue-600" />
+              {t.sync_enabled}
+            </label>
+            <p className="text-[11px] text-slate-500 dark:text-slate-400 break-all">{t.login_server}: {session.serverUrl}</p>
+            {syncSettings.enabled && syncStatus && (
+              <p className="text-[11px] text-slate-500 dark:text-slate-400">{t[`sync_${syncStatus}` as keyof typeof t]}{syncPending > 0 ? ` · ${syncPending} ${t.sync_pending}` : ''}</p>
+            )}
+          </div>
+          {can(session.user.role, 'manageUsers') && (
+            <>
+              <h4 className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] pt-2">{t.users_section}</h4>
+              <UserManagement lang={lang} session={session} />
+            </>
+          )}
+          <button onClick={onClose} className="w-full py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 dark:hover:bg-blue-600 active:scale-95 transition-all">{t.done}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+
+interface SignaturePadProps {
+  /** Called with a PNG data URL after each stroke, or null once cleared. */
+  onChange: (dataUrl: string | null) => void;
+  clearLabel: string;
+  height?: number;
+}
+
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, clearLabel, height = 180 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  // Backing store follows the CSS size and device pixel ratio so strokes stay crisp.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#0f172a';
+  }, [height]);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + 0.1, y + 0.1);
+    ctx.stroke();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        style={{ height, touchAction: 'none' }}
+        className="w-full bg-white rounded-2xl border-2 border-dashed border-slate-300 dark:border-slate-700 cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <button type="button" onClick={clear} className="absolute top-3 right-3 px-3 py-1.5 bg-slate-100 text-slate-600 text-[10px] font-black uppercase rounded-lg active:scale-95">{clearLabel}</button>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { DeliveryStop, PackageItem } from '../types';
+import { Language, translations } from '../translations';
+
+interface StopModalProps {
+  lang: Language;
+  stop: DeliveryStop;
+  onSave: (stop: DeliveryStop) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl text-sm focus:ring-4 focus:ring-blue-500/10 focus:border-blue-600 outline-none transition-all shadow-inner text-slate-900 dark:text-slate-100";
+const labelClass = "text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest block mb-3";
+
+const optionalNumber = (value: string): number | undefined => {
+  const n = parseFloat(value.replace(',', '.'));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const StopModal: React.FC<StopModalProps> = ({ lang, stop, onSave, onClose }) => {
+  const t = translations[lang];
+  const [customerName, setCustomerName] = useState(stop.customerName);
+  const [priority, setPriority] = useState(stop.priority);
+  const [earliest, setEarliest] = useState(stop.timeWindow?.earliest ?? '');
+  const [latest, setLatest] = useState(stop.timeWindow?.latest ?? '');
+  const [serviceMinutes, setServiceMinutes] = useState(stop.serviceMinutes?.toString() ?? '');
+  const [demand, setDemand] = useState(stop.demand?.toString() ?? '');
+  const [phone, setPhone] = useState(stop.phone ?? '');
+  const [accessInstructions, setAccessInstructions] = useState(stop.accessInstructions ?? '');
+  const [notes, setNotes] = useState(stop.notes ?? '');
+  const [packages, setPackages] = useState<PackageItem[]>(stop.packages ?? []);
+  const [codAmount, setCodAmount] = useState(stop.codAmount?.toString() ?? '');
+
+  const updatePackage = (index: number, changes: Partial<PackageItem>) =>
+    setPackages(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customerName.trim()) return;
+    const items = packages
+      .map(item => ({ description: item.description.trim(), quantity: Math.max(1, Math.round(item.quantity) || 1) }))
+      .filter(item => item.description);
+    onSave({
+      ...stop,
+      customerName: customerName.trim(),
+      priority,
+      timeWindow: earliest || latest ? { earliest: earliest || undefined, latest: latest || undefined } : undefined,
+      serviceMinutes: optionalNumber(serviceMinutes),
+      demand: optionalNumber(demand),
+      phone: phone.trim() || undefined,
+      accessInstructions: accessInstructions.trim() || undefined,
+      notes: notes.trim() || undefined,
+      packages: items.length > 0 ? items : undefined,
+      codAmount: optionalNumber(codAmount)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-2xl w-full max-w-lg max-h-full overflow-y-auto custom-scrollbar animate-in zoom-in-95 duration-300 border dark:border-slate-800">
+        <div className="p-8 bg-slate-900 dark:bg-slate-950 text-white flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-xl font-black uppercase tracking-tight">{t.editing_stop}</h3>
+            <p className="text-[11px] text-slate-400 truncate mt-1">{stop.address}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-xl transition-colors"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-8 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t.field_customerName}</label>
+              <input autoFocus value={customerName} onChange={(e) => setCustomerName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t.phone}</label>
+              <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>{t.field_priority}</label>
+              <select value={priority} onChange={(e) => setPriority(e.target.value as DeliveryStop['priority'])} className={inputClass}>
+                <option value="low">{t.priority_low}</option>
+                <option value="medium">{t.priority_medium}</option>
+                <option value="high">{t.priority_high}</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t.service_minutes}</label>
+              <input type="number" min={0} value={serviceMinutes} onChange={(e) => setServiceMinutes(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t.demand}</label>
+              <input type="number" min={0} value={demand} onChange={(e) => setDemand(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t.time_window}</label>
+            <div className="flex items-center gap-3">
+              <input type="time" value={earliest} onChange={(e) => setEarliest(e.target.value)} title={t.window_from} className={inputClass} />
+              <span className="text-slate-400">–</span>
+              <input type="time" value={latest} onChange={(e) => setLatest(e.target.value)} title={t.window_to} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t.access_instructions}</label>
+            <input value={accessInstructions} onChange={(e) => setAccessInstructions(e.target.value)} placeholder={t.access_placeholder} className={inputClass} />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <label className="text-xs font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">{t.packages}</label>
+              <button type="button" onClick={() => setPackages(prev => [...prev, { description: '', quantity: 1 }])} className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase active:scale-95">{t.add_package}</button>
+            </div>
+            <div className="space-y-2">
+              {packages.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input type="number" min={1} value={item.quantity} onChange={(e) => updatePackage(index, { quantity: parseInt(e.target.value) || 1 })} aria-label={t.quantity} className={`${inputClass} !w-20 !px-3`} />
+                  <input value={item.description} onChange={(e) => updatePackage(index, { description: e.target.value })} placeholder={t.package_description} className={inputClass} />
+                  <button type="button" onClick={() => setPackages(prev => prev.filter((_, i) => i !== index))} className="p-2 text-slate-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t.cod_amount}</label>
+            <input type="number" min={0} step="0.01" value={codAmount} onChange={(e) => setCodAmount(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t.notes}</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={`${inputClass} resize-none`} />
+          </div>
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="flex-1 py-4 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.cancel}</button>
+            <button type="submit" disabled={!customerName.trim()} className="flex-1 py-4 bg-blue-600 dark:bg-blue-500 text-white rounded-2xl font-black uppercase tracking-widest text-[10px] shadow-xl hover:bg-blue-700 dark:hover:bg-blue-600 active:scale-95 transition-all disabled:opacity-50">{t.save}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default StopModal;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Language, translations } from '../translations';
+import { AuthSession, AuthUser, Role, ROLES, listUsers, createUser, updateUser, deleteUser } from '../services/auth';
+
+interface UserManagementProps {
+  lang: Language;
+  session: AuthSession;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold focus:border-blue-600 outline-none text-slate-900 dark:text-slate-100";
+
+const UserManagement: React.FC<UserManagementProps> = ({ lang, session }) => {
+  const t = translations[lang];
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ username: '', name: '', role: 'driver' as Role, password: '' });
+
+  useEffect(() => {
+    listUsers(session).then(setUsers).catch(() => setError(t.login_unreachable));
+  }, [session.token]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (e) {
+      setError(e instanceof Error && e.message ? e.message : t.user_save_failed);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const created = await createUser(session, draft);
+      setUsers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft({ username: '', name: '', role: 'driver', password: '' });
+    });
+  };
+
+  const handleRoleChange = (user: AuthUser, role: Role) => run(async () => {
+    const updated = await updateUser(session, user.id, { role });
+    setUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+  });
+
+  const handleResetPassword = (user: AuthUser) => {
+    const password = prompt(t.new_password_prompt);
+    if (password) run(async () => { await updateUser(session, user.id, { password }); });
+  };
+
+  const handleDelete = (user: AuthUser) => {
+    if (confirm(`${t.delete} ${user.name}?`)) run(async () => {
+      await deleteUser(session, user.id);
+      setUsers(prev => prev.filter(u => u.id !== user.id));
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {users.map(user => (
+        <div key={user.id} className="p-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-2xl space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-black text-slate-800 dark:text-slate-100 truncate">{user.name}</p>
+              <p className="text-[10px] font-bold text-slate-400 dark:text-slate-500 truncate">{user.username}</p>
+            </div>
+            <select value={user.role} disabled={user.id === session.user.id} onChange={(e) => handleRoleChange(user, e.target.value as Role)} className="px-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-[10px] font-black uppercase text-slate-700 dark:text-slate-300 outline-none disabled:opacity-50">
+              {ROLES.map(role => <option key={role} value={role}>{t[`role_${role}`]}</option>)}
+            </select>
+          </div>
+          <div className="flex gap-4">
+            <button onClick={() => handleResetPassword(user)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 uppercase">{t.reset_password}</button>
+            {user.id !== session.user.id && <button onClick={() => handleDelete(user)} className="text-[10px] font-black text-slate-500 dark:text-slate-400 hover:text-red-500 dark:hover:text-red-400 uppercase">{t.delete}</button>}
+          </div>
+        </div>
+      ))}
+      <form onSubmit={handleCreate} className="grid grid-cols-2 gap-2">
+        <input required value={draft.username} onChange={(e) => setDraft({ ...draft, username: e.target.value })} placeholder={t.login_username} autoComplete="off" className={inputClass} />
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder={t.display_name} className={inputClass} />
+        <input required type="password" minLength={8} value={draft.password} onChange={(e) => setDraft({ ...draft, password: e.target.value })} placeholder={t.login_password} autoComplete="new-password" className={inputClass} />
+        <select value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })} className={inputClass}>
+          {ROLES.map(role => <option key={role} value={role}>{t[`role_${role}`]}</option>)}
+        </select>
+        <button type="submit" className="col-span-2 py-3 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 rounded-2xl font-black uppercase tracking-widest text-[10px] active:scale-95 transition-all">{t.add_user}</button>
+      </form>
+      {error && <p className="text-[11px] font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default UserManagement;
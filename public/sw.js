@@ -0,0 +1,77 @@
+/*
+ * Offline support for the driver view. The app shell and its CDN
+ * dependencies are served stale-while-revalidate, navigations fall back to
+ * the cached shell, and images (map tiles included) go into a bounded
+ * runtime cache. Manifest data lives in IndexedDB, and sync and geocoding
+ * requests always hit the network.
+ */
+const VERSION = 'v1';
+const SHELL_CACHE = `swiftroute-shell-${VERSION}`;
+const IMAGE_CACHE = `swiftroute-images-${VERSION}`;
+const MAX_IMAGES = 800;
+
+const SHELL = ['./', './index.html', './manifest.webmanifest'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('swiftroute-') && ![SHELL_CACHE, IMAGE_CACHE].includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheable = response => response.ok || response.type === 'opaque';
+
+const trim = async (cacheName, max) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(key => cache.delete(key)));
+};
+
+const staleWhileRevalidate = async (event, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then(response => {
+    if (cacheable(response)) {
+      const stored = cache.put(event.request, response.clone());
+      event.waitUntil(cacheName === IMAGE_CACHE ? stored.then(() => trim(IMAGE_CACHE, MAX_IMAGES)) : stored);
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => {}));
+    return cached;
+  }
+  return network;
+};
+
+const networkFirstNavigation = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('./index.html', response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match('./index.html', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+  } else if (request.destination === 'image') {
+    event.respondWith(staleWhileRevalidate(event, IMAGE_CACHE));
+  } else if ((url.origin === self.location.origin && !url.pathname.includes('/api/')) || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, SHELL_CACHE));
+  }
+});
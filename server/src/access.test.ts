@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Role, StoredRecord, User } from './db.js';
+import { canWrite, visibleRecord } from './access.js';
+
+const user = (id: string, role: Role): User => ({ id, username: id, name: id, role, createdAt: '2026-03-03T08:00:00Z' });
+
+const record = (collection: StoredRecord['collection'], id: string, data: unknown, deleted = false): StoredRecord => ({
+  collection, id, version: 1, deleted, data: deleted ? null : data, updatedAt: '2026-03-03T08:00:00Z', updatedBy: id, seq: 1
+});
+
+const admin = user('ada', 'admin');
+const dispatcher = user('dan', 'dispatcher');
+const driver = user('dora', 'driver');
+
+describe('canWrite', () => {
+  it('lets dispatchers maintain the shared collections', () => {
+    expect(['customers', 'routes', 'runs'].map(c => canWrite(dispatcher, c as StoredRecord['collection'], 'x'))).toEqual([true, true, true]);
+    expect(['customers', 'routes', 'runs'].map(c => canWrite(driver, c as StoredRecord['collection'], 'x'))).toEqual([false, false, false]);
+  });
+
+  it('keeps personal records to their owner unless an admin writes', () => {
+    expect(canWrite(driver, 'manifests', 'dora')).toBe(true);
+    expect(canWrite(driver, 'manifests', 'dan')).toBe(false);
+    expect(canWrite(dispatcher, 'dispatchers', 'dora')).toBe(false);
+    expect(canWrite(admin, 'manifests', 'dora')).toBe(true);
+  });
+});
+
+describe('visibleRecord', () => {
+  const manifest = {
+    depotLocation: { lat: 1, lng: 2 },
+    vehicles: [{ id: 'v1', driverId: 'dora' }, { id: 'v2', driverId: 'eve' }],
+    stops: [{ id: 'a', vehicleId: 'v1' }, { id: 'b', vehicleId: 'v2' }, { id: 'c' }]
+  };
+
+  it('shows the office everything', () => {
+    const customers = record('customers', 'c1', { name: 'Acme' });
+    expect(visibleRecord(dispatcher, customers)).toBe(customers);
+    expect(visibleRecord(dispatcher, record('manifests', 'dora', manifest))).toEqual(record('manifests', 'dora', manifest));
+  });
+
+  it('keeps the directory, route library and run archive from drivers', () => {
+    expect(['customers', 'routes', 'runs', 'dispatchers'].map(c => visibleRecord(driver, record(c as StoredRecord['collection'], 'x', {})))).toEqual([null, null, null, null]);
+  });
+
+  it('shows drivers their own records in full', () => {
+    const own = record('manifests', 'dora', manifest);
+    expect(visibleRecord(driver, own)).toBe(own);
+  });
+
+  it('reduces other manifests to the driver\'s vehicles and their stops', () => {
+    expect(visibleRecord(driver, record('manifests', 'dan', manifest))?.data).toEqual({
+      depotLocation: { lat: 1, lng: 2 },
+      vehicles: [{ id: 'v1', driverId: 'dora' }],
+      stops: [{ id: 'a', vehicleId: 'v1' }]
+    });
+  });
+
+  it('empties manifests that assign the driver nothing', () => {
+    const unassigned = { ...manifest, vehicles: [{ id: 'v2', driverId: 'eve' }] };
+    expect(visibleRecord(driver, record('manifests', 'dan', unassigned))?.data).toEqual({ vehicles: [], stops: [] });
+  });
+
+  it('passes deleted manifests through', () => {
+    const tombstone = record('manifests', 'dan', null, true);
+    expect(visibleRecord(driver, tombstone)).toBe(tombstone);
+  });
+});
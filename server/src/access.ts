@@ -0,0 +1,38 @@
+import { Collection, StoredRecord, User } from './db.js';
+
+interface ManifestData {
+  stops?: { vehicleId?: string }[];
+  vehicles?: { id: string; driverId?: string }[];
+}
+
+// Records keyed by the user they belong to.
+const PERSONAL: Collection[] = ['manifests', 'dispatchers'];
+
+/**
+ * Admins may write anything. Dispatchers maintain the shared directory, route
+ * library and run archive; everybody, drivers included, writes their own
+ * manifest and profile.
+ */
+export const canWrite = (user: User, collection: Collection, id: string): boolean => {
+  if (user.role === 'admin') return true;
+  if (PERSONAL.includes(collection)) return id === user.id;
+  return user.role === 'dispatcher';
+};
+
+/**
+ * What `user` may read of `record`, or null when it is hidden. Drivers see
+ * their own records and other people's manifests reduced to the vehicles
+ * assigned to them; the directory, route library and run archive stay in
+ * the office. Manifests assigning them nothing still arrive, emptied, and so
+ * do tombstones, so a driver's device drops stops taken off them.
+ */
+export const visibleRecord = (user: User, record: StoredRecord): StoredRecord | null => {
+  if (user.role !== 'driver' || (record.id === user.id && PERSONAL.includes(record.collection))) return record;
+  if (record.collection !== 'manifests') return null;
+  if (record.deleted) return record;
+  const data = record.data as ManifestData;
+  const vehicles = (data.vehicles ?? []).filter(vehicle => vehicle.driverId === user.id);
+  if (vehicles.length === 0) return { ...record, data: { vehicles: [], stops: [] } };
+  const vehicleIds = new Set(vehicles.map(vehicle => vehicle.id));
+  return { ...record, data: { ...data, vehicles, stops: (data.stops ?? []).filter(stop => stop.vehicleId && vehicleIds.has(stop.vehicleId)) } };
+};
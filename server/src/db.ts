@@ -0,0 +1,226 @@
+import Database from 'better-sqlite3';
+
+export const COLLECTIONS = ['customers', 'routes', 'manifests', 'dispatchers', 'runs'] as const;
+export type Collection = typeof COLLECTIONS[number];
+
+export interface StoredRecord {
+  collection: Collection;
+  id: string;
+  /** Bumped on every write; clients send the version they edited as `baseVersion`. */
+  version: number;
+  deleted: boolean;
+  data: unknown;
+  updatedAt: string;
+  updatedBy: string | null;
+  /** Global write sequence, used as the cursor for `/api/changes`. */
+  seq: number;
+}
+
+export type Role = 'admin' | 'dispatcher' | 'driver';
+export const ROLES: Role[] = ['admin', 'dispatcher', 'driver'];
+
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+}
+
+export type WriteResult =
+  | { ok: true; record: StoredRecord }
+  | { ok: false; current: StoredRecord };
+
+interface RecordRow {
+  collection: Collection;
+  id: string;
+  version: number;
+  deleted: number;
+  data: string | null;
+  updated_at: string;
+  updated_by: string | null;
+  seq: number;
+}
+
+/**
+ * Schema migrations tracked through `PRAGMA user_version`; entry `i` upgrades
+ * version `i` to `i + 1`. Shipped entries must never change; append new ones.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE records (
+     collection TEXT NOT NULL,
+     id TEXT NOT NULL,
+     version INTEGER NOT NULL,
+     deleted INTEGER NOT NULL DEFAULT 0,
+     data TEXT,
+     updated_at TEXT NOT NULL,
+     updated_by TEXT,
+     seq INTEGER NOT NULL,
+     PRIMARY KEY (collection, id)
+   );
+   CREATE INDEX records_seq ON records (seq);
+   CREATE TABLE counters (name TEXT PRIMARY KEY, value INTEGER NOT NULL);
+   INSERT INTO counters (name, value) VALUES ('seq', 0);`,
+  `CREATE TABLE users (
+     id TEXT PRIMARY KEY,
+     username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+     name TEXT NOT NULL,
+     role TEXT NOT NULL CHECK (role IN ('admin', 'dispatcher', 'driver')),
+     password_hash TEXT NOT NULL,
+     created_at TEXT NOT NULL
+   );
+   CREATE TABLE sessions (
+     token_hash TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+     expires_at TEXT NOT NULL
+   );
+   CREATE INDEX sessions_user ON sessions (user_id);`
+];
+
+interface UserRow {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  password_hash: string;
+  created_at: string;
+}
+
+const toUser = (row: UserRow): User => ({ id: row.id, username: row.username, name: row.name, role: row.role, createdAt: row.created_at });
+
+const toRecord = (row: RecordRow): StoredRecord => ({
+  collection: row.collection,
+  id: row.id,
+  version: row.version,
+  deleted: row.deleted === 1,
+  data: row.data === null ? null : JSON.parse(row.data),
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+  seq: row.seq
+});
+
+export const isCollection = (value: string): value is Collection => (COLLECTIONS as readonly string[]).includes(value);
+
+export const openStore = (file: string) => {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const migrate = db.transaction(() => {
+    const current = db.pragma('user_version', { simple: true }) as number;
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      db.exec(MIGRATIONS[version]);
+    }
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  });
+  migrate();
+
+  const selectOne = db.prepare<[string, string], RecordRow>('SELECT * FROM records WHERE collection = ? AND id = ?');
+  const selectLive = db.prepare<[string], RecordRow>('SELECT * FROM records WHERE collection = ? AND deleted = 0 ORDER BY updated_at');
+  const selectSince = db.prepare<[number, number], RecordRow>('SELECT * FROM records WHERE seq > ? ORDER BY seq LIMIT ?');
+  const nextSeq = db.prepare<[], { value: number }>("UPDATE counters SET value = value + 1 WHERE name = 'seq' RETURNING value");
+  const currentSeq = db.prepare<[], { value: number }>("SELECT value FROM counters WHERE name = 'seq'");
+  const upsert = db.prepare(`
+    INSERT INTO records (collection, id, version, deleted, data, updated_at, updated_by, seq)
+    VALUES (@collection, @id, @version, @deleted, @data, @updatedAt, @updatedBy, @seq)
+    ON CONFLICT (collection, id) DO UPDATE SET
+      version = excluded.version, deleted = excluded.deleted, data = excluded.data,
+      updated_at = excluded.updated_at, updated_by = excluded.updated_by, seq = excluded.seq`);
+
+  /**
+   * Optimistic concurrency: the write only lands when `baseVersion` matches
+   * the stored version (0 for a record that does not exist yet). Otherwise the
+   * current record is returned so the client can resolve the conflict.
+   */
+  const write = db.transaction((collection: Collection, id: string, baseVersion: number, data: unknown, deleted: boolean, updatedAt: string, updatedBy: string | null): WriteResult => {
+    const existing = selectOne.get(collection, id);
+    // A record the server has never seen cannot conflict, whatever the client last knew.
+    if (existing && existing.version !== baseVersion) return { ok: false, current: toRecord(existing) };
+    const version = existing?.version ?? 0;
+    const row: RecordRow = {
+      collection,
+      id,
+      version: version + 1,
+      deleted: deleted ? 1 : 0,
+      data: deleted ? null : JSON.stringify(data),
+      updated_at: updatedAt,
+      updated_by: updatedBy,
+      seq: nextSeq.get()!.value
+    };
+    upsert.run({ ...row, updatedAt: row.updated_at, updatedBy: row.updated_by });
+    return { ok: true, record: toRecord(row) };
+  });
+
+  const selectUser = db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?');
+  const selectUserByName = db.prepare<[string], UserRow>('SELECT * FROM users WHERE username = ?');
+  const selectUsers = db.prepare<[], UserRow>('SELECT * FROM users ORDER BY name');
+  const countUsers = db.prepare<[], { count: number }>('SELECT COUNT(*) AS count FROM users');
+  const insertUser = db.prepare('INSERT INTO users (id, username, name, role, password_hash, created_at) VALUES (@id, @username, @name, @role, @password_hash, @created_at)');
+  const updateUserRow = db.prepare('UPDATE users SET name = @name, role = @role, password_hash = @password_hash WHERE id = @id');
+  const deleteUserRow = db.prepare<[string]>('DELETE FROM users WHERE id = ?');
+  const insertSession = db.prepare<[string, string, string]>('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)');
+  const selectSession = db.prepare<[string, string], UserRow>(`
+    SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ?`);
+  const deleteSessionRow = db.prepare<[string]>('DELETE FROM sessions WHERE token_hash = ?');
+  const deleteUserSessions = db.prepare<[string]>('DELETE FROM sessions WHERE user_id = ?');
+  const purgeSessions = db.prepare<[string]>('DELETE FROM sessions WHERE expires_at <= ?');
+
+  return {
+    get: (collection: Collection, id: string): StoredRecord | null => {
+      const row = selectOne.get(collection, id);
+      return row && !row.deleted ? toRecord(row) : null;
+    },
+    list: (collection: Collection): StoredRecord[] => selectLive.all(collection).map(toRecord),
+    /**
+     * Everything written after `since`, tombstones included. `cursor` is where
+     * the next page starts, which callers filtering the page still need.
+     */
+    changes: (since: number, limit: number) => {
+      const changes = selectSince.all(since, limit).map(toRecord);
+      return { seq: currentSeq.get()!.value, cursor: changes.length > 0 ? changes[changes.length - 1].seq : since, changes };
+    },
+    put: (collection: Collection, id: string, baseVersion: number, data: unknown, updatedAt: string, updatedBy: string | null) =>
+      write(collection, id, baseVersion, data, false, updatedAt, updatedBy),
+    remove: (collection: Collection, id: string, baseVersion: number, updatedAt: string, updatedBy: string | null) =>
+      write(collection, id, baseVersion, null, true, updatedAt, updatedBy),
+    countUsers: () => countUsers.get()!.count,
+    getUser: (id: string): User | null => {
+      const row = selectUser.get(id);
+      return row ? toUser(row) : null;
+    },
+    listUsers: (): User[] => selectUsers.all().map(toUser),
+    /** The user plus their password hash, for login only. */
+    findCredentials: (username: string): { user: User; passwordHash: string } | null => {
+      const row = selectUserByName.get(username);
+      return row ? { user: toUser(row), passwordHash: row.password_hash } : null;
+    },
+    createUser: (user: Omit<User, 'createdAt'>, passwordHash: string): User => {
+      const row: UserRow = { ...user, password_hash: passwordHash, created_at: new Date().toISOString() };
+      insertUser.run(row);
+      return toUser(row);
+    },
+    /** Changing the password signs the user out everywhere. */
+    updateUser: db.transaction((id: string, changes: { name?: string; role?: Role; passwordHash?: string }): User | null => {
+      const row = selectUser.get(id);
+      if (!row) return null;
+      const next: UserRow = { ...row, name: changes.name ?? row.name, role: changes.role ?? row.role, password_hash: changes.passwordHash ?? row.password_hash };
+      updateUserRow.run(next);
+      if (changes.passwordHash) deleteUserSessions.run(id);
+      return toUser(next);
+    }),
+    deleteUser: (id: string): boolean => deleteUserRow.run(id).changes > 0,
+    createSession: (tokenHash: string, userId: string, expiresAt: string) => {
+      purgeSessions.run(new Date().toISOString());
+      insertSession.run(tokenHash, userId, expiresAt);
+    },
+    findSessionUser: (tokenHash: string): User | null => {
+      const row = selectSession.get(tokenHash, new Date().toISOString());
+      return row ? toUser(row) : null;
+    },
+    deleteSession: (tokenHash: string) => { deleteSessionRow.run(tokenHash); },
+    close: () => db.close()
+  };
+};
+
+export type Store = ReturnType<typeof openStore>;
@@ -0,0 +1,258 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { openStore, isCollection, Store, User, Role, ROLES } from './db.js';
+import { hashPassword, verifyPassword, verifyAgainstDummy, createSessionToken, hashToken, MIN_PASSWORD_LENGTH, SESSION_TTL_MS } from './auth.js';
+import { canWrite, visibleRecord } from './access.js';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DB_FILE = process.env.DB_FILE ?? 'swiftroute.db';
+/** Comma-separated list of allowed browser origins; `*` allows any. */
+const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? '*').split(',').map(o => o.trim());
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const CHANGES_PAGE_SIZE = 500;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public body?: unknown) {
+    super(message);
+  }
+}
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (!origin) return;
+  if (CORS_ORIGINS.includes('*') || CORS_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+};
+
+const baseVersionOf = (value: unknown): number => {
+  const n = Number(value ?? 0);
+  if (!Number.isInteger(n) || n < 0) throw new HttpError(400, 'baseVersion must be a non-negative integer');
+  return n;
+};
+
+const authenticate = (store: Store, req: IncomingMessage): User => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+  const user = match ? store.findSessionUser(hashToken(match[1])) : null;
+  if (!user) throw new HttpError(401, 'Not signed in');
+  return user;
+};
+
+const requireRole = (user: User, ...roles: Role[]) => {
+  if (!roles.includes(user.role)) throw new HttpError(403, 'Forbidden');
+};
+
+const parseRole = (value: unknown): Role => {
+  if (!ROLES.includes(value as Role)) throw new HttpError(400, `role must be one of ${ROLES.join(', ')}`);
+  return value as Role;
+};
+
+const parsePassword = async (value: unknown): Promise<string> => {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) throw new HttpError(400, `password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  return hashPassword(value);
+};
+
+const handleAuth = async (store: Store, req: IncomingMessage, res: ServerResponse, action: string) => {
+  if (action === 'login' && req.method === 'POST') {
+    const { username, password } = await readJson(req);
+    if (typeof username !== 'string' || typeof password !== 'string') throw new HttpError(400, 'username and password are required');
+    const credentials = store.findCredentials(username.trim());
+    const valid = credentials ? await verifyPassword(password, credentials.passwordHash) : await verifyAgainstDummy(password);
+    if (!credentials || !valid) throw new HttpError(401, 'Invalid username or password');
+    const { token, tokenHash } = createSessionToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    store.createSession(tokenHash, credentials.user.id, expiresAt);
+    return send(res, 200, { token, expiresAt, user: credentials.user });
+  }
+  if (action === 'logout' && req.method === 'POST') {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (match) store.deleteSession(hashToken(match[1]));
+    return send(res, 204);
+  }
+  if (action === 'me' && req.method === 'GET') {
+    return send(res, 200, authenticate(store, req));
+  }
+  throw new HttpError(404, 'Not found');
+};
+
+const handleUsers = async (store: Store, req: IncomingMessage, res: ServerResponse, user: User, id?: string) => {
+  if (!id && req.method === 'GET') {
+    // Dispatchers need the driver list to assign vehicles.
+    requireRole(user, 'admin', 'dispatcher');
+    const users = store.listUsers();
+    return send(res, 200, user.role === 'admin' ? users : users.filter(u => u.role === 'driver'));
+  }
+  requireRole(user, 'admin');
+  if (!id && req.method === 'POST') {
+    const body = await readJson(req);
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    if (!username) throw new HttpError(400, 'username is required');
+    if (store.findCredentials(username)) throw new HttpError(409, 'Username is taken');
+    const created = store.createUser({ id: randomUUID(), username, name: String(body.name ?? '').trim() || username, role: parseRole(body.role) }, await parsePassword(body.password));
+    return send(res, 201, created);
+  }
+  if (id && req.method === 'PUT') {
+    const body = await readJson(req);
+    if (id === user.id && body.role !== undefined && body.role !== 'admin') throw new HttpError(400, 'You cannot remove your own admin role');
+    const updated = store.updateUser(id, {
+      name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : undefined,
+      role: body.role === undefined ? undefined : parseRole(body.role),
+      passwordHash: body.password === undefined ? undefined : await parsePassword(body.password)
+    });
+    if (!updated) throw new HttpError(404, 'Not found');
+    return send(res, 200, updated);
+  }
+  if (id && req.method === 'DELETE') {
+    if (id === user.id) throw new HttpError(400, 'You cannot delete your own account');
+    if (!store.deleteUser(id)) throw new HttpError(404, 'Not found');
+    return send(res, 204);
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+/**
+ * REST surface:
+ *   GET    /api/health
+ *   POST   /api/auth/login        { username, password } -> { token, expiresAt, user }
+ *   POST   /api/auth/logout
+ *   GET    /api/auth/me
+ *   GET    /api/users             admins: everyone, dispatchers: drivers
+ *   POST   /api/users             { username, name, role, password }   (admin)
+ *   PUT    /api/users/:id         { name?, role?, password? }          (admin)
+ *   DELETE /api/users/:id                                              (admin)
+ *   GET    /api/changes?since=<seq>
+ *   GET    /api/:collection
+ *   GET    /api/:collection/:id
+ *   PUT    /api/:collection/:id   { data, baseVersion, updatedAt? }
+ *   DELETE /api/:collection/:id?baseVersion=<n>
+ * Everything but health and login needs `Authorization: Bearer <token>`.
+ * Writes answer 409 with `{ error, current }` when `baseVersion` is stale.
+ */
+const handle = async (store: Store, req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+
+  if (parts.length === 2 && parts[1] === 'health' && req.method === 'GET') {
+    return send(res, 200, { ok: true });
+  }
+
+  if (parts.length === 3 && parts[1] === 'auth') return handleAuth(store, req, res, parts[2]);
+
+  const user = authenticate(store, req);
+
+  if (parts[1] === 'users' && parts.length <= 3) return handleUsers(store, req, res, user, parts[2]);
+
+  if (parts.length === 2 && parts[1] === 'changes' && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isFinite(since)) throw new HttpError(400, 'since must be a number');
+    const page = store.changes(since, CHANGES_PAGE_SIZE);
+    return send(res, 200, { ...page, changes: page.changes.map(record => visibleRecord(user, record)).filter(Boolean) });
+  }
+
+  const [, collection, id] = parts;
+  if (!collection || !isCollection(collection) || parts.length > 3) throw new HttpError(404, 'Not found');
+
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    return send(res, 200, store.list(collection).map(record => visibleRecord(user, record)).filter(Boolean));
+  }
+
+  switch (req.method) {
+    case 'GET': {
+      const record = store.get(collection, id);
+      const visible = record && visibleRecord(user, record);
+      if (!visible) throw new HttpError(404, 'Not found');
+      return send(res, 200, visible);
+    }
+    case 'PUT': {
+      if (!canWrite(user, collection, id)) throw new HttpError(403, 'Forbidden');
+      const body = await readJson(req);
+      if (body.data === undefined) throw new HttpError(400, 'data is required');
+      const result = store.put(collection, id, baseVersionOf(body.baseVersion), body.data, body.updatedAt ?? new Date().toISOString(), user.id);
+      if (!result.ok) throw new HttpError(409, 'Version conflict', { current: result.current });
+      return send(res, 200, result.record);
+    }
+    case 'DELETE': {
+      if (!canWrite(user, collection, id)) throw new HttpError(403, 'Forbidden');
+      const result = store.remove(collection, id, baseVersionOf(url.searchParams.get('baseVersion')), new Date().toISOString(), user.id);
+      if (!result.ok) throw new HttpError(409, 'Version conflict', { current: result.current });
+      return send(res, 200, result.record);
+    }
+    default:
+      throw new HttpError(405, 'Method not allowed');
+  }
+};
+
+const store = openStore(DB_FILE);
+
+/** Seeds the first admin from ADMIN_USERNAME / ADMIN_PASSWORD on an empty database. */
+const bootstrapAdmin = async () => {
+  if (store.countUsers() > 0) return;
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn('No accounts yet; set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.');
+    return;
+  }
+  store.createUser({ id: randomUUID(), username, name: username, role: 'admin' }, await parsePassword(password));
+  console.log(`Created admin account "${username}"`);
+};
+
+const server = createServer((req, res) => {
+  applyCors(req, res);
+  if (req.method === 'OPTIONS') return send(res, 204);
+  handle(store, req, res).catch(error => {
+    if (error instanceof HttpError) {
+      send(res, error.status, { error: error.message, ...(error.body as object) });
+    } else {
+      console.error(error);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  });
+});
+
+bootstrapAdmin()
+  .then(() => server.listen(PORT, () => console.log(`SwiftRoute sync server listening on :${PORT} (${DB_FILE})`)))
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+
+const shutdown = () => server.close(() => {
+  store.close();
+  process.exit(0);
+});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
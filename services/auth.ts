@@ -0,0 +1,70 @@
+export type Role = 'admin' | 'dispatcher' | 'driver';
+
+export const ROLES: Role[] = ['admin', 'dispatcher', 'driver'];
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export interface AuthSession {
+  serverUrl: string;
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+export type Permission = 'editDirectory' | 'deleteTemplates' | 'manageFleet' | 'shareRuns' | 'manageUsers';
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['editDirectory', 'deleteTemplates', 'manageFleet', 'shareRuns', 'manageUsers'],
+  dispatcher: ['editDirectory', 'deleteTemplates', 'manageFleet', 'shareRuns'],
+  driver: []
+};
+
+/** Mirrors the server's rules so the UI hides what would be rejected anyway. */
+export const can = (role: Role, permission: Permission) => PERMISSIONS[role].includes(permission);
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const api = async <T>(serverUrl: string, path: string, init: RequestInit & { token?: string } = {}): Promise<T> => {
+  const { token, ...options } = init;
+  const response = await fetch(`${serverUrl.replace(/\/+$/, '')}/api${path}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, body.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const isSessionExpired = (session: AuthSession) => Date.parse(session.expiresAt) <= Date.now();
+
+export const login = async (serverUrl: string, username: string, password: string): Promise<AuthSession> => {
+  const result = await api<Omit<AuthSession, 'serverUrl'>>(serverUrl, '/auth/login', { method: 'POST', body: JSON.stringify({ username, password }) });
+  return { serverUrl, ...result };
+};
+
+export const logout = (session: AuthSession) => api<void>(session.serverUrl, '/auth/logout', { method: 'POST', token: session.token });
+
+export const fetchCurrentUser = (session: AuthSession) => api<AuthUser>(session.serverUrl, '/auth/me', { token: session.token });
+
+/** Admins get every account, dispatchers only drivers. */
+export const listUsers = (session: AuthSession) => api<AuthUser[]>(session.serverUrl, '/users', { token: session.token });
+
+export const createUser = (session: AuthSession, user: Omit<AuthUser, 'id'> & { password: string }) =>
+  api<AuthUser>(session.serverUrl, '/users', { method: 'POST', body: JSON.stringify(user), token: session.token });
+
+export const updateUser = (session: AuthSession, id: string, changes: { name?: string; role?: Role; password?: string }) =>
+  api<AuthUser>(session.serverUrl, `/users/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(changes), token: session.token });
+
+export const deleteUser = (session: AuthSession, id: string) =>
+  api<void>(session.serverUrl, `/users/${encodeURIComponent(id)}`, { method: 'DELETE', token: session.token });
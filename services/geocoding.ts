@@ -0,0 +1,173 @@
+import { GeocodingResult } from '../types';
+import { parseAddress } from './geminiService';
+import { parseCsvRecords } from '../utils/csv';
+
+/** Results come back best match first; an empty list means nothing was found. */
+export interface Geocoder {
+  id: string;
+  geocode: (query: string) => Promise<GeocodingResult[]>;
+}
+
+export type GeocoderProvider = 'gemini' | 'nominatim' | 'gazetteer';
+
+export interface GazetteerEntry {
+  name?: string;
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+export interface GeocoderSettings {
+  provider: GeocoderProvider;
+  nominatimUrl: string;
+  /** Matches below this confidence are flagged and need confirmation. */
+  minConfidence: number;
+  gazetteer: GazetteerEntry[];
+}
+
+export const DEFAULT_GEOCODER_SETTINGS: GeocoderSettings = {
+  provider: 'gemini',
+  nominatimUrl: 'https://nominatim.openstreetmap.org',
+  minConfidence: 0.6,
+  gazetteer: []
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const tokens = (value: string) => new Set(normalize(value).split(' ').filter(Boolean));
+
+// Dice coefficient over word tokens: 1 for identical sets, 0 for disjoint ones.
+const tokenSimilarity = (a: string, b: string): number => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(token => { if (tb.has(token)) shared++; });
+  return (2 * shared) / (ta.size + tb.size);
+};
+
+// Share of the query's tokens found in `candidate`; long display names are not penalised.
+const tokenCoverage = (query: string, candidate: string): number => {
+  const tq = tokens(query);
+  const tc = tokens(candidate);
+  if (tq.size === 0) return 0;
+  let found = 0;
+  tq.forEach(token => { if (tc.has(token)) found++; });
+  return found / tq.size;
+};
+
+/**
+ * Splits "Jane Smith, 12 Oak Ave" or "Jane Smith - 12 Oak Ave" into a name and
+ * an address when the leading part contains no digits. Providers other than the
+ * LLM parser only see the address.
+ */
+export const splitNameAndAddress = (input: string): { customerName?: string; address: string } => {
+  const match = input.match(/^\s*([^,\d]+?)\s*(?:,|\s-\s)\s*(.+)$/);
+  if (match && /\d/.test(match[2])) {
+    return { customerName: match[1], address: match[2].trim() };
+  }
+  return { address: input.trim() };
+};
+
+export const parseGazetteer = (text: string, format: 'csv' | 'json'): GazetteerEntry[] => {
+  const records: Record<string, unknown>[] = format === 'json' ? JSON.parse(text) : parseCsvRecords(text);
+  return records
+    .map(record => ({
+      name: record.name ? String(record.name) : undefined,
+      address: String(record.address ?? ''),
+      lat: Number(record.lat ?? record.latitude),
+      lng: Number(record.lng ?? record.lon ?? record.longitude)
+    }))
+    .filter(entry => entry.address && Number.isFinite(entry.lat) && Number.isFinite(entry.lng));
+};
+
+export const createGazetteerGeocoder = (entries: GazetteerEntry[]): Geocoder => ({
+  id: 'gazetteer',
+  geocode: async (query) => {
+    const { customerName, address } = splitNameAndAddress(query);
+    return entries
+      .map(entry => {
+        const score = Math.max(
+          tokenSimilarity(address, entry.address),
+          entry.name ? tokenSimilarity(query, `${entry.name} ${entry.address}`) : 0
+        );
+        return {
+          customerName: customerName ?? entry.name,
+          address: entry.address,
+          coords: { lat: entry.lat, lng: entry.lng },
+          confidence: score,
+          provider: 'gazetteer'
+        };
+      })
+      .filter(result => result.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 5);
+  }
+});
+
+/** Any service speaking the Nominatim `/search?format=jsonv2` API, e.g. a self-hosted instance. */
+export const createNominatimGeocoder = (baseUrl: string): Geocoder => ({
+  id: 'nominatim',
+  geocode: async (query) => {
+    const { customerName, address } = splitNameAndAddress(query);
+    const url = `${baseUrl.replace(/\/+$/, '')}/search?format=jsonv2&limit=5&q=${encodeURIComponent(address)}`;
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) throw new Error(`Nominatim request failed with status ${response.status}`);
+    const places: { display_name: string; lat: string; lon: string; place_rank?: number }[] = await response.json();
+    // Ranks run up to 30 for a building; a street (26) or a whole town (16) is a coarser answer.
+    return places
+      .map(place => ({
+        customerName,
+        address: place.display_name,
+        coords: { lat: Number(place.lat), lng: Number(place.lon) },
+        confidence: tokenCoverage(address, place.display_name) * Math.min(1, (place.place_rank ?? 30) / 30),
+        provider: 'nominatim'
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+});
+
+export const geminiGeocoder: Geocoder = {
+  id: 'gemini',
+  geocode: async (query) => {
+    const result = await parseAddress(query);
+    return result ? [result] : [];
+  }
+};
+
+/**
+ * Tries each geocoder in turn and returns the first confident list. Failing or
+ * unsure providers fall through; if none is confident the best guess overall
+ * is returned so the caller can flag it.
+ */
+export const createChainGeocoder = (geocoders: Geocoder[], minConfidence: number): Geocoder => ({
+  id: geocoders.map(g => g.id).join('+'),
+  geocode: async (query) => {
+    const candidates: GeocodingResult[] = [];
+    let lastError: unknown = null;
+    for (const geocoder of geocoders) {
+      try {
+        const results = await geocoder.geocode(query);
+        if (results.length > 0 && results[0].confidence >= minConfidence) return results;
+        candidates.push(...results);
+      } catch (e) {
+        lastError = e;
+      }
+    }
+    if (candidates.length === 0 && lastError) throw lastError;
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+  }
+});
+
+/** The configured provider, with the local gazetteer as offline fallback when one is loaded. */
+export const createGeocoder = (settings: GeocoderSettings): Geocoder => {
+  const gazetteer = settings.gazetteer.length > 0 ? createGazetteerGeocoder(settings.gazetteer) : null;
+  const primary = settings.provider === 'nominatim'
+    ? createNominatimGeocoder(settings.nominatimUrl)
+    : settings.provider === 'gazetteer'
+      ? gazetteer
+      : geminiGeocoder;
+  const chain = [primary, gazetteer].filter((g, i, all): g is Geocoder => !!g && all.indexOf(g) === i);
+  return createChainGeocoder(chain, settings.minConfidence);
+};
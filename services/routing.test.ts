@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Coordinate } from '../types';
+import { createRouter } from './routing';
+
+const writeMeta = vi.hoisted(() => vi.fn(async () => {}));
+
+vi.mock('./storage', () => ({
+  readMeta: async () => undefined,
+  writeMeta
+}));
+
+const point = (i: number): Coordinate => ({ lat: 0, lng: i / 1000 });
+
+/** An OSRM table endpoint where every leg is 1 km, except those into `unroutable` points. */
+const osrmTable = (unroutable: Coordinate[] = []) => {
+  const blocked = new Set(unroutable.map(p => `${p.lng},${p.lat}`));
+  const fetch = vi.fn(async (url: string) => {
+    const { pathname, searchParams } = new URL(url);
+    const points = pathname.split('/').pop()!.split(';');
+    const indices = (name: string) => searchParams.get(name)!.split(';').map(Number);
+    const cells = (value: number) => indices('sources').map(() => indices('destinations').map(j => (blocked.has(points[j]) ? null : value)));
+    return Response.json({ code: 'Ok', distances: cells(1000), durations: cells(120) });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const router = () => createRouter({ provider: 'osrm', url: 'http://osrm.test', profile: 'driving' })!;
+
+describe('leg cache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    writeMeta.mockClear();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('answers repeated lookups without asking the backend again', async () => {
+    const fetch = osrmTable();
+    const routing = router();
+    expect(await routing.prefetchMatrix([point(0), point(1)])).toBe(true);
+    expect(await routing.prefetchMatrix([point(1), point(0)])).toBe(false);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(routing.leg(point(0), point(1))).toEqual({ distanceKm: 1, durationMinutes: 2 });
+    expect(routing.model.distance(point(1), point(0))).toBe(1);
+  });
+
+  it('remembers unroutable pairs for a while', async () => {
+    const fetch = osrmTable([point(9)]);
+    const routing = router();
+    await routing.prefetchMatrix([point(0), point(9)]);
+    expect(routing.leg(point(0), point(9))).toBeUndefined();
+    await routing.prefetchMatrix([point(0), point(9)]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(11 * 60_000);
+    await routing.prefetchMatrix([point(0), point(9)]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops the stalest legs beyond its size limit', async () => {
+    osrmTable();
+    const routing = router();
+    // 72 points make 5184 legs, a little over the limit of 5000.
+    const points = Array.from({ length: 72 }, (_, i) => point(i));
+    await routing.prefetchMatrix(points);
+    expect(routing.leg(points[0], points[1])).toBeUndefined();
+    expect(routing.leg(points[71], points[70])).toBeDefined();
+  });
+
+  it('writes the cache once per burst of fetches', async () => {
+    osrmTable();
+    const routing = router();
+    await routing.prefetchMatrix([point(0), point(1)]);
+    await routing.prefetchMatrix([point(2), point(3)]);
+    expect(writeMeta).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(2000);
+    expect(writeMeta).toHaveBeenCalledTimes(1);
+    expect(writeMeta.mock.calls[0]).toMatchObject(['routeLegs', { legs: expect.arrayContaining([expect.any(Array)]) }]);
+  });
+});
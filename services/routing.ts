@@ -0,0 +1,258 @@
+import { Coordinate } from '../types';
+import { DistanceModel, haversineDistance } from '../utils/distance';
+import { readMeta, writeMeta } from './storage';
+
+export type RoutingProvider = 'none' | 'osrm' | 'valhalla';
+
+export interface RoutingSettings {
+  provider: RoutingProvider;
+  url: string;
+  /** OSRM profile (e.g. `driving`) or Valhalla costing (e.g. `auto`). */
+  profile: string;
+}
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  provider: 'none',
+  url: 'http://localhost:5000',
+  profile: 'driving'
+};
+
+export const DEFAULT_ROUTING_PROFILES: Record<Exclude<RoutingProvider, 'none'>, string> = {
+  osrm: 'driving',
+  valhalla: 'auto'
+};
+
+export interface RouteLeg {
+  distanceKm: number;
+  /** Free-flow driving time as reported by the backend. */
+  durationMinutes: number;
+  /** Road polyline from start to end; legs that only came from a matrix lookup have none. */
+  geometry?: Coordinate[];
+}
+
+/** Raw access to a routing service; `createRouter` adds caching and the fallback on top. */
+export interface RoutingBackend {
+  /** Legs from each source to each target, `null` where no road connects them. */
+  table: (sources: Coordinate[], targets: Coordinate[]) => Promise<(RouteLeg | null)[][]>;
+  /** One leg per consecutive pair of waypoints. */
+  route: (waypoints: Coordinate[]) => Promise<RouteLeg[]>;
+}
+
+export interface Router {
+  id: string;
+  /** Fills in road legs between every pair of points. Resolves true when anything new was fetched. */
+  prefetchMatrix: (points: Coordinate[]) => Promise<boolean>;
+  /** Fills in road geometry along each chain of waypoints. Resolves true when anything new was fetched. */
+  prefetchRoutes: (chains: Coordinate[][]) => Promise<boolean>;
+  leg: (a: Coordinate, b: Coordinate) => RouteLeg | undefined;
+  /** Cached road figures where known, great-circle distance otherwise. */
+  model: DistanceModel;
+}
+
+const CACHE_KEY = 'routeLegs';
+const MAX_CACHED_LEGS = 5000;
+// Pairs without a road are asked about again after this long, in case the backend's data changed.
+const UNROUTABLE_TTL_MS = 10 * 60_000;
+// Writes to the cache blob are coalesced over this window.
+const PERSIST_DELAY_MS = 2000;
+// Stock OSRM servers accept at most 100 coordinates per table request.
+const TABLE_BLOCK = 50;
+const ROUTE_BLOCK = 50;
+
+const pointKey = ({ lat, lng }: Coordinate) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+const legKey = (a: Coordinate, b: Coordinate) => `${pointKey(a)}>${pointKey(b)}`;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+const requestJson = async (url: string, body?: unknown) => {
+  const response = await fetch(url, body === undefined
+    ? { headers: { Accept: 'application/json' } }
+    : { method: 'POST', headers: { Accept: 'application/json', 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  if (!response.ok) throw new Error(`Routing request failed with status ${response.status}`);
+  return response.json();
+};
+
+// Google's encoded polyline format; Valhalla uses six decimal places instead of five.
+const decodePolyline = (encoded: string, precision: number): Coordinate[] => {
+  const factor = 10 ** precision;
+  const points: Coordinate[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push({ lat: lat / factor, lng: lng / factor });
+  }
+  return points;
+};
+
+/** Any service speaking the OSRM HTTP API (`/table/v1`, `/route/v1`), e.g. a local osrm-routed. */
+export const createOsrmBackend = (baseUrl: string, profile: string): RoutingBackend => {
+  const base = baseUrl.replace(/\/+$/, '');
+  const path = (points: Coordinate[]) => points.map(p => `${p.lng},${p.lat}`).join(';');
+  const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i).join(';');
+  return {
+    table: async (sources, targets) => {
+      const query = `sources=${range(0, sources.length)}&destinations=${range(sources.length, targets.length)}&annotations=distance,duration`;
+      const body: { code: string; distances: (number | null)[][]; durations: (number | null)[][] } =
+        await requestJson(`${base}/table/v1/${profile}/${path([...sources, ...targets])}?${query}`);
+      if (body.code !== 'Ok') throw new Error(`OSRM table request failed: ${body.code}`);
+      return body.distances.map((row, i) => row.map((meters, j) => {
+        const seconds = body.durations[i][j];
+        return meters === null || seconds === null ? null : { distanceKm: meters / 1000, durationMinutes: seconds / 60 };
+      }));
+    },
+    route: async (waypoints) => {
+      const body: { code: string; routes: { legs: { distance: number; duration: number; steps: { geometry: { coordinates: [number, number][] } }[] }[] }[] } =
+        await requestJson(`${base}/route/v1/${profile}/${path(waypoints)}?overview=false&steps=true&geometries=geojson`);
+      if (body.code !== 'Ok') throw new Error(`OSRM route request failed: ${body.code}`);
+      return body.routes[0].legs.map(leg => ({
+        distanceKm: leg.distance / 1000,
+        durationMinutes: leg.duration / 60,
+        // Each step starts where the previous one ended; drop the repeated vertex.
+        geometry: leg.steps
+          .flatMap((step, i) => step.geometry.coordinates.slice(i === 0 ? 0 : 1))
+          .map(([lng, lat]) => ({ lat, lng }))
+      }));
+    }
+  };
+};
+
+/** Valhalla's `/sources_to_targets` and `/route` JSON APIs. */
+export const createValhallaBackend = (baseUrl: string, costing: string): RoutingBackend => {
+  const base = baseUrl.replace(/\/+$/, '');
+  const locations = (points: Coordinate[]) => points.map(p => ({ lat: p.lat, lon: p.lng }));
+  return {
+    table: async (sources, targets) => {
+      const body: { sources_to_targets: { distance: number | null; time: number | null }[][] } =
+        await requestJson(`${base}/sources_to_targets`, { sources: locations(sources), targets: locations(targets), costing, units: 'kilometers' });
+      return body.sources_to_targets.map(row => row.map(cell =>
+        cell.distance === null || cell.time === null ? null : { distanceKm: cell.distance, durationMinutes: cell.time / 60 }
+      ));
+    },
+    route: async (waypoints) => {
+      const body: { trip: { legs: { shape: string; summary: { length: number; time: number } }[] } } =
+        await requestJson(`${base}/route`, { locations: locations(waypoints), costing, units: 'kilometers', directions_type: 'none' });
+      return body.trip.legs.map(leg => ({
+        distanceKm: leg.summary.length,
+        durationMinutes: leg.summary.time / 60,
+        geometry: decodePolyline(leg.shape, 6)
+      }));
+    }
+  };
+};
+
+/**
+ * The configured routing service behind a leg cache that survives reloads.
+ * Returns null when routing is off, leaving straight lines and great-circle distances.
+ */
+export const createRouter = (settings: RoutingSettings): Router | null => {
+  if (settings.provider === 'none' || !settings.url.trim()) return null;
+  const backend = settings.provider === 'valhalla'
+    ? createValhallaBackend(settings.url, settings.profile)
+    : createOsrmBackend(settings.url, settings.profile);
+  const id = `${settings.provider}:${settings.url}:${settings.profile}`;
+  const legs = new Map<string, RouteLeg>();
+  // Expiry times of pairs the backend found no road between; kept in memory only.
+  const unroutable = new Map<string, number>();
+
+  let hydrated: Promise<void> | null = null;
+  const hydrate = () => hydrated ??= readMeta<{ id: string; legs: [string, RouteLeg][] }>(CACHE_KEY)
+    .then(saved => {
+      if (saved?.id === id) saved.legs.forEach(([key, leg]) => { if (!legs.has(key)) legs.set(key, leg); });
+    })
+    .catch(() => {});
+
+  // Maps iterate in insertion order, so re-inserting on write makes the first key the stalest.
+  const store = (key: string, leg: RouteLeg) => {
+    legs.delete(key);
+    legs.set(key, leg);
+    if (legs.size > MAX_CACHED_LEGS) legs.delete(legs.keys().next().value);
+    unroutable.delete(key);
+  };
+
+  const storeUnroutable = (key: string) => {
+    unroutable.delete(key);
+    unroutable.set(key, Date.now() + UNROUTABLE_TTL_MS);
+    if (unroutable.size > MAX_CACHED_LEGS) unroutable.delete(unroutable.keys().next().value);
+  };
+
+  const isKnown = (key: string) => {
+    if (legs.has(key)) return true;
+    const expires = unroutable.get(key);
+    if (expires === undefined) return false;
+    if (expires > Date.now()) return true;
+    unroutable.delete(key);
+    return false;
+  };
+
+  let persistTimer: ReturnType<typeof setTimeout> | undefined;
+  const persist = () => {
+    clearTimeout(persistTimer);
+    persistTimer = setTimeout(() => writeMeta(CACHE_KEY, { id, legs: [...legs] }).catch(() => {}), PERSIST_DELAY_MS);
+  };
+
+  const model: DistanceModel = {
+    id,
+    distance: (a, b) => legs.get(legKey(a, b))?.distanceKm ?? haversineDistance(a, b),
+    matrix: (points) => points.map(a => points.map(b => model.distance(a, b))),
+    duration: (a, b) => legs.get(legKey(a, b))?.durationMinutes
+  };
+
+  return {
+    id,
+    model,
+    leg: (a, b) => legs.get(legKey(a, b)),
+    prefetchMatrix: async (points) => {
+      await hydrate();
+      const unique = [...new Map(points.map(p => [pointKey(p), p])).values()];
+      const blocks = chunk(unique, TABLE_BLOCK);
+      let changed = false;
+      for (const sources of blocks) {
+        for (const targets of blocks) {
+          if (sources.every(a => targets.every(b => a === b || isKnown(legKey(a, b))))) continue;
+          const rows = await backend.table(sources, targets);
+          rows.forEach((row, i) => row.forEach((leg, j) => {
+            const key = legKey(sources[i], targets[j]);
+            if (!leg) storeUnroutable(key);
+            // A routed leg already carries the same figures plus its geometry.
+            else if (!legs.get(key)?.geometry) store(key, leg);
+          }));
+          changed = true;
+        }
+      }
+      if (changed) persist();
+      return changed;
+    },
+    prefetchRoutes: async (chains) => {
+      await hydrate();
+      let changed = false;
+      for (const chain of chains) {
+        // Consecutive requests share their boundary waypoint so no leg falls between them.
+        for (let start = 0; start < chain.length - 1; start += ROUTE_BLOCK - 1) {
+          const waypoints = chain.slice(start, start + ROUTE_BLOCK);
+          if (waypoints.slice(1).every((b, i) => legs.get(legKey(waypoints[i], b))?.geometry)) continue;
+          const routed = await backend.route(waypoints);
+          routed.forEach((leg, i) => store(legKey(waypoints[i], waypoints[i + 1]), leg));
+          changed = true;
+        }
+      }
+      if (changed) persist();
+      return changed;
+    }
+  };
+};
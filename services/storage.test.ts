@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { legacyToState } from './storage';
+
+describe('legacyToState', () => {
+  it('maps the v2 localStorage blob onto the stores', () => {
+    const stop = { id: 's1', address: 'Main St 1', customerName: 'Ada', priority: 'high', coords: { lat: 1, lng: 2 } };
+    const state = legacyToState({
+      stops: [stop],
+      savedCustomers: [{ id: 'c1' }],
+      savedRoutes: [{ id: 'r1' }],
+      runHistory: [{ id: 'run1' }],
+      lang: 'de',
+      darkMode: true
+    });
+    expect(state.stops).toEqual([stop]);
+    expect(state.customers).toEqual([{ id: 'c1' }]);
+    expect(state.routes).toEqual([{ id: 'r1' }]);
+    expect(state.history).toEqual([{ id: 'run1' }]);
+    expect(state.settings).toEqual({ lang: 'de', darkMode: true });
+  });
+
+  it('starts empty without a blob', () => {
+    expect(legacyToState(null)).toEqual({ stops: [], customers: [], routes: [], history: [], settings: {} });
+  });
+
+  it('drops collections that are not lists', () => {
+    const state = legacyToState({ stops: 'broken', savedCustomers: { id: 'c1' } });
+    expect(state.stops).toEqual([]);
+    expect(state.customers).toEqual([]);
+  });
+});
@@ -0,0 +1,314 @@
+import { DeliveryStop, Customer, SavedRoute, RouteRun, Vehicle, Coordinate, Depot, RouteEnd } from '../types';
+import { GeocoderSettings } from './geocoding';
+import { SyncSettings } from './syncClient';
+import { RoutingSettings } from './routing';
+import { DistanceUnit } from '../utils/distance';
+import { TileSettings } from '../utils/tiles';
+import { Language } from '../translations';
+
+export const DB_NAME = 'swiftroute';
+export const LEGACY_STORAGE_KEY = 'swiftroute_v2_state';
+/** The v2 blob is kept under this key after import instead of being deleted. */
+export const LEGACY_BACKUP_KEY = 'swiftroute_v2_state_migrated';
+export const BACKUP_FORMAT = 'swiftroute-backup';
+
+export type CollectionName = 'stops' | 'customers' | 'routes' | 'history';
+
+export interface AppSettings {
+  vehicles?: Vehicle[];
+  activeRun?: Omit<RouteRun, 'stops'> | null;
+  aiSummary?: string | null;
+  lastUpdated?: string;
+  depotLocation?: Coordinate;
+  depots?: Depot[];
+  depotId?: string | null;
+  routeEnd?: RouteEnd;
+  lang?: Language;
+  theme?: 'light' | 'dark';
+  distanceUnit?: DistanceUnit;
+  useSystemTime?: boolean;
+  useAiNarrative?: boolean;
+  isAutoRefreshEnabled?: boolean;
+  refreshIntervalMinutes?: number;
+  geocoderSettings?: GeocoderSettings;
+  syncSettings?: SyncSettings;
+  tileSettings?: TileSettings;
+  routingSettings?: RoutingSettings;
+  canvasThreshold?: number;
+  templatesLoadedOn?: string | null;
+}
+
+export interface PersistedState {
+  stops: DeliveryStop[];
+  customers: Customer[];
+  routes: SavedRoute[];
+  history: RouteRun[];
+  settings: AppSettings;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+const COLLECTIONS: CollectionName[] = ['stops', 'customers', 'routes', 'history'];
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox';
+const SETTINGS_KEY = 'settings';
+/** Meta keys holding each account's sync cursor and known server versions. */
+export const SYNC_STATE_PREFIX = 'syncState:';
+
+/** Maps the single localStorage blob used up to v2 onto the store layout. */
+export const legacyToState = (blob: unknown): PersistedState => {
+  const source: Record<string, unknown> = typeof blob === 'object' && blob !== null && !Array.isArray(blob) ? { ...blob } : {};
+  const { stops, savedCustomers, savedRoutes, runHistory, ...settings } = source;
+  const list = <T>(value: unknown): T[] => Array.isArray(value) ? value : [];
+  return {
+    stops: list(stops),
+    customers: list(savedCustomers),
+    routes: list(savedRoutes),
+    history: list(runHistory),
+    // The remaining keys of the v2 blob were the settings.
+    settings: settings as AppSettings
+  };
+};
+
+const writeState = (tx: IDBTransaction, state: PersistedState) => {
+  state.stops.forEach((stop, sequence) => tx.objectStore('stops').put({ ...stop, sequence }));
+  state.customers.forEach(customer => tx.objectStore('customers').put(customer));
+  state.routes.forEach(route => tx.objectStore('routes').put(route));
+  state.history.forEach(run => tx.objectStore('history').put(run));
+  tx.objectStore(META_STORE).put(state.settings, SETTINGS_KEY);
+};
+
+/**
+ * Schema migrations; entry `i` upgrades version `i` to `i + 1` inside the
+ * upgrade transaction. Shipped entries must never change; append new ones.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db, tx) => {
+    db.createObjectStore('stops', { keyPath: 'id' }).createIndex('sequence', 'sequence');
+    db.createObjectStore('customers', { keyPath: 'id' }).createIndex('name', 'name');
+    db.createObjectStore('routes', { keyPath: 'id' });
+    db.createObjectStore('history', { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+    db.createObjectStore(META_STORE);
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return;
+    try {
+      writeState(tx, legacyToState(JSON.parse(legacy)));
+      tx.addEventListener('complete', () => {
+        localStorage.setItem(LEGACY_BACKUP_KEY, legacy);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      });
+    } catch (e) {
+      // Unreadable blob: leave it in localStorage and keep a copy in the database.
+      console.error("Legacy state could not be imported", e);
+      tx.objectStore(META_STORE).put(legacy, 'legacyRaw');
+    }
+  },
+  db => {
+    db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' }).createIndex('queuedAt', 'queuedAt');
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](req.result, req.transaction!);
+        }
+      };
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab upgraded the schema; let it proceed and reopen on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => console.warn("Database upgrade is waiting for other tabs to close");
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Last value written per record, serialized, so saves only touch what changed.
+const written: Record<CollectionName, Map<string, string>> = {
+  stops: new Map(),
+  customers: new Map(),
+  routes: new Map(),
+  history: new Map()
+};
+
+const rememberWritten = (state: PersistedState) => {
+  COLLECTIONS.forEach(name => written[name].clear());
+  state.stops.forEach((stop, sequence) => written.stops.set(stop.id, JSON.stringify({ ...stop, sequence })));
+  state.customers.forEach(c => written.customers.set(c.id, JSON.stringify(c)));
+  state.routes.forEach(r => written.routes.set(r.id, JSON.stringify(r)));
+  state.history.forEach(r => written.history.set(r.id, JSON.stringify(r)));
+};
+
+export const loadState = async (): Promise<PersistedState> => {
+  const db = await openDb();
+  const tx = db.transaction([...COLLECTIONS, META_STORE], 'readonly');
+  const [stops, customers, routes, history, settings] = await Promise.all([
+    request(tx.objectStore('stops').index('sequence').getAll()),
+    request(tx.objectStore('customers').getAll()),
+    request(tx.objectStore('routes').getAll()),
+    request(tx.objectStore('history').index('startedAt').getAll()),
+    request(tx.objectStore(META_STORE).get(SETTINGS_KEY))
+  ]);
+  const state: PersistedState = {
+    stops: stops.map(({ sequence, ...stop }) => stop),
+    customers,
+    routes,
+    history,
+    settings: settings ?? {}
+  };
+  rememberWritten(state);
+  return state;
+};
+
+/** Writes the differences between `records` and what was last stored. */
+export const saveCollection = async (name: CollectionName, records: { id: string }[]): Promise<void> => {
+  const rows = name === 'stops' ? records.map((record, sequence) => ({ ...record, sequence })) : records;
+  const previous = written[name];
+  const puts = rows.filter(row => previous.get(row.id) !== JSON.stringify(row));
+  const keep = new Set(rows.map(row => row.id));
+  const deletes = Array.from(previous.keys()).filter(id => !keep.has(id));
+  if (puts.length === 0 && deletes.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  puts.forEach(row => store.put(row));
+  deletes.forEach(id => store.delete(id));
+  await transactionDone(tx);
+
+  puts.forEach(row => previous.set(row.id, JSON.stringify(row)));
+  deletes.forEach(id => previous.delete(id));
+};
+
+export const readMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  return request(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+};
+
+export const writeMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+/** Pending sync operations, oldest first. Entries share a key per record, so a newer edit replaces an older one. */
+export const readOutbox = async <T extends { key: string }>(): Promise<T[]> => {
+  const db = await openDb();
+  return request(db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).index('queuedAt').getAll());
+};
+
+export const updateOutbox = async (puts: { key: string; queuedAt: number }[], deletes: string[] = []): Promise<void> => {
+  if (puts.length === 0 && deletes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  puts.forEach(entry => store.put(entry));
+  deletes.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+/** Drops an outbox entry unless it was replaced by a newer edit in the meantime. */
+export const settleOutbox = async (key: string, queuedAt: number): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  const entry = await request(store.get(key));
+  if (entry?.queuedAt === queuedAt) store.delete(key);
+  await transactionDone(tx);
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(settings, SETTINGS_KEY);
+  await transactionDone(tx);
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+};
+
+/** Asks the browser not to evict our data under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+export const createBackup = async (): Promise<string> => JSON.stringify({
+  format: BACKUP_FORMAT,
+  schemaVersion: DB_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: await loadState()
+}, null, 2);
+
+/**
+ * Replaces everything in the database with a backup file. Old v2 localStorage
+ * exports are accepted as well. Unsent sync edits and sync progress are
+ * dropped, so the restored data is pushed as new edits rather than read as
+ * deletions of whatever the backup lacks.
+ */
+export const restoreBackup = async (text: string): Promise<PersistedState> => {
+  const parsed = JSON.parse(text);
+  let state: PersistedState;
+  if (parsed?.format === BACKUP_FORMAT) {
+    if (parsed.schemaVersion > DB_VERSION) throw new Error(`Backup schema ${parsed.schemaVersion} is newer than ${DB_VERSION}`);
+    state = { ...legacyToState(null), ...parsed.data, settings: parsed.data?.settings ?? {} };
+    if (!COLLECTIONS.every(name => Array.isArray(state[name]))) throw new Error('Backup is missing collections');
+  } else if (parsed && typeof parsed === 'object' && ('stops' in parsed || 'savedCustomers' in parsed)) {
+    state = legacyToState(parsed);
+  } else {
+    throw new Error('Not a SwiftRoute backup');
+  }
+
+  const db = await openDb();
+  const tx = db.transaction([...COLLECTIONS, META_STORE, OUTBOX_STORE], 'readwrite');
+  COLLECTIONS.forEach(name => tx.objectStore(name).clear());
+  tx.objectStore(OUTBOX_STORE).clear();
+  tx.objectStore(META_STORE).delete(IDBKeyRange.bound(SYNC_STATE_PREFIX, `${SYNC_STATE_PREFIX}\uffff`));
+  writeState(tx, state);
+  await transactionDone(tx);
+  rememberWritten(state);
+  return state;
+};
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSyncClient, RemoteRecord } from './syncClient';
+
+const db = vi.hoisted(() => ({
+  meta: new Map<string, unknown>(),
+  outbox: new Map<string, { key: string; queuedAt: number }>()
+}));
+
+vi.mock('./storage', () => ({
+  SYNC_STATE_PREFIX: 'syncState:',
+  readMeta: async (key: string) => db.meta.get(key),
+  writeMeta: async (key: string, value: unknown) => { db.meta.set(key, structuredClone(value)); },
+  readOutbox: async () => [...db.outbox.values()].sort((a, b) => a.queuedAt - b.queuedAt),
+  updateOutbox: async (puts: { key: string; queuedAt: number }[], deletes: string[] = []) => {
+    puts.forEach(entry => db.outbox.set(entry.key, entry));
+    deletes.forEach(key => db.outbox.delete(key));
+  },
+  settleOutbox: async (key: string, queuedAt: number) => {
+    if (db.outbox.get(key)?.queuedAt === queuedAt) db.outbox.delete(key);
+  }
+}));
+
+const record = (version: number, updatedAt: string, deleted = false): RemoteRecord => deleted
+  ? { collection: 'customers', id: 'c1', version, deleted: true, data: null, updatedAt, updatedBy: 'other', seq: version }
+  : { collection: 'customers', id: 'c1', version, deleted: false, data: { id: 'c1', name: 'Server', address: 'Main St 1', coords: { lat: 0, lng: 0 } }, updatedAt, updatedBy: 'other', seq: version };
+
+// The local edit was based on version 1 and made at ten o'clock.
+const queueLocal = (op: 'put' | 'delete') => {
+  db.meta.set('syncState:u1', { cursor: 0, records: { 'customers:c1': { version: 1, hash: 'old' } } });
+  db.outbox.set('customers:c1', {
+    key: 'customers:c1', collection: 'customers', id: 'c1', op, queuedAt: 1,
+    updatedAt: '2026-03-03T10:00:00.000Z', ...(op === 'put' ? { data: { id: 'c1', name: 'Local' } } : {})
+  } as { key: string; queuedAt: number });
+};
+
+/** Answers the first write with a conflict against `current` and accepts any retry. */
+const conflictServer = (current: RemoteRecord) => {
+  const writes: { method: string; baseVersion: number }[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit = {}) => {
+    if (url.includes('/api/changes')) return Response.json({ seq: 0, cursor: 0, changes: [] });
+    const method = init.method ?? 'GET';
+    const baseVersion = method === 'PUT' ? JSON.parse(String(init.body)).baseVersion : Number(new URL(url).searchParams.get('baseVersion'));
+    writes.push({ method, baseVersion });
+    if (writes.length === 1) return Response.json({ error: 'Conflict', current }, { status: 409 });
+    return Response.json({ ...current, version: current.version + 1, updatedBy: 'u1' });
+  }));
+  return writes;
+};
+
+const sync = async () => {
+  const onRemoteChanges = vi.fn();
+  const client = createSyncClient({ serverUrl: 'http://sync.test', token: 't', userId: 'u1', onRemoteChanges });
+  await client.syncNow();
+  client.stop();
+  return onRemoteChanges;
+};
+
+describe('sync conflicts', () => {
+  beforeEach(() => {
+    db.meta.clear();
+    db.outbox.clear();
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('document', { visibilityState: 'visible' });
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('rebases and retries a local edit newer than the server\'s', async () => {
+    queueLocal('put');
+    const writes = conflictServer(record(2, '2026-03-03T09:00:00.000Z'));
+    const onRemoteChanges = await sync();
+    expect(writes).toEqual([{ method: 'PUT', baseVersion: 1 }, { method: 'PUT', baseVersion: 2 }]);
+    expect(onRemoteChanges).not.toHaveBeenCalled();
+    expect(db.outbox.size).toBe(0);
+  });
+
+  it('takes the server\'s copy when it was written later', async () => {
+    queueLocal('put');
+    const current = record(2, '2026-03-03T11:00:00.000Z');
+    const writes = conflictServer(current);
+    const onRemoteChanges = await sync();
+    expect(writes).toHaveLength(1);
+    expect(onRemoteChanges).toHaveBeenCalledWith([current]);
+    expect(db.outbox.size).toBe(0);
+  });
+
+  it('does not retry a delete of a record the server already deleted', async () => {
+    queueLocal('delete');
+    const current = record(2, '2026-03-03T09:00:00.000Z', true);
+    const writes = conflictServer(current);
+    const onRemoteChanges = await sync();
+    expect(writes).toEqual([{ method: 'DELETE', baseVersion: 1 }]);
+    expect(onRemoteChanges).toHaveBeenCalledWith([current]);
+  });
+});
@@ -0,0 +1,310 @@
+import { Coordinate, Customer, DeliveryStop, RouteEnd, RouteRun, SavedRoute, Vehicle } from '../types';
+import { readMeta, writeMeta, readOutbox, updateOutbox, settleOutbox, SYNC_STATE_PREFIX } from './storage';
+
+export type SyncCollection = 'customers' | 'routes' | 'manifests' | 'dispatchers' | 'runs';
+
+export interface SyncSettings {
+  enabled: boolean;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: true
+};
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+/** An account's working manifest; other accounts' copies may arrive reduced or emptied by the server. */
+export interface ManifestRecord {
+  id?: string;
+  stops?: DeliveryStop[];
+  vehicles?: Vehicle[];
+  depotLocation?: Coordinate;
+  routeEnd?: RouteEnd;
+}
+
+/** What the records of each collection hold. */
+export interface SyncPayloads {
+  customers: Customer;
+  routes: SavedRoute;
+  manifests: ManifestRecord;
+  dispatchers: { id: string; name: string };
+  runs: RouteRun;
+}
+
+interface RecordMeta {
+  id: string;
+  version: number;
+  updatedAt: string;
+  updatedBy: string | null;
+  seq: number;
+}
+
+/** A record as the sync server stores it; tombstones carry no data. */
+export type RemoteRecord = {
+  [C in SyncCollection]: RecordMeta & { collection: C } & ({ deleted: false; data: SyncPayloads[C] } | { deleted: true; data: null })
+}[SyncCollection];
+
+interface OutboxEntry {
+  key: string;
+  collection: SyncCollection;
+  id: string;
+  op: 'put' | 'delete';
+  data?: unknown;
+  updatedAt: string;
+  queuedAt: number;
+}
+
+interface SyncState {
+  cursor: number;
+  /** Server version and content hash of every record as last seen on the server. */
+  records: Record<string, { version: number; hash: string }>;
+}
+
+export interface SyncClientOptions {
+  serverUrl: string;
+  token: string;
+  /** Id of the signed-in user; their own manifest and profile are keyed by it. */
+  userId: string;
+  intervalMs?: number;
+  /** Server-side changes made elsewhere, to be merged into local state. */
+  onRemoteChanges: (changes: RemoteRecord[]) => void;
+  onStatus?: (status: SyncStatus, pending: number) => void;
+  /** The session was rejected; syncing stops until a new client is created. */
+  onUnauthorized?: () => void;
+}
+
+export interface SyncClient {
+  /** Queues whatever differs between `records` and the last synced copy of the collection. */
+  track: (collection: SyncCollection, records: { id: string }[]) => void;
+  syncNow: () => Promise<void>;
+  /** Forgets what was synced, after the database was replaced underneath the client. */
+  reset: () => Promise<void>;
+  stop: () => void;
+}
+
+const DEFAULT_SYNC_INTERVAL_MS = 30000;
+const PUSH_DEBOUNCE_MS = 1000;
+
+// Keyed by user id; each user only mirrors and writes their own record.
+const PERSONAL_COLLECTIONS: SyncCollection[] = ['manifests', 'dispatchers'];
+
+// FNV-1a; only used to notice local edits, not for integrity.
+const hashOf = (value: unknown): string => {
+  const text = JSON.stringify(value) ?? '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+class UnauthorizedError extends Error {}
+
+const keyOf = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+/** Applies server changes for one collection to a local list: tombstones remove, the rest upsert. */
+export const mergeRemote = <C extends 'customers' | 'routes' | 'runs'>(items: SyncPayloads[C][], changes: RemoteRecord[], collection: C): SyncPayloads[C][] => {
+  let result = items;
+  changes.forEach(change => {
+    if (change.collection !== collection) return;
+    const exists = result.some(item => item.id === change.id);
+    if (change.deleted) result = result.filter(item => item.id !== change.id);
+    else {
+      const data = change.data as SyncPayloads[C];
+      result = exists ? result.map(item => (item.id === change.id ? data : item)) : [...result, data];
+    }
+  });
+  return result;
+};
+
+/**
+ * Offline-first sync against the SwiftRoute server. Local edits land in an
+ * IndexedDB outbox and are pushed with the server version they were based
+ * on; on a 409 the edit with the later `updatedAt` wins. Pulls follow the
+ * server's change feed from a persisted cursor.
+ */
+export const createSyncClient = ({ serverUrl, token, userId, intervalMs = DEFAULT_SYNC_INTERVAL_MS, onRemoteChanges, onStatus, onUnauthorized }: SyncClientOptions): SyncClient => {
+  const base = serverUrl.replace(/\/+$/, '');
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+  // Per user, since what each account may see differs.
+  const stateKey = `${SYNC_STATE_PREFIX}${userId}`;
+  let state: SyncState = { cursor: 0, records: {} };
+  const ready = readMeta<SyncState>(stateKey).then(saved => { if (saved) state = saved; });
+  let tracking: Promise<void> = Promise.resolve();
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let stopped = false;
+  let debounce: ReturnType<typeof setTimeout> | null = null;
+
+  const remember = (record: RemoteRecord) => {
+    const key = keyOf(record.collection, record.id);
+    if (record.deleted) delete state.records[key];
+    else state.records[key] = { version: record.version, hash: hashOf(record.data) };
+  };
+
+  const isForeign = (collection: SyncCollection, id: string) => PERSONAL_COLLECTIONS.includes(collection) && id !== userId;
+
+  const reportStatus = async (status: SyncStatus) => {
+    onStatus?.(status, (await readOutbox()).length);
+  };
+
+  const track = (collection: SyncCollection, records: { id: string }[]) => {
+    tracking = tracking.then(async () => {
+      await ready;
+      const queued = new Map((await readOutbox<OutboxEntry>()).map(entry => [entry.key, entry]));
+      const queuedAt = Date.now();
+      const updatedAt = new Date(queuedAt).toISOString();
+      const puts: OutboxEntry[] = [];
+      const drops: string[] = [];
+      const present = new Set<string>();
+
+      records.forEach(record => {
+        const key = keyOf(collection, record.id);
+        present.add(key);
+        const pending = queued.get(key);
+        const known = pending ? (pending.op === 'put' ? hashOf(pending.data) : null) : state.records[key]?.hash;
+        if (known !== hashOf(record)) puts.push({ key, collection, id: record.id, op: 'put', data: record, updatedAt, queuedAt });
+      });
+
+      const prefix = `${collection}:`;
+      Object.keys(state.records).forEach(key => {
+        if (!key.startsWith(prefix) || present.has(key) || queued.get(key)?.op === 'delete') return;
+        if (isForeign(collection, key.slice(prefix.length))) return;
+        puts.push({ key, collection, id: key.slice(prefix.length), op: 'delete', updatedAt, queuedAt });
+      });
+      // Created and removed again before it ever reached the server.
+      queued.forEach((entry, key) => {
+        if (entry.collection === collection && !present.has(key) && !state.records[key]) drops.push(key);
+      });
+
+      await updateOutbox(puts, drops);
+      if (puts.length > 0) schedule();
+    }).catch(error => console.error("Sync tracking failed", error));
+  };
+
+  const push = async () => {
+    for (const entry of await readOutbox<OutboxEntry>()) {
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const baseVersion = state.records[entry.key]?.version ?? 0;
+        const url = `${base}/api/${entry.collection}/${encodeURIComponent(entry.id)}`;
+        const response = entry.op === 'put'
+          ? await fetch(url, { method: 'PUT', headers, body: JSON.stringify({ data: entry.data, baseVersion, updatedAt: entry.updatedAt }) })
+          : await fetch(`${url}?baseVersion=${baseVersion}`, { method: 'DELETE', headers });
+
+        if (response.ok) {
+          remember(await response.json());
+          await settleOutbox(entry.key, entry.queuedAt);
+          break;
+        }
+        if (response.status === 409) {
+          const { current }: { current: RemoteRecord } = await response.json();
+          const localWins = Date.parse(entry.updatedAt) > Date.parse(current.updatedAt) && !(entry.op === 'delete' && current.deleted);
+          if (localWins) {
+            // Rebase on the server's version and try once more.
+            state.records[entry.key] = { version: current.version, hash: '' };
+            continue;
+          }
+          remember(current);
+          await settleOutbox(entry.key, entry.queuedAt);
+          onRemoteChanges([current]);
+          break;
+        }
+        if (response.status === 401) throw new UnauthorizedError();
+        if (response.status >= 500) throw new Error(`Sync push failed with ${response.status}`);
+        // Any other client error will not go away by retrying.
+        console.error("Sync server rejected change", entry.key, response.status);
+        await settleOutbox(entry.key, entry.queuedAt);
+        break;
+      }
+    }
+  };
+
+  const pull = async () => {
+    for (;;) {
+      const response = await fetch(`${base}/api/changes?since=${state.cursor}`, { headers });
+      if (response.status === 401) throw new UnauthorizedError();
+      if (!response.ok) throw new Error(`Sync pull failed with ${response.status}`);
+      const { seq, cursor, changes }: { seq: number; cursor: number; changes: RemoteRecord[] } = await response.json();
+      const pending = new Set((await readOutbox<OutboxEntry>()).map(entry => entry.key));
+      const incoming = changes.filter(change => {
+        const key = keyOf(change.collection, change.id);
+        // Skip our own echoes and records with unsent local edits; those resolve on the next push.
+        // Other accounts' manifests are kept: drivers get their assigned stops from them and dispatchers the drivers' progress.
+        const foreign = isForeign(change.collection, change.id) && change.collection !== 'manifests';
+        return !foreign && !pending.has(key) && state.records[key]?.version !== change.version;
+      });
+      incoming.forEach(remember);
+      if (incoming.length > 0) onRemoteChanges(incoming);
+      // The server may filter a page down to nothing, so follow its cursor rather than the last change.
+      if (cursor <= state.cursor) break;
+      state.cursor = cursor;
+      if (cursor >= seq) break;
+    }
+  };
+
+  const run = async () => {
+    await ready;
+    await tracking;
+    await reportStatus('syncing');
+    try {
+      await push();
+      await pull();
+      await writeMeta(stateKey, state);
+      await reportStatus('idle');
+    } catch (error) {
+      await writeMeta(stateKey, state).catch(() => {});
+      if (error instanceof UnauthorizedError) {
+        stop();
+        await reportStatus('error');
+        onUnauthorized?.();
+        return;
+      }
+      const offline = !navigator.onLine || error instanceof TypeError;
+      if (!offline) console.error("Sync failed", error);
+      await reportStatus(offline ? 'offline' : 'error');
+    }
+  };
+
+  const syncNow = (): Promise<void> => {
+    if (stopped) return Promise.resolve();
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = run().finally(() => {
+      running = null;
+      if (rerun && !stopped) {
+        rerun = false;
+        syncNow();
+      }
+    });
+    return running;
+  };
+
+  function schedule() {
+    if (debounce !== null) clearTimeout(debounce);
+    debounce = setTimeout(() => { debounce = null; syncNow(); }, PUSH_DEBOUNCE_MS);
+  }
+
+  const reset = async () => {
+    await ready;
+    await running;
+    state = { cursor: 0, records: {} };
+    await writeMeta(stateKey, state);
+  };
+
+  const handleOnline = () => { syncNow(); };
+  const interval = setInterval(() => { if (document.visibilityState !== 'hidden') syncNow(); }, intervalMs);
+  window.addEventListener('online', handleOnline);
+  syncNow();
+
+  function stop() {
+    stopped = true;
+    clearInterval(interval);
+    if (debounce !== null) clearTimeout(debounce);
+    window.removeEventListener('online', handleOnline);
+  }
+
+  return { track, syncNow, reset, stop };
+};
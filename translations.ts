@@ -1,6 +1,12 @@
 
 export type Language = 'en' | 'es' | 'de';
 
+export const locales: Record<Language, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  de: 'de-DE'
+};
+
 export const translations = {
   en: {
     app_name: "SwiftRoute",
@@ -56,8 +62,9 @@ export const translations = {
     copied: "Copied!",
     login_title: "Command Center Access",
     login_subtitle: "Please enter your dispatcher credentials to initialize the terminal.",
-    login_name: "Dispatcher Name",
-    login_id: "Dispatcher ID (e.g., #42)",
+    login_username: "Username",
+    login_password: "Password",
+    login_server: "Server URL",
     login_button: "Initialize Terminal",
     logout: "Sign Out",
     welcome: "Welcome back,",
@@ -69,7 +76,273 @@ export const translations = {
     save_confirm: "Save Template",
     no_saved_routes: "No Saved Templates",
     load: "Load",
-    delete: "Delete"
+    delete: "Delete",
+    optimizer_gain: "Saved vs. greedy",
+    optimizer_moves: "moves",
+    distance_unit: "Distance Unit",
+    time_window: "Window",
+    window_from: "Earliest arrival",
+    window_to: "Latest arrival",
+    service_minutes: "Min",
+    window_late: "Late",
+    window_early: "Early",
+    minutes_short: "min",
+    fleet_tab: "Fleet",
+    vehicle: "Van",
+    add_vehicle: "Add Vehicle",
+    no_vehicles: "No Vehicles – Single Driver Mode",
+    capacity: "Capacity",
+    shift_hours: "Shift (h)",
+    demand: "Qty",
+    vehicle_load: "Load",
+    unassigned: "Unassigned",
+    ai_narrative: "AI Dispatch Report",
+    settings_title: "Settings",
+    done: "Done",
+    geocoder_section: "Address Lookup",
+    geocoder_provider: "Geocoding Provider",
+    nominatim_url: "Nominatim Endpoint",
+    min_confidence: "Minimum Match Confidence",
+    gazetteer: "Local Gazetteer",
+    gazetteer_hint: "CSV or JSON with address, lat, lng (optional name). Used offline and as fallback.",
+    gazetteer_load: "Load File",
+    gazetteer_empty: "No usable rows found.",
+    gazetteer_invalid: "File could not be read.",
+    geocode_not_found: "Address not found. Please refine it.",
+    geocode_failed: "Address lookup failed. Check your connection or provider settings.",
+    geocode_low_confidence: "Uncertain match",
+    geocode_check_location: "Check location",
+    unknown_customer: "Unknown Customer",
+    bulk_paste_tab: "Paste Text",
+    bulk_file_tab: "CSV / Excel",
+    bulk_file_pick: "Choose Manifest File",
+    bulk_file_hint: "CSV, TSV or XLSX with one stop per row",
+    bulk_has_header: "First row contains column names",
+    bulk_column_ignore: "— Not mapped —",
+    bulk_rows: "rows",
+    bulk_continue: "Continue to Review",
+    bulk_back: "Back",
+    bulk_review_desc: "Fix or drop rows before they are added to the manifest.",
+    bulk_locate: "Locate",
+    bulk_add_selected: "Add to Manifest",
+    bulk_nothing_found: "No stops found in the input.",
+    bulk_status_pending: "Locating…",
+    bulk_status_ok: "Matched",
+    bulk_status_low: "Uncertain",
+    bulk_status_not_found: "Not found",
+    bulk_status_duplicate: "Duplicate",
+    bulk_status_error: "Lookup failed",
+    field_customerName: "Customer",
+    field_address: "Address",
+    field_lat: "Latitude",
+    field_lng: "Longitude",
+    field_priority: "Priority",
+    field_earliest: "Window From",
+    field_latest: "Window Until",
+    field_serviceMinutes: "Service (min)",
+    field_demand: "Quantity",
+    export_csv: "CSV (Billing)",
+    export_gpx: "GPX (Telematics)",
+    export_kml: "KML (Google Earth)",
+    export_print: "Driver Sheet (Print/PDF)",
+    driver_sheet_title: "Driver Run Sheet",
+    driver_sheet_notes: "Notes",
+    driver_sheet_signature: "Signature",
+    popup_blocked: "Please allow pop-ups to print the driver sheet.",
+    save: "Save",
+    edit: "Edit",
+    new_customer: "New Customer",
+    edit_customer: "Edit Customer",
+    add_customer: "New",
+    phone: "Phone",
+    notes: "Notes",
+    default_priority: "Default Priority",
+    no_customers: "No Saved Customers",
+    no_matches: "No Matches",
+    import_customers: "Import",
+    export_customers: "Export",
+    delete_customer_confirm: "Delete this customer?",
+    customers_imported: "customers imported",
+    customers_skipped: "skipped",
+    saved_to_db: "Saved to directory",
+    refresh_interval: "Refresh interval",
+    refresh_retry: "Refresh failed, retrying at",
+    etas_changed: "ETAs changed",
+    no_eta_changes: "No ETA changes",
+    since: "since",
+    eta_was: "Previously",
+    status_pending: "Pending",
+    status_arrived: "Arrived",
+    status_delivered: "Delivered",
+    status_failed: "Failed",
+    status_skipped: "Skipped",
+    mark_arrived: "Arrived",
+    mark_delivered: "Delivered",
+    mark_failed: "Failed",
+    mark_skipped: "Skip",
+    reason_not_home: "Nobody home",
+    reason_refused: "Refused",
+    reason_wrong_address: "Wrong address",
+    reason_no_access: "No access",
+    reason_damaged: "Damaged goods",
+    reason_other: "Other",
+    undo: "Undo",
+    planned: "Planned",
+    avg_delay: "Avg. delay",
+    run_in_progress: "Run in progress",
+    replan_from_location: "Re-plan from here",
+    finish_run: "Finish Run",
+    finish_run_confirm: "Finish this run and archive its results?",
+    resume_navigation: "Resume Navigation",
+    pod_title: "Proof of Delivery",
+    pod_short: "PoD",
+    pod_recipient: "Received by",
+    pod_signature: "Signature",
+    pod_photo: "Photo",
+    pod_take_photo: "Take Photo",
+    pod_clear: "Clear",
+    pod_confirm: "Confirm Delivery",
+    pod_requirements: "Enter the recipient's name and capture a signature or photo.",
+    pod_photo_failed: "Photo could not be read.",
+    pod_save_failed: "Proof could not be saved.",
+    export_pod: "PoD Bundle (ZIP)",
+    storage_section: "Data & Backup",
+    storage_usage: "Storage used",
+    storage_not_persisted: "The browser may clear this data when the device runs low on space. Keep regular backups.",
+    backup: "Backup",
+    restore: "Restore",
+    restore_confirm: "Restoring replaces all routes, customers and history on this device. Continue?",
+    restore_failed: "This file is not a valid SwiftRoute backup.",
+    storage_unavailable: "Local database unavailable. Changes will not be saved on this device.",
+    storage_quota: "Storage is full. Download a backup and remove old routes or history.",
+    storage_write_failed: "Changes could not be saved.",
+    sync_section: "Team Sync",
+    sync_enabled: "Sync with server",
+    sync_idle: "Synced",
+    sync_syncing: "Syncing…",
+    sync_offline: "Offline – changes are queued",
+    sync_error: "Sync failed",
+    sync_pending: "pending",
+    login_failed: "Invalid username or password.",
+    login_unreachable: "The server could not be reached.",
+    role_admin: "Admin",
+    role_dispatcher: "Dispatcher",
+    role_driver: "Driver",
+    driver: "Driver",
+    no_driver: "No driver",
+    users_section: "Accounts",
+    add_user: "Add account",
+    display_name: "Display name",
+    role: "Role",
+    reset_password: "Reset password",
+    new_password_prompt: "New password (at least 8 characters):",
+    user_save_failed: "The account could not be saved.",
+    driver_view: "Driver View",
+    dispatch_view: "Dispatch",
+    next_stop: "Next Stop",
+    navigate: "Navigate",
+    call: "Call",
+    stops_done: "done",
+    all_stops_done: "All stops completed",
+    no_assigned_stops: "No stops are assigned to you yet.",
+    offline_mode: "Offline – progress is saved on this device",
+    list_view: "List",
+    map_view: "Map",
+    map_section: "Map",
+    tile_url: "Tile URL",
+    tile_url_hint: "XYZ template with {z}, {x}, {y} ({-y} for TMS, {s} for subdomains). Point it at a self-hosted or local MBTiles server; leave empty to hide the basemap.",
+    tile_attribution: "Attribution",
+    tile_max_zoom: "Max zoom",
+    tile_reset: "Reset to default",
+    routing_section: "Road Routing",
+    routing_provider: "Routing service",
+    routing_none: "Straight lines",
+    routing_hint: "Road distances, travel times and street-following legs come from an OSRM or Valhalla server. Legs it cannot route fall back to straight lines.",
+    routing_url: "Server URL",
+    routing_profile: "Profile",
+    lasso_select: "Lasso select (or Shift + drag)",
+    map_stop_prompt: "Customer name for the new stop",
+    selected: "selected",
+    set_priority: "Priority",
+    move_to_vehicle: "Move to",
+    clear_selection: "Clear selection",
+    canvas_threshold: "Canvas rendering above (stops)",
+    canvas_threshold_hint: "Large manifests are painted on a canvas; only the selected stops stay interactive markers.",
+    analytics_tab: "Analytics",
+    archived_runs: "Completed runs",
+    clear_filters: "Clear filters",
+    date_from: "From",
+    date_to: "To",
+    all_dispatchers: "All dispatchers",
+    no_runs: "No completed runs",
+    actual: "Driven",
+    on_time_rate: "On time",
+    stops_completed: "Stops completed",
+    distance_per_day: "Distance per day",
+    stops_per_hour: "Stops per hour",
+    on_time_by_priority: "On time by priority",
+    service_time_by_customer: "Avg. service time per customer",
+    avg_service_time: "Avg. service time",
+    run_dispatcher: "Dispatcher",
+    route_start: "Start",
+    route_end: "End",
+    custom_location: "Custom location",
+    end_return: "Return to start",
+    end_last_stop: "Last stop",
+    removed_depot: "Removed depot",
+    depots: "Depots",
+    save_current_depot: "Save current start",
+    no_depots: "Save the current start point to reuse it as a named depot.",
+    depot_name_prompt: "Name for this depot",
+    edit_template: "Edit Template",
+    repeats_weekly: "Repeats weekly",
+    every_weeks: "Every (weeks)",
+    starting_on: "Starting on",
+    skip_days: "Skip days (holidays)",
+    replace_with_manifest: "Replace stops with current manifest",
+    template_versions: "Versions",
+    current_version: "Current",
+    restore_version: "Restore",
+    copy_suffix: "copy",
+    duplicate: "Duplicate",
+    todays_routes: "Today's Routes",
+    no_routes_today: "No templates due today",
+    load_todays_routes: "Load today's routes",
+    replace_manifest_confirm: "Replace the current manifest?",
+    every: "Every",
+    weeks: "weeks",
+    next_due: "Next",
+    quantity: "Quantity",
+    access_instructions: "Access",
+    access_placeholder: "Gate code, buzzer, entrance…",
+    packages: "Packages",
+    add_package: "Add item",
+    package_description: "Item",
+    cod_amount: "Cash on delivery",
+    cod: "COD",
+    stop_details: "Details",
+    field_phone: "Phone",
+    field_accessInstructions: "Access",
+    field_packages: "Packages",
+    field_codAmount: "COD Amount",
+    field_notes: "Notes",
+    redo: "Redo",
+    changes_since_optimization: "changes since optimization",
+    optimize_changes_hint: "Optimize the route again",
+    command_add: "Add stop",
+    command_remove: "Remove stop",
+    command_reorder: "Reorder",
+    command_edit: "Edit stop",
+    command_move: "Move stop",
+    command_assign: "Assign vehicle",
+    command_flush: "Flush route",
+    command_load_template: "Load template",
+    command_import: "Import",
+    command_optimize: "Optimization",
+    bulk_file_unreadable: "The spreadsheet could not be read. Use a CSV, XLSX, XLS or ODS file.",
+    restore_sync_note: "Sync is on: the restored data will be sent to the server. Records the backup does not contain stay on the server and come back on the next sync.",
+    optimizer_late: "Late",
+    optimizer_no_gain: "No distance gain vs. greedy"
   },
   es: {
     app_name: "SwiftRoute",
@@ -125,8 +398,9 @@ export const translations = {
     copied: "¡Copiado!",
     login_title: "Acceso al Centro de Comando",
     login_subtitle: "Ingrese sus credenciales de despachador para inicializar la terminal.",
-    login_name: "Nombre del Despachador",
-    login_id: "ID de Despachador (ej. #42)",
+    login_username: "Usuario",
+    login_password: "Contraseña",
+    login_server: "URL del servidor",
     login_button: "Inicializar Terminal",
     logout: "Cerrar Sesión",
     welcome: "Bienvenido de nuevo,",
@@ -138,7 +412,273 @@ export const translations = {
     save_confirm: "Guardar Plantilla",
     no_saved_routes: "Sin Plantillas",
     load: "Cargar",
-    delete: "Eliminar"
+    delete: "Eliminar",
+    optimizer_gain: "Ahorro vs. voraz",
+    optimizer_moves: "movimientos",
+    distance_unit: "Unidad de Distancia",
+    time_window: "Franja",
+    window_from: "Llegada más temprana",
+    window_to: "Llegada más tardía",
+    service_minutes: "Min",
+    window_late: "Tarde",
+    window_early: "Temprano",
+    minutes_short: "min",
+    fleet_tab: "Flota",
+    vehicle: "Furgoneta",
+    add_vehicle: "Añadir Vehículo",
+    no_vehicles: "Sin Vehículos – Modo Un Conductor",
+    capacity: "Capacidad",
+    shift_hours: "Turno (h)",
+    demand: "Cant.",
+    vehicle_load: "Carga",
+    unassigned: "Sin asignar",
+    ai_narrative: "Informe IA",
+    settings_title: "Ajustes",
+    done: "Listo",
+    geocoder_section: "Búsqueda de Direcciones",
+    geocoder_provider: "Proveedor de Geocodificación",
+    nominatim_url: "Servidor Nominatim",
+    min_confidence: "Confianza Mínima",
+    gazetteer: "Nomenclátor Local",
+    gazetteer_hint: "CSV o JSON con address, lat, lng (name opcional). Se usa sin conexión y como respaldo.",
+    gazetteer_load: "Cargar Archivo",
+    gazetteer_empty: "No se encontraron filas válidas.",
+    gazetteer_invalid: "No se pudo leer el archivo.",
+    geocode_not_found: "Dirección no encontrada. Por favor, precísela.",
+    geocode_failed: "Error en la búsqueda. Revise la conexión o el proveedor.",
+    geocode_low_confidence: "Coincidencia dudosa",
+    geocode_check_location: "Verificar ubicación",
+    unknown_customer: "Cliente Desconocido",
+    bulk_paste_tab: "Pegar Texto",
+    bulk_file_tab: "CSV / Excel",
+    bulk_file_pick: "Elegir Archivo",
+    bulk_file_hint: "CSV, TSV o XLSX con una parada por fila",
+    bulk_has_header: "La primera fila contiene los nombres de columna",
+    bulk_column_ignore: "— Sin asignar —",
+    bulk_rows: "filas",
+    bulk_continue: "Continuar a Revisión",
+    bulk_back: "Atrás",
+    bulk_review_desc: "Corrija o descarte filas antes de añadirlas al manifiesto.",
+    bulk_locate: "Localizar",
+    bulk_add_selected: "Añadir al Manifiesto",
+    bulk_nothing_found: "No se encontraron paradas.",
+    bulk_status_pending: "Localizando…",
+    bulk_status_ok: "Encontrado",
+    bulk_status_low: "Dudoso",
+    bulk_status_not_found: "No encontrado",
+    bulk_status_duplicate: "Duplicado",
+    bulk_status_error: "Error",
+    field_customerName: "Cliente",
+    field_address: "Dirección",
+    field_lat: "Latitud",
+    field_lng: "Longitud",
+    field_priority: "Prioridad",
+    field_earliest: "Franja Desde",
+    field_latest: "Franja Hasta",
+    field_serviceMinutes: "Servicio (min)",
+    field_demand: "Cantidad",
+    export_csv: "CSV (Facturación)",
+    export_gpx: "GPX (Telemática)",
+    export_kml: "KML (Google Earth)",
+    export_print: "Hoja de Ruta (Imprimir/PDF)",
+    driver_sheet_title: "Hoja de Ruta del Conductor",
+    driver_sheet_notes: "Notas",
+    driver_sheet_signature: "Firma",
+    popup_blocked: "Permita ventanas emergentes para imprimir la hoja de ruta.",
+    save: "Guardar",
+    edit: "Editar",
+    new_customer: "Nuevo Cliente",
+    edit_customer: "Editar Cliente",
+    add_customer: "Nuevo",
+    phone: "Teléfono",
+    notes: "Notas",
+    default_priority: "Prioridad Predeterminada",
+    no_customers: "Sin Clientes Guardados",
+    no_matches: "Sin Resultados",
+    import_customers: "Importar",
+    export_customers: "Exportar",
+    delete_customer_confirm: "¿Eliminar este cliente?",
+    customers_imported: "clientes importados",
+    customers_skipped: "omitidos",
+    saved_to_db: "Guardado en el directorio",
+    refresh_interval: "Intervalo de actualización",
+    refresh_retry: "Error al actualizar, reintento a las",
+    etas_changed: "ETAs cambiadas",
+    no_eta_changes: "Sin cambios de ETA",
+    since: "desde",
+    eta_was: "Antes",
+    status_pending: "Pendiente",
+    status_arrived: "Llegada",
+    status_delivered: "Entregado",
+    status_failed: "Fallido",
+    status_skipped: "Omitido",
+    mark_arrived: "Llegué",
+    mark_delivered: "Entregado",
+    mark_failed: "Fallido",
+    mark_skipped: "Omitir",
+    reason_not_home: "Nadie en casa",
+    reason_refused: "Rechazado",
+    reason_wrong_address: "Dirección incorrecta",
+    reason_no_access: "Sin acceso",
+    reason_damaged: "Mercancía dañada",
+    reason_other: "Otro",
+    undo: "Deshacer",
+    planned: "Previsto",
+    avg_delay: "Retraso medio",
+    run_in_progress: "Ruta en curso",
+    replan_from_location: "Replanificar desde aquí",
+    finish_run: "Finalizar Ruta",
+    finish_run_confirm: "¿Finalizar esta ruta y archivar sus resultados?",
+    resume_navigation: "Reanudar Navegación",
+    pod_title: "Prueba de Entrega",
+    pod_short: "PdE",
+    pod_recipient: "Recibido por",
+    pod_signature: "Firma",
+    pod_photo: "Foto",
+    pod_take_photo: "Tomar Foto",
+    pod_clear: "Borrar",
+    pod_confirm: "Confirmar Entrega",
+    pod_requirements: "Indique el nombre del destinatario y capture una firma o foto.",
+    pod_photo_failed: "No se pudo leer la foto.",
+    pod_save_failed: "No se pudo guardar la prueba.",
+    export_pod: "Paquete PdE (ZIP)",
+    storage_section: "Datos y Copia",
+    storage_usage: "Almacenamiento usado",
+    storage_not_persisted: "El navegador puede borrar estos datos si el dispositivo se queda sin espacio. Haga copias con regularidad.",
+    backup: "Copia de Seguridad",
+    restore: "Restaurar",
+    restore_confirm: "Restaurar reemplaza todas las rutas, clientes e historial de este dispositivo. ¿Continuar?",
+    restore_failed: "Este archivo no es una copia de seguridad válida de SwiftRoute.",
+    storage_unavailable: "Base de datos local no disponible. Los cambios no se guardarán en este dispositivo.",
+    storage_quota: "El almacenamiento está lleno. Descargue una copia y elimine rutas o historial antiguos.",
+    storage_write_failed: "No se pudieron guardar los cambios.",
+    sync_section: "Sincronización",
+    sync_enabled: "Sincronizar con el servidor",
+    sync_idle: "Sincronizado",
+    sync_syncing: "Sincronizando…",
+    sync_offline: "Sin conexión – cambios en cola",
+    sync_error: "Error de sincronización",
+    sync_pending: "pendientes",
+    login_failed: "Usuario o contraseña incorrectos.",
+    login_unreachable: "No se pudo conectar con el servidor.",
+    role_admin: "Administrador",
+    role_dispatcher: "Despachador",
+    role_driver: "Conductor",
+    driver: "Conductor",
+    no_driver: "Sin conductor",
+    users_section: "Cuentas",
+    add_user: "Añadir cuenta",
+    display_name: "Nombre visible",
+    role: "Rol",
+    reset_password: "Restablecer contraseña",
+    new_password_prompt: "Nueva contraseña (mínimo 8 caracteres):",
+    user_save_failed: "No se pudo guardar la cuenta.",
+    driver_view: "Vista del conductor",
+    dispatch_view: "Despacho",
+    next_stop: "Próxima parada",
+    navigate: "Navegar",
+    call: "Llamar",
+    stops_done: "hechas",
+    all_stops_done: "Todas las paradas completadas",
+    no_assigned_stops: "Aún no tienes paradas asignadas.",
+    offline_mode: "Sin conexión – el progreso se guarda en este dispositivo",
+    list_view: "Lista",
+    map_view: "Mapa",
+    map_section: "Mapa",
+    tile_url: "URL de teselas",
+    tile_url_hint: "Plantilla XYZ con {z}, {x}, {y} ({-y} para TMS, {s} para subdominios). Apúntala a un servidor propio o a un servidor MBTiles local; déjala vacía para ocultar el mapa base.",
+    tile_attribution: "Atribución",
+    tile_max_zoom: "Zoom máximo",
+    tile_reset: "Restablecer",
+    routing_section: "Enrutamiento vial",
+    routing_provider: "Servicio de rutas",
+    routing_none: "Líneas rectas",
+    routing_hint: "Las distancias por carretera, los tiempos de viaje y los tramos por calle provienen de un servidor OSRM o Valhalla. Los tramos que no puede calcular vuelven a líneas rectas.",
+    routing_url: "URL del servidor",
+    routing_profile: "Perfil",
+    lasso_select: "Selección con lazo (o Mayús + arrastrar)",
+    map_stop_prompt: "Nombre del cliente para la nueva parada",
+    selected: "seleccionadas",
+    set_priority: "Prioridad",
+    move_to_vehicle: "Mover a",
+    clear_selection: "Borrar selección",
+    canvas_threshold: "Renderizar en canvas a partir de (paradas)",
+    canvas_threshold_hint: "Los manifiestos grandes se pintan en un canvas; solo las paradas seleccionadas siguen siendo marcadores interactivos.",
+    analytics_tab: "Análisis",
+    archived_runs: "Rutas completadas",
+    clear_filters: "Quitar filtros",
+    date_from: "Desde",
+    date_to: "Hasta",
+    all_dispatchers: "Todos los despachadores",
+    no_runs: "No hay rutas completadas",
+    actual: "Recorrido",
+    on_time_rate: "Puntual",
+    stops_completed: "Paradas completadas",
+    distance_per_day: "Distancia por día",
+    stops_per_hour: "Paradas por hora",
+    on_time_by_priority: "Puntualidad por prioridad",
+    service_time_by_customer: "Tiempo medio de servicio por cliente",
+    avg_service_time: "Tiempo medio de servicio",
+    run_dispatcher: "Despachador",
+    route_start: "Inicio",
+    route_end: "Fin",
+    custom_location: "Ubicación personalizada",
+    end_return: "Volver al inicio",
+    end_last_stop: "Última parada",
+    removed_depot: "Depósito eliminado",
+    depots: "Depósitos",
+    save_current_depot: "Guardar inicio actual",
+    no_depots: "Guarde el punto de inicio actual para reutilizarlo como depósito con nombre.",
+    depot_name_prompt: "Nombre de este depósito",
+    edit_template: "Editar Plantilla",
+    repeats_weekly: "Se repite cada semana",
+    every_weeks: "Cada (semanas)",
+    starting_on: "A partir del",
+    skip_days: "Omitir días (festivos)",
+    replace_with_manifest: "Reemplazar paradas con el manifiesto actual",
+    template_versions: "Versiones",
+    current_version: "Actual",
+    restore_version: "Restaurar",
+    copy_suffix: "copia",
+    duplicate: "Duplicar",
+    todays_routes: "Rutas de Hoy",
+    no_routes_today: "Ninguna plantilla para hoy",
+    load_todays_routes: "Cargar rutas de hoy",
+    replace_manifest_confirm: "¿Reemplazar el manifiesto actual?",
+    every: "Cada",
+    weeks: "semanas",
+    next_due: "Próxima",
+    quantity: "Cantidad",
+    access_instructions: "Acceso",
+    access_placeholder: "Código del portón, timbre, entrada…",
+    packages: "Paquetes",
+    add_package: "Añadir artículo",
+    package_description: "Artículo",
+    cod_amount: "Contra reembolso",
+    cod: "Reembolso",
+    stop_details: "Detalles",
+    field_phone: "Teléfono",
+    field_accessInstructions: "Acceso",
+    field_packages: "Paquetes",
+    field_codAmount: "Reembolso",
+    field_notes: "Notas",
+    redo: "Rehacer",
+    changes_since_optimization: "cambios desde la optimización",
+    optimize_changes_hint: "Optimizar la ruta de nuevo",
+    command_add: "Añadir parada",
+    command_remove: "Eliminar parada",
+    command_reorder: "Reordenar",
+    command_edit: "Editar parada",
+    command_move: "Mover parada",
+    command_assign: "Asignar vehículo",
+    command_flush: "Vaciar ruta",
+    command_load_template: "Cargar plantilla",
+    command_import: "Importar",
+    command_optimize: "Optimización",
+    bulk_file_unreadable: "No se pudo leer la hoja de cálculo. Usa un archivo CSV, XLSX, XLS u ODS.",
+    restore_sync_note: "La sincronización está activa: los datos restaurados se enviarán al servidor. Los registros que no estén en la copia se mantienen en el servidor y volverán en la próxima sincronización.",
+    optimizer_late: "Retraso",
+    optimizer_no_gain: "Sin ahorro de distancia vs. voraz"
   },
   de: {
     app_name: "SwiftRoute",
@@ -194,8 +734,9 @@ export const translations = {
     copied: "Kopiert!",
     login_title: "Zugang Kommandozentrale",
     login_subtitle: "Bitte geben Sie Ihre Disponenten-Daten ein.",
-    login_name: "Disponent Name",
-    login_id: "Disponent ID (z.B. #42)",
+    login_username: "Benutzername",
+    login_password: "Passwort",
+    login_server: "Server-URL",
     login_button: "Terminal initialisieren",
     logout: "Abmelden",
     welcome: "Willkommen zurück,",
@@ -207,6 +748,272 @@ export const translations = {
     save_confirm: "Vorlage speichern",
     no_saved_routes: "Keine Vorlagen",
     load: "Laden",
-    delete: "Löschen"
+    delete: "Löschen",
+    optimizer_gain: "Ersparnis ggü. Greedy",
+    optimizer_moves: "Züge",
+    distance_unit: "Entfernungseinheit",
+    time_window: "Zeitfenster",
+    window_from: "Früheste Ankunft",
+    window_to: "Späteste Ankunft",
+    service_minutes: "Min",
+    window_late: "Verspätet",
+    window_early: "Zu früh",
+    minutes_short: "Min",
+    fleet_tab: "Flotte",
+    vehicle: "Transporter",
+    add_vehicle: "Fahrzeug hinzufügen",
+    no_vehicles: "Keine Fahrzeuge – Einzelfahrer-Modus",
+    capacity: "Kapazität",
+    shift_hours: "Schicht (h)",
+    demand: "Menge",
+    vehicle_load: "Ladung",
+    unassigned: "Nicht zugewiesen",
+    ai_narrative: "KI-Lagebericht",
+    settings_title: "Einstellungen",
+    done: "Fertig",
+    geocoder_section: "Adresssuche",
+    geocoder_provider: "Geocoding-Anbieter",
+    nominatim_url: "Nominatim-Endpunkt",
+    min_confidence: "Mindestvertrauen",
+    gazetteer: "Lokales Ortsverzeichnis",
+    gazetteer_hint: "CSV oder JSON mit address, lat, lng (optional name). Offline und als Rückfall genutzt.",
+    gazetteer_load: "Datei laden",
+    gazetteer_empty: "Keine verwertbaren Zeilen gefunden.",
+    gazetteer_invalid: "Datei konnte nicht gelesen werden.",
+    geocode_not_found: "Adresse nicht gefunden. Bitte präzisieren.",
+    geocode_failed: "Adresssuche fehlgeschlagen. Verbindung oder Anbieter prüfen.",
+    geocode_low_confidence: "Unsicherer Treffer",
+    geocode_check_location: "Standort prüfen",
+    unknown_customer: "Unbekannter Kunde",
+    bulk_paste_tab: "Text einfügen",
+    bulk_file_tab: "CSV / Excel",
+    bulk_file_pick: "Datei auswählen",
+    bulk_file_hint: "CSV, TSV oder XLSX mit einem Stopp pro Zeile",
+    bulk_has_header: "Erste Zeile enthält Spaltennamen",
+    bulk_column_ignore: "— Nicht zugeordnet —",
+    bulk_rows: "Zeilen",
+    bulk_continue: "Weiter zur Prüfung",
+    bulk_back: "Zurück",
+    bulk_review_desc: "Zeilen korrigieren oder verwerfen, bevor sie ins Manifest kommen.",
+    bulk_locate: "Suchen",
+    bulk_add_selected: "Zum Manifest hinzufügen",
+    bulk_nothing_found: "Keine Stopps in der Eingabe gefunden.",
+    bulk_status_pending: "Suche…",
+    bulk_status_ok: "Gefunden",
+    bulk_status_low: "Unsicher",
+    bulk_status_not_found: "Nicht gefunden",
+    bulk_status_duplicate: "Duplikat",
+    bulk_status_error: "Fehler",
+    field_customerName: "Kunde",
+    field_address: "Adresse",
+    field_lat: "Breitengrad",
+    field_lng: "Längengrad",
+    field_priority: "Priorität",
+    field_earliest: "Fenster ab",
+    field_latest: "Fenster bis",
+    field_serviceMinutes: "Servicezeit (min)",
+    field_demand: "Menge",
+    export_csv: "CSV (Abrechnung)",
+    export_gpx: "GPX (Telematik)",
+    export_kml: "KML (Google Earth)",
+    export_print: "Fahrerblatt (Druck/PDF)",
+    driver_sheet_title: "Fahrer-Tourenblatt",
+    driver_sheet_notes: "Notizen",
+    driver_sheet_signature: "Unterschrift",
+    popup_blocked: "Bitte Pop-ups erlauben, um das Fahrerblatt zu drucken.",
+    save: "Speichern",
+    edit: "Bearbeiten",
+    new_customer: "Neuer Kunde",
+    edit_customer: "Kunde Bearbeiten",
+    add_customer: "Neu",
+    phone: "Telefon",
+    notes: "Notizen",
+    default_priority: "Standardpriorität",
+    no_customers: "Keine Gespeicherten Kunden",
+    no_matches: "Keine Treffer",
+    import_customers: "Importieren",
+    export_customers: "Exportieren",
+    delete_customer_confirm: "Diesen Kunden löschen?",
+    customers_imported: "Kunden importiert",
+    customers_skipped: "übersprungen",
+    saved_to_db: "Im Verzeichnis gespeichert",
+    refresh_interval: "Aktualisierungsintervall",
+    refresh_retry: "Aktualisierung fehlgeschlagen, neuer Versuch um",
+    etas_changed: "ETAs geändert",
+    no_eta_changes: "Keine ETA-Änderungen",
+    since: "seit",
+    eta_was: "Vorher",
+    status_pending: "Offen",
+    status_arrived: "Angekommen",
+    status_delivered: "Zugestellt",
+    status_failed: "Fehlgeschlagen",
+    status_skipped: "Übersprungen",
+    mark_arrived: "Angekommen",
+    mark_delivered: "Zugestellt",
+    mark_failed: "Fehlgeschlagen",
+    mark_skipped: "Überspringen",
+    reason_not_home: "Niemand zu Hause",
+    reason_refused: "Annahme verweigert",
+    reason_wrong_address: "Falsche Adresse",
+    reason_no_access: "Kein Zugang",
+    reason_damaged: "Ware beschädigt",
+    reason_other: "Sonstiges",
+    undo: "Rückgängig",
+    planned: "Geplant",
+    avg_delay: "Ø Verspätung",
+    run_in_progress: "Tour läuft",
+    replan_from_location: "Ab hier neu planen",
+    finish_run: "Tour Beenden",
+    finish_run_confirm: "Diese Tour beenden und die Ergebnisse archivieren?",
+    resume_navigation: "Navigation Fortsetzen",
+    pod_title: "Zustellnachweis",
+    pod_short: "ZN",
+    pod_recipient: "Empfangen von",
+    pod_signature: "Unterschrift",
+    pod_photo: "Foto",
+    pod_take_photo: "Foto Aufnehmen",
+    pod_clear: "Löschen",
+    pod_confirm: "Zustellung Bestätigen",
+    pod_requirements: "Namen des Empfängers eingeben und Unterschrift oder Foto erfassen.",
+    pod_photo_failed: "Foto konnte nicht gelesen werden.",
+    pod_save_failed: "Nachweis konnte nicht gespeichert werden.",
+    export_pod: "ZN-Paket (ZIP)",
+    storage_section: "Daten & Sicherung",
+    storage_usage: "Belegter Speicher",
+    storage_not_persisted: "Der Browser kann diese Daten bei Speichermangel löschen. Erstellen Sie regelmäßig Sicherungen.",
+    backup: "Sicherung",
+    restore: "Wiederherstellen",
+    restore_confirm: "Die Wiederherstellung ersetzt alle Touren, Kunden und den Verlauf auf diesem Gerät. Fortfahren?",
+    restore_failed: "Diese Datei ist keine gültige SwiftRoute-Sicherung.",
+    storage_unavailable: "Lokale Datenbank nicht verfügbar. Änderungen werden auf diesem Gerät nicht gespeichert.",
+    storage_quota: "Der Speicher ist voll. Laden Sie eine Sicherung herunter und entfernen Sie alte Touren oder Verläufe.",
+    storage_write_failed: "Änderungen konnten nicht gespeichert werden.",
+    sync_section: "Team-Sync",
+    sync_enabled: "Mit Server synchronisieren",
+    sync_idle: "Synchronisiert",
+    sync_syncing: "Synchronisiere…",
+    sync_offline: "Offline – Änderungen werden vorgemerkt",
+    sync_error: "Synchronisierung fehlgeschlagen",
+    sync_pending: "ausstehend",
+    login_failed: "Benutzername oder Passwort ist falsch.",
+    login_unreachable: "Der Server ist nicht erreichbar.",
+    role_admin: "Administrator",
+    role_dispatcher: "Disponent",
+    role_driver: "Fahrer",
+    driver: "Fahrer",
+    no_driver: "Kein Fahrer",
+    users_section: "Konten",
+    add_user: "Konto anlegen",
+    display_name: "Anzeigename",
+    role: "Rolle",
+    reset_password: "Passwort zurücksetzen",
+    new_password_prompt: "Neues Passwort (mindestens 8 Zeichen):",
+    user_save_failed: "Das Konto konnte nicht gespeichert werden.",
+    driver_view: "Fahreransicht",
+    dispatch_view: "Disposition",
+    next_stop: "Nächster Stopp",
+    navigate: "Navigieren",
+    call: "Anrufen",
+    stops_done: "erledigt",
+    all_stops_done: "Alle Stopps erledigt",
+    no_assigned_stops: "Dir sind noch keine Stopps zugewiesen.",
+    offline_mode: "Offline – Fortschritt wird auf diesem Gerät gespeichert",
+    list_view: "Liste",
+    map_view: "Karte",
+    map_section: "Karte",
+    tile_url: "Kachel-URL",
+    tile_url_hint: "XYZ-Vorlage mit {z}, {x}, {y} ({-y} für TMS, {s} für Subdomains). Auf einen eigenen oder lokalen MBTiles-Server verweisen; leer lassen, um die Grundkarte auszublenden.",
+    tile_attribution: "Quellenangabe",
+    tile_max_zoom: "Max. Zoom",
+    tile_reset: "Zurücksetzen",
+    routing_section: "Straßenrouting",
+    routing_provider: "Routingdienst",
+    routing_none: "Luftlinie",
+    routing_hint: "Straßendistanzen, Fahrzeiten und straßengenaue Abschnitte kommen von einem OSRM- oder Valhalla-Server. Nicht routbare Abschnitte werden als Luftlinie gezeichnet.",
+    routing_url: "Server-URL",
+    routing_profile: "Profil",
+    lasso_select: "Lasso-Auswahl (oder Umschalt + Ziehen)",
+    map_stop_prompt: "Kundenname für den neuen Stopp",
+    selected: "ausgewählt",
+    set_priority: "Priorität",
+    move_to_vehicle: "Verschieben nach",
+    clear_selection: "Auswahl aufheben",
+    canvas_threshold: "Canvas-Darstellung ab (Stopps)",
+    canvas_threshold_hint: "Große Manifeste werden auf ein Canvas gezeichnet; nur ausgewählte Stopps bleiben interaktive Marker.",
+    analytics_tab: "Analyse",
+    archived_runs: "Abgeschlossene Touren",
+    clear_filters: "Filter zurücksetzen",
+    date_from: "Von",
+    date_to: "Bis",
+    all_dispatchers: "Alle Disponenten",
+    no_runs: "Keine abgeschlossenen Touren",
+    actual: "Gefahren",
+    on_time_rate: "Pünktlich",
+    stops_completed: "Erledigte Stopps",
+    distance_per_day: "Strecke pro Tag",
+    stops_per_hour: "Stopps pro Stunde",
+    on_time_by_priority: "Pünktlichkeit nach Priorität",
+    service_time_by_customer: "Ø Standzeit pro Kunde",
+    avg_service_time: "Ø Standzeit",
+    run_dispatcher: "Disponent",
+    route_start: "Start",
+    route_end: "Ende",
+    custom_location: "Eigener Standort",
+    end_return: "Zurück zum Start",
+    end_last_stop: "Letzter Stopp",
+    removed_depot: "Gelöschtes Depot",
+    depots: "Depots",
+    save_current_depot: "Aktuellen Start speichern",
+    no_depots: "Speichern Sie den aktuellen Startpunkt, um ihn als benanntes Depot wiederzuverwenden.",
+    depot_name_prompt: "Name für dieses Depot",
+    edit_template: "Vorlage bearbeiten",
+    repeats_weekly: "Wöchentlich wiederholen",
+    every_weeks: "Alle (Wochen)",
+    starting_on: "Ab dem",
+    skip_days: "Tage auslassen (Feiertage)",
+    replace_with_manifest: "Stopps durch aktuelles Manifest ersetzen",
+    template_versions: "Versionen",
+    current_version: "Aktuell",
+    restore_version: "Wiederherstellen",
+    copy_suffix: "Kopie",
+    duplicate: "Duplizieren",
+    todays_routes: "Heutige Touren",
+    no_routes_today: "Heute sind keine Vorlagen fällig",
+    load_todays_routes: "Heutige Touren laden",
+    replace_manifest_confirm: "Aktuelles Manifest ersetzen?",
+    every: "Alle",
+    weeks: "Wochen",
+    next_due: "Nächste",
+    quantity: "Menge",
+    access_instructions: "Zugang",
+    access_placeholder: "Torcode, Klingel, Eingang…",
+    packages: "Pakete",
+    add_package: "Artikel hinzufügen",
+    package_description: "Artikel",
+    cod_amount: "Nachnahme",
+    cod: "Nachnahme",
+    stop_details: "Details",
+    field_phone: "Telefon",
+    field_accessInstructions: "Zugang",
+    field_packages: "Pakete",
+    field_codAmount: "Nachnahme",
+    field_notes: "Notizen",
+    redo: "Wiederholen",
+    changes_since_optimization: "Änderungen seit Optimierung",
+    optimize_changes_hint: "Route erneut optimieren",
+    command_add: "Stopp hinzufügen",
+    command_remove: "Stopp entfernen",
+    command_reorder: "Umsortieren",
+    command_edit: "Stopp bearbeiten",
+    command_move: "Stopp verschieben",
+    command_assign: "Fahrzeug zuweisen",
+    command_flush: "Route leeren",
+    command_load_template: "Vorlage laden",
+    command_import: "Import",
+    command_optimize: "Optimierung",
+    bulk_file_unreadable: "Die Tabelle konnte nicht gelesen werden. Verwende eine CSV-, XLSX-, XLS- oder ODS-Datei.",
+    restore_sync_note: "Synchronisierung ist aktiv: Die wiederhergestellten Daten werden an den Server gesendet. Datensätze, die nicht in der Sicherung enthalten sind, bleiben auf dem Server und kommen bei der nächsten Synchronisierung zurück.",
+    optimizer_late: "Verspätung",
+    optimizer_no_gain: "Keine Streckenersparnis ggü. Greedy"
   }
 };
\ No newline at end of file
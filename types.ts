@@ -6,14 +6,81 @@ export interface Coordinate {
 
 export type TrafficCondition = 'light' | 'moderate' | 'heavy';
 
+/** Delivery slot as local "HH:mm" clock times; either bound may be open. */
+export interface TimeWindow {
+  earliest?: string;
+  latest?: string;
+}
+
+export type StopStatus = 'pending' | 'arrived' | 'delivered' | 'failed' | 'skipped';
+
+/** What actually happened at a stop during a run; timestamps are ISO 8601. */
+export interface StopExecution {
+  status: StopStatus;
+  /** ETA when the run started, kept to compare against the actual times. */
+  plannedEta?: string;
+  arrivedAt?: string;
+  completedAt?: string;
+  failureReason?: string;
+}
+
+export interface ProofOfDelivery {
+  recipientName: string;
+  note?: string;
+  /** PNG data URL from the signature pad. */
+  signature?: string;
+  /** JPEG data URL from the device camera. */
+  photo?: string;
+  capturedAt: string;
+  location?: Coordinate;
+  /** Hex SHA-256 over the stop id and the fields above; see utils/proof. */
+  hash: string;
+}
+
+export interface PackageItem {
+  description: string;
+  quantity: number;
+}
+
 export interface DeliveryStop {
   id: string;
   address: string;
   customerName: string;
   priority: 'low' | 'medium' | 'high';
   coords: Coordinate;
-  estimatedTime?: string;
+  /** ISO 8601 arrival timestamp from the local ETA engine. */
+  eta?: string;
   trafficCondition?: TrafficCondition;
+  timeWindow?: TimeWindow;
+  serviceMinutes?: number;
+  /** Load units (parcels, kg…) this stop takes out of a vehicle. */
+  demand?: number;
+  /** Contact number for this drop; falls back to the directory entry when absent. */
+  phone?: string;
+  notes?: string;
+  /** Gate codes, buzzer numbers and the like. */
+  accessInstructions?: string;
+  packages?: PackageItem[];
+  /** Cash to collect on delivery. */
+  codAmount?: number;
+  vehicleId?: string;
+  /** Account whose manifest assigned this stop; only set on a driver's copy. */
+  assignedBy?: string;
+  geocodeConfidence?: number;
+  execution?: StopExecution;
+  proof?: ProofOfDelivery;
+}
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  capacity: number;
+  shiftMinutes: number;
+  color: string;
+  /** Account id of the driver assigned to this vehicle. */
+  driverId?: string;
+  /** Account whose manifest assigned this vehicle; only set on a driver's copy. */
+  assignedBy?: string;
 }
 
 export interface Customer {
@@ -21,6 +88,47 @@ export interface Customer {
   name: string;
   address: string;
   coords: Coordinate;
+  /** Priority given to stops created from this customer. */
+  priority?: DeliveryStop['priority'];
+  phone?: string;
+  notes?: string;
+  timeWindow?: TimeWindow;
+}
+
+export interface Depot {
+  id: string;
+  name: string;
+  coords: Coordinate;
+}
+
+export type RouteEndMode = 'return' | 'depot' | 'last_stop';
+
+/** Where every vehicle finishes after its last stop. */
+export interface RouteEnd {
+  mode: RouteEndMode;
+  /** The finishing depot when `mode` is 'depot', copied so the route survives the depot being edited. */
+  depotId?: string;
+  coords?: Coordinate;
+}
+
+/** When a route template is due; days are local calendar days as "YYYY-MM-DD". */
+export interface RouteRecurrence {
+  /** 0 is Sunday. */
+  weekdays: number[];
+  /** Runs every `intervalWeeks` weeks, counted from the week of `startDate`. */
+  intervalWeeks: number;
+  startDate: string;
+  /** Days the route is skipped, such as public holidays. */
+  exceptions: string[];
+}
+
+/** A stop list a template held before it was edited. */
+export interface RouteVersion {
+  version: number;
+  savedAt?: string;
+  savedBy?: string;
+  stops: DeliveryStop[];
+  totalDistance: number;
 }
 
 export interface SavedRoute {
@@ -29,6 +137,28 @@ export interface SavedRoute {
   stops: DeliveryStop[];
   date: string;
   totalDistance: number;
+  recurrence?: RouteRecurrence;
+  /** Version of `stops`; templates saved before versioning are version 1. */
+  version?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+  /** Earlier stop lists, newest first. */
+  history?: RouteVersion[];
+}
+
+export interface RouteRun {
+  id: string;
+  startedAt: string;
+  finishedAt?: string;
+  /** Account that started the run. */
+  dispatcherId?: string;
+  dispatcherName?: string;
+  depot?: Coordinate;
+  /** Route length in km as planned at the start. */
+  plannedDistance?: number;
+  /** Km driven to the stops actually reached, measured when the run finished. */
+  actualDistance?: number;
+  stops: DeliveryStop[];
 }
 
 export interface OptimizedRoute {
@@ -39,6 +169,10 @@ export interface OptimizedRoute {
 }
 
 export interface GeocodingResult {
+  customerName?: string;
   address: string;
   coords: Coordinate;
+  /** 0..1, how sure the provider is that `coords` is the place that was meant. */
+  confidence: number;
+  provider: string;
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RouteRun } from '../types';
+import { dayKey, distancePerDay, filterRuns, stopsPerHour } from './analytics';
+
+const run = (id: string, startedAt: string, extra: Partial<RouteRun> = {}): RouteRun => ({
+  id, startedAt, finishedAt: startedAt, stops: [], ...extra
+});
+
+// Evening runs in New York start on the next day in UTC.
+describe('local-day bucketing', () => {
+  beforeEach(() => vi.stubEnv('TZ', 'America/New_York'));
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('keys timestamps by the local calendar day', () => {
+    expect(dayKey('2026-03-04T02:30:00Z')).toBe('2026-03-03');
+    expect(dayKey('2026-03-04T05:30:00Z')).toBe('2026-03-04');
+  });
+
+  it('filters runs by the local day they started on', () => {
+    const runs = [run('late', '2026-03-04T02:30:00Z'), run('next', '2026-03-04T14:00:00Z'), run('open', '2026-03-03T14:00:00Z', { finishedAt: undefined })];
+    expect(filterRuns(runs, { from: '2026-03-03', to: '2026-03-03' }).map(r => r.id)).toEqual(['late']);
+    expect(filterRuns(runs, { from: '2026-03-03' }).map(r => r.id)).toEqual(['next', 'late']);
+  });
+
+  it('sums distances per local day', () => {
+    const runs = [
+      run('a', '2026-03-03T13:00:00Z', { plannedDistance: 10, actualDistance: 12 }),
+      run('b', '2026-03-04T02:30:00Z', { plannedDistance: 5 }),
+      run('c', '2026-03-04T14:00:00Z', { plannedDistance: 7, actualDistance: 7 })
+    ];
+    expect(distancePerDay(runs)).toEqual([
+      { day: '2026-03-03', planned: 15, actual: 12 },
+      { day: '2026-03-04', planned: 7, actual: 7 }
+    ]);
+  });
+
+  it('counts completed stops by local hour', () => {
+    const completed = (status: 'delivered' | 'failed' | 'skipped', completedAt: string) =>
+      ({ id: completedAt, address: '', customerName: '', priority: 'low' as const, coords: { lat: 0, lng: 0 }, execution: { status, completedAt } });
+    const hours = stopsPerHour([run('a', '2026-03-03T13:00:00Z', {
+      stops: [completed('delivered', '2026-03-03T14:10:00Z'), completed('failed', '2026-03-03T14:50:00Z'), completed('skipped', '2026-03-03T15:00:00Z')]
+    })]);
+    expect(hours[9]).toBe(2);
+    expect(hours.reduce((sum, count) => sum + count, 0)).toBe(2);
+  });
+});
@@ -0,0 +1,136 @@
+import { DeliveryStop, Coordinate, RouteRun } from '../types';
+import { calculateDistance } from './distance';
+import { groupByVehicle } from './fleet';
+import { delayMinutes, ON_TIME_TOLERANCE_MINUTES } from './execution';
+
+export interface AnalyticsFilter {
+  /** Inclusive local calendar days as "YYYY-MM-DD". */
+  from?: string;
+  to?: string;
+  dispatcherId?: string;
+}
+
+export interface DayDistance {
+  day: string;
+  planned: number;
+  actual: number;
+}
+
+export interface PriorityOnTime {
+  priority: DeliveryStop['priority'];
+  onTime: number;
+  /** Stops with both a planned and an actual arrival. */
+  total: number;
+}
+
+export interface CustomerServiceTime {
+  customerName: string;
+  averageMinutes: number;
+  visits: number;
+}
+
+export interface RunDispatcher {
+  id: string;
+  name: string;
+}
+
+const PRIORITIES: DeliveryStop['priority'][] = ['high', 'medium', 'low'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Local calendar day of an ISO timestamp as "YYYY-MM-DD". */
+export const dayKey = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const runStops = (runs: RouteRun[]) => runs.flatMap(run => run.stops);
+
+/**
+ * Distance driven to the stops the driver actually reached, in the order they
+ * reached them. Skipped stops are left out; failed ones were still visited.
+ */
+export const drivenDistance = (depot: Coordinate, stops: DeliveryStop[]): number =>
+  groupByVehicle(stops).reduce((total, group) => {
+    const visited = group.stops
+      .filter(stop => stop.execution?.arrivedAt)
+      .sort((a, b) => Date.parse(a.execution!.arrivedAt!) - Date.parse(b.execution!.arrivedAt!));
+    let current = depot;
+    return total + visited.reduce((sum, stop) => {
+      const leg = calculateDistance(current, stop.coords);
+      current = stop.coords;
+      return sum + leg;
+    }, 0);
+  }, 0);
+
+/** Finished runs in the filter's range, newest first. */
+export const filterRuns = (runs: RouteRun[], filter: AnalyticsFilter): RouteRun[] =>
+  runs
+    .filter(run => {
+      if (!run.finishedAt) return false;
+      const day = dayKey(run.startedAt);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return !filter.dispatcherId || run.dispatcherId === filter.dispatcherId;
+    })
+    .sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+
+export const runDispatchers = (runs: RouteRun[]): RunDispatcher[] => {
+  const dispatchers = new Map<string, string>();
+  runs.forEach(run => {
+    if (run.dispatcherId) dispatchers.set(run.dispatcherId, run.dispatcherName ?? run.dispatcherId);
+  });
+  return [...dispatchers].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Planned and driven km per day the runs started on, oldest first. */
+export const distancePerDay = (runs: RouteRun[]): DayDistance[] => {
+  const days = new Map<string, DayDistance>();
+  runs.forEach(run => {
+    const day = dayKey(run.startedAt);
+    const entry = days.get(day) ?? { day, planned: 0, actual: 0 };
+    entry.planned += run.plannedDistance ?? 0;
+    entry.actual += run.actualDistance ?? 0;
+    days.set(day, entry);
+  });
+  return [...days.values()].sort((a, b) => a.day.localeCompare(b.day));
+};
+
+/** Delivered and failed stops by the local hour they were completed in; index 0 is midnight. */
+export const stopsPerHour = (runs: RouteRun[]): number[] => {
+  const hours = new Array<number>(24).fill(0);
+  runStops(runs).forEach(stop => {
+    const { status, completedAt } = stop.execution ?? {};
+    if (completedAt && (status === 'delivered' || status === 'failed')) hours[new Date(completedAt).getHours()]++;
+  });
+  return hours;
+};
+
+export const onTimeByPriority = (runs: RouteRun[]): PriorityOnTime[] => {
+  const stops = runStops(runs);
+  return PRIORITIES.map(priority => {
+    const delays = stops
+      .filter(stop => stop.priority === priority)
+      .map(delayMinutes)
+      .filter((delay): delay is number => delay !== null);
+    return { priority, onTime: delays.filter(delay => delay <= ON_TIME_TOLERANCE_MINUTES).length, total: delays.length };
+  });
+};
+
+/** Mean time between arriving and completing, per customer, longest first. */
+export const serviceTimeByCustomer = (runs: RouteRun[]): CustomerServiceTime[] => {
+  const customers = new Map<string, number[]>();
+  runStops(runs).forEach(stop => {
+    const { status, arrivedAt, completedAt } = stop.execution ?? {};
+    if (status !== 'delivered' || !arrivedAt || !completedAt) return;
+    const minutes = (Date.parse(completedAt) - Date.parse(arrivedAt)) / 60000;
+    customers.set(stop.customerName, [...(customers.get(stop.customerName) ?? []), minutes]);
+  });
+  return [...customers]
+    .map(([customerName, minutes]) => ({
+      customerName,
+      averageMinutes: minutes.reduce((sum, value) => sum + value, 0) / minutes.length,
+      visits: minutes.length
+    }))
+    .sort((a, b) => b.averageMinutes - a.averageMinutes);
+};
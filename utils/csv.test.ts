@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsv, parseCsv, parseCsvRecords } from './csv';
+
+describe('formatCsv', () => {
+  it('quotes cells holding the delimiter, quotes or line breaks', () => {
+    expect(formatCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain');
+  });
+
+  it('keeps spreadsheet apps from running cells as formulas', () => {
+    expect(formatCsv([['=HYPERLINK("http://x")', '+49 30 123', '@SUM(A1)', '-cmd']])).toBe(`"'=HYPERLINK(""http://x"")",'+49 30 123,'@SUM(A1),'-cmd`);
+  });
+
+  it('leaves numbers alone', () => {
+    expect(formatCsv([['-12.500000', '+3', -4, 0]])).toBe('-12.500000,+3,-4,0');
+  });
+});
+
+describe('parseCsv', () => {
+  it('sniffs the delimiter and reads quoted fields', () => {
+    expect(parseCsv('name;note\r\n"Ada";"a; b ""c"""\n')).toEqual([['name', 'note'], ['Ada', 'a; b "c"']]);
+  });
+
+  it('reads guarded cells back as written', () => {
+    const rows = [['phone', 'notes'], ['+49 30 123', '=1+1']];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('keys records by lower-cased header', () => {
+    expect(parseCsvRecords('Name, City \nAda, Berlin ')).toEqual([{ name: 'Ada', city: 'Berlin' }]);
+  });
+});
@@ -0,0 +1,74 @@
+// Spreadsheet apps run cells starting with one of these as formulas.
+const FORMULA_START = /^[=+\-@\t\r]/;
+// What `formatCsv` writes for such a cell, read back without the guard.
+const GUARDED_FORMULA = /^'(?=[=+\-@\t\r])/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes ("") and line breaks
+ * inside quotes. Delimiter is sniffed from the first line when not given.
+ */
+export const parseCsv = (text: string, delimiter?: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const sep = delimiter ?? ([';', '\t', ','].find(d => firstLine.includes(d)) || ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .map(r => r.map(cell => cell.replace(GUARDED_FORMULA, '')));
+};
+
+/** Header row + records, keyed by trimmed, lower-cased column name. */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map(row => Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? '').trim()])));
+};
+
+const escapeCell = (value: string | number | undefined | null, sep: string): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  // A leading apostrophe keeps the cell text; numbers such as "-12.5" are safe as they are.
+  const text = FORMULA_START.test(raw) && !PLAIN_NUMBER.test(raw) ? `'${raw}` : raw;
+  return /["\r\n]/.test(text) || text.includes(sep) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsv = (rows: (string | number | undefined | null)[][], delimiter: string = ','): string =>
+  rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n');
@@ -0,0 +1,145 @@
+import { Customer, DeliveryStop, Coordinate } from '../types';
+import { parseCsvRecords, formatCsv } from './csv';
+import { isDuplicateOf, normalizePriority } from './manifestImport';
+
+/** A directory row before it has been placed on the map. */
+export type CustomerDraft = Omit<Customer, 'coords'> & { coords?: Coordinate };
+
+const normalize = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const tokens = (value: string) => normalize(value).split(' ').filter(Boolean);
+
+// One insertion, deletion, substitution or swap of adjacent letters.
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else if (a[i] === b[j + 1] && a[i + 1] === b[j]) { i += 2; j += 2; }
+    else { i++; j++; }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+// Tolerates a single typo while the user is still typing a word.
+const fuzzyPrefix = (query: string, token: string) =>
+  withinOneEdit(query, token.slice(0, query.length)) || withinOneEdit(query, token.slice(0, query.length + 1));
+
+const tokenScore = (query: string, candidates: string[]): number => {
+  let best = 0;
+  candidates.forEach(token => {
+    if (token === query) best = 1;
+    else if (token.startsWith(query)) best = Math.max(best, 0.85);
+    else if (query.length >= 3 && token.includes(query)) best = Math.max(best, 0.6);
+    else if (query.length >= 4 && fuzzyPrefix(query, token)) best = Math.max(best, 0.5);
+  });
+  return best;
+};
+
+/**
+ * Ranks customers against free text. Every query word has to match the name,
+ * address or phone (exactly, as a prefix, as a substring or with one typo);
+ * name hits rank above address hits.
+ */
+export const searchCustomers = (customers: Customer[], query: string, limit: number = 5): Customer[] => {
+  const queryTokens = tokens(query);
+  if (queryTokens.length === 0) return [];
+  return customers
+    .map(customer => {
+      const name = tokens(customer.name);
+      const rest = [...tokens(customer.address), ...(customer.phone ? [customer.phone.replace(/\D/g, '')] : [])];
+      let total = 0;
+      for (const q of queryTokens) {
+        const score = Math.max(tokenScore(q, name), tokenScore(q, rest) * 0.9);
+        if (score === 0) return { customer, score: 0 };
+        total += score;
+      }
+      return { customer, score: total / queryTokens.length };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.customer.name.localeCompare(b.customer.name))
+    .slice(0, limit)
+    .map(match => match.customer);
+};
+
+export const customerToStop = (customer: Customer): DeliveryStop => {
+  const stop: DeliveryStop = {
+    id: crypto.randomUUID(),
+    customerName: customer.name,
+    address: customer.address,
+    coords: customer.coords,
+    priority: customer.priority ?? 'medium'
+  };
+  if (customer.timeWindow && (customer.timeWindow.earliest || customer.timeWindow.latest)) stop.timeWindow = { ...customer.timeWindow };
+  if (customer.phone) stop.phone = customer.phone;
+  if (customer.notes) stop.notes = customer.notes;
+  return stop;
+};
+
+export const findCustomerForStop = (customers: Customer[], stop: Pick<DeliveryStop, 'address' | 'coords'>): Customer | undefined =>
+  customers.find(customer => isDuplicateOf(stop, [customer]));
+
+/** Saves a stop into the directory, refreshing the matching record if there is one. */
+export const saveStopAsCustomer = (customers: Customer[], stop: DeliveryStop): Customer[] => {
+  const existing = findCustomerForStop(customers, stop);
+  const record: Customer = {
+    ...existing,
+    id: existing?.id ?? crypto.randomUUID(),
+    name: stop.customerName,
+    address: stop.address,
+    coords: stop.coords,
+    priority: stop.priority
+  };
+  if (stop.timeWindow) record.timeWindow = { ...stop.timeWindow };
+  if (stop.phone) record.phone = stop.phone;
+  if (stop.notes) record.notes = stop.notes;
+  return existing ? customers.map(c => (c.id === existing.id ? record : c)) : [...customers, record];
+};
+
+const optionalText = (value?: string) => (value && value.trim() ? value.trim() : undefined);
+
+export const parseCustomerCsv = (text: string): CustomerDraft[] =>
+  parseCsvRecords(text)
+    .map((record): CustomerDraft => {
+      const lat = Number((record.lat ?? record.latitude ?? '').replace(',', '.'));
+      const lng = Number((record.lng ?? record.lon ?? record.longitude ?? '').replace(',', '.'));
+      const hasCoords = (record.lat ?? record.latitude) && (record.lng ?? record.lon ?? record.longitude) && Number.isFinite(lat) && Number.isFinite(lng);
+      const earliest = optionalText(record.earliest);
+      const latest = optionalText(record.latest);
+      return {
+        id: crypto.randomUUID(),
+        name: record.name ?? record.customer ?? '',
+        address: record.address ?? '',
+        coords: hasCoords ? { lat, lng } : undefined,
+        priority: normalizePriority(record.priority, 'medium'),
+        phone: optionalText(record.phone),
+        notes: optionalText(record.notes),
+        timeWindow: earliest || latest ? { earliest, latest } : undefined
+      };
+    })
+    .filter(draft => draft.address || draft.coords);
+
+export const formatCustomerCsv = (customers: Customer[]): string => formatCsv([
+  ['name', 'address', 'lat', 'lng', 'priority', 'phone', 'earliest', 'latest', 'notes'],
+  ...customers.map(c => [
+    c.name,
+    c.address,
+    c.coords.lat.toFixed(6),
+    c.coords.lng.toFixed(6),
+    c.priority,
+    c.phone,
+    c.timeWindow?.earliest,
+    c.timeWindow?.latest,
+    c.notes
+  ])
+]);
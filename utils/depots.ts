@@ -0,0 +1,21 @@
+import { Coordinate, Depot, RouteEnd } from '../types';
+
+export const DEFAULT_ROUTE_END: RouteEnd = { mode: 'return' };
+
+/** Where vehicles finish for a route starting at `start`, or undefined when they stop at their last delivery. */
+export const routeEndpoint = (routeEnd: RouteEnd, start: Coordinate): Coordinate | undefined => {
+  if (routeEnd.mode === 'last_stop') return undefined;
+  return routeEnd.mode === 'depot' && routeEnd.coords ? routeEnd.coords : start;
+};
+
+export const depotRouteEnd = (depot: Depot): RouteEnd => ({ mode: 'depot', depotId: depot.id, coords: depot.coords });
+
+/** Select value for a route end; depots are encoded as `depot:<id>`. */
+export const routeEndKey = (routeEnd: RouteEnd): string =>
+  routeEnd.mode === 'depot' ? `depot:${routeEnd.depotId}` : routeEnd.mode;
+
+export const parseRouteEndKey = (key: string, depots: Depot[]): RouteEnd => {
+  const depot = key.startsWith('depot:') ? depots.find(d => d.id === key.slice('depot:'.length)) : undefined;
+  if (depot) return depotRouteEnd(depot);
+  return { mode: key === 'last_stop' ? 'last_stop' : 'return' };
+};
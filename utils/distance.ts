@@ -0,0 +1,54 @@
+import { Coordinate } from '../types';
+
+export type DistanceUnit = 'km' | 'mi';
+
+/**
+ * A source of travel distances in kilometres. `matrix` lets backends that
+ * answer in bulk (e.g. road-network services) avoid one request per leg.
+ */
+export interface DistanceModel {
+  id: string;
+  distance: (a: Coordinate, b: Coordinate) => number;
+  matrix: (points: Coordinate[]) => number[][];
+  /** Free-flow driving minutes, when the backend knows them for this leg. */
+  duration?: (a: Coordinate, b: Coordinate) => number | undefined;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+const KM_PER_MILE = 1.609344;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+export const haversineDistance = (a: Coordinate, b: Coordinate): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const haversineModel: DistanceModel = {
+  id: 'haversine',
+  distance: haversineDistance,
+  matrix: (points) => points.map(a => points.map(b => haversineDistance(a, b)))
+};
+
+let activeModel: DistanceModel = haversineModel;
+
+export const getDistanceModel = (): DistanceModel => activeModel;
+
+export const setDistanceModel = (model: DistanceModel) => {
+  activeModel = model;
+};
+
+export const calculateDistance = (a: Coordinate, b: Coordinate): number => activeModel.distance(a, b);
+
+export const buildDistanceMatrix = (points: Coordinate[]): number[][] => activeModel.matrix(points);
+
+export const calculateDuration = (a: Coordinate, b: Coordinate): number | undefined => activeModel.duration?.(a, b);
+
+export const convertDistance = (km: number, unit: DistanceUnit): number =>
+  unit === 'mi' ? km / KM_PER_MILE : km;
+
+export const formatDistance = (km: number, unit: DistanceUnit, digits: number = 1): string =>
+  `${convertDistance(km, unit).toFixed(digits)} ${unit}`;
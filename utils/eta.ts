@@ -0,0 +1,77 @@
+import { DeliveryStop, Coordinate } from '../types';
+import { scheduleRoute, parseClockTime, ScheduleOptions, SpeedProfile, StopSchedule, URBAN_SPEED_PROFILE } from './schedule';
+import { groupByVehicle } from './fleet';
+
+export interface EtaOptions {
+  speedProfile?: SpeedProfile;
+  defaultServiceMinutes?: number;
+}
+
+export const minutesSinceMidnight = (date: Date): number =>
+  date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+
+/** Today at the given "HH:mm" / "h:mm AM" clock time, local time zone. */
+export const startTimeToday = (clock: string): Date => {
+  const minutes = parseClockTime(clock) ?? 0;
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date;
+};
+
+export const scheduleOptionsFor = (startAt: Date, options: EtaOptions = {}): ScheduleOptions => ({
+  startMinutes: minutesSinceMidnight(startAt),
+  speedProfile: options.speedProfile ?? URBAN_SPEED_PROFILE,
+  defaultServiceMinutes: options.defaultServiceMinutes
+});
+
+/** Converts schedule minutes back to an absolute instant; runs past midnight roll into the next day. */
+export const toTimestamp = (startAt: Date, minutes: number): string =>
+  new Date(startAt.getTime() + (minutes - minutesSinceMidnight(startAt)) * 60000).toISOString();
+
+/** Schedules every vehicle's run from the depot, keyed by stop id. */
+export const scheduleManifest = (depot: Coordinate, stops: DeliveryStop[], startAt: Date, options: EtaOptions = {}): Map<string, StopSchedule> => {
+  const entries = new Map<string, StopSchedule>();
+  const scheduleOptions = scheduleOptionsFor(startAt, options);
+  groupByVehicle(stops).forEach(group => {
+    scheduleRoute(depot, group.stops, scheduleOptions).forEach(entry => entries.set(entry.stopId, entry));
+  });
+  return entries;
+};
+
+/**
+ * Stamps each stop with an ISO arrival timestamp and the traffic expected on
+ * the leg leading to it. Fully local: leg distance, speed profile and service
+ * times only.
+ */
+export const applyEtas = (depot: Coordinate, stops: DeliveryStop[], startAt: Date, options: EtaOptions = {}): DeliveryStop[] => {
+  const schedule = scheduleManifest(depot, stops, startAt, options);
+  return stops.map(stop => {
+    const entry = schedule.get(stop.id);
+    if (!entry) return stop;
+    return { ...stop, eta: toTimestamp(startAt, entry.arrivalMinutes), trafficCondition: entry.traffic };
+  });
+};
+
+export const formatEta = (eta: string, locale: string): string =>
+  new Date(eta).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+export interface EtaChange {
+  stopId: string;
+  previousEta: string;
+  eta: string;
+  /** Positive when the stop is now expected later. */
+  deltaMinutes: number;
+}
+
+/** Stops whose ETA moved by at least `thresholdMinutes` between two runs; stops new to `next` are ignored. */
+export const diffEtas = (previous: DeliveryStop[], next: DeliveryStop[], thresholdMinutes: number = 1): EtaChange[] => {
+  const before = new Map(previous.filter(stop => stop.eta).map(stop => [stop.id, stop.eta!]));
+  const changes: EtaChange[] = [];
+  next.forEach(stop => {
+    const previousEta = before.get(stop.id);
+    if (!previousEta || !stop.eta) return;
+    const deltaMinutes = Math.round((Date.parse(stop.eta) - Date.parse(previousEta)) / 60000);
+    if (Math.abs(deltaMinutes) >= thresholdMinutes) changes.push({ stopId: stop.id, previousEta, eta: stop.eta, deltaMinutes });
+  });
+  return changes;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryStop, StopStatus } from '../types';
+import { carryOverExecution, mergeAssignedStops, mergeDriverProgress, replanRemaining } from './execution';
+
+const stop = (id: string, vehicleId?: string, status?: StopStatus): DeliveryStop => ({
+  id, address: id, customerName: id, priority: 'low', coords: { lat: 0, lng: 0 }, vehicleId,
+  ...(status ? { execution: { status } } : {})
+});
+
+const summary = (stops: DeliveryStop[]) => stops.map(s => `${s.id}:${s.execution?.status ?? '-'}`);
+
+describe('carryOverExecution', () => {
+  it('keeps local progress the incoming copy lacks', () => {
+    expect(summary(carryOverExecution([stop('a'), stop('b', undefined, 'failed')], [stop('a', undefined, 'delivered'), stop('b', undefined, 'arrived')])))
+      .toEqual(['a:delivered', 'b:failed']);
+  });
+});
+
+describe('mergeAssignedStops', () => {
+  const from = (assignedBy: string, stops: DeliveryStop[]) => stops.map(s => ({ ...s, assignedBy }));
+
+  it('replaces only the stops the changed manifest assigned', () => {
+    const local = [...from('anna', [stop('a', 'v1', 'delivered'), stop('b', 'v1')]), ...from('ben', [stop('c', 'v2')])];
+    const merged = mergeAssignedStops(local, [stop('a', 'v1'), stop('d', 'v1')], 'anna');
+    expect(summary(merged)).toEqual(['c:-', 'a:delivered', 'd:-']);
+    expect(merged.map(s => s.assignedBy)).toEqual(['ben', 'anna', 'anna']);
+  });
+
+  it('drops everything from a manifest that no longer assigns anything', () => {
+    const local = [...from('anna', [stop('a', 'v1')]), ...from('ben', [stop('c', 'v2')])];
+    expect(summary(mergeAssignedStops(local, [], 'anna'))).toEqual(['c:-']);
+  });
+});
+
+describe('mergeDriverProgress', () => {
+  it('takes the driver\'s progress for stops still on the same vehicle', () => {
+    const local = [stop('a', 'v1', 'arrived'), stop('b', 'v1'), stop('c', 'v2')];
+    const driver = [stop('a', 'v1', 'delivered'), stop('b', 'v1'), stop('c', 'v9', 'failed')];
+    expect(summary(mergeDriverProgress(local, driver))).toEqual(['a:delivered', 'b:-', 'c:-']);
+  });
+
+  it('returns the same list when the driver has no progress', () => {
+    const local = [stop('a', 'v1')];
+    expect(mergeDriverProgress(local, [stop('a', 'v1')])).toBe(local);
+  });
+});
+
+describe('replanRemaining', () => {
+  const depot = { lat: 0, lng: 0 };
+  const now = new Date('2026-03-03T10:30:00');
+  // Stops along the equator, `east` hundredths of a degree out from the depot.
+  const at = (id: string, east: number, execution?: DeliveryStop['execution']): DeliveryStop => ({
+    ...stop(id, 'v1'), coords: { lat: 0, lng: east / 100 }, ...(execution ? { execution } : {})
+  });
+
+  it('keeps finished stops as they were and re-plans the open ones from the last of them', () => {
+    const a = at('a', 1, { status: 'delivered', completedAt: '2026-03-03T10:00:00' });
+    const b = at('b', 3, { status: 'delivered', completedAt: '2026-03-03T09:00:00' });
+    const result = replanRemaining(depot, [a, b, at('c', 5), at('d', 2)], now, { timeBudgetMs: 50 });
+    expect(result.map(s => s.id)).toEqual(['b', 'a', 'd', 'c']);
+    expect(result[0]).toBe(b);
+    expect(result[1]).toBe(a);
+    expect(result.slice(2).map(s => [s.execution?.status, s.execution?.plannedEta === s.eta])).toEqual([['pending', true], ['pending', true]]);
+  });
+
+  it('keeps the stop the driver has arrived at first and its arrival time', () => {
+    const arrived = at('b', 4, { status: 'arrived', arrivedAt: '2026-03-03T10:25:00' });
+    const result = replanRemaining(depot, [at('a', 1), arrived, at('c', 3)], now, { timeBudgetMs: 50 });
+    expect(result.map(s => s.id)).toEqual(['b', 'c', 'a']);
+    expect(result[0].eta).toBe('2026-03-03T10:25:00');
+  });
+
+  it('leaves the open order alone when asked not to reorder', () => {
+    const done = at('a', 1, { status: 'failed', completedAt: '2026-03-03T10:00:00' });
+    const result = replanRemaining(depot, [done, at('c', 5), at('d', 2)], now, { reorder: false });
+    expect(result.map(s => s.id)).toEqual(['a', 'c', 'd']);
+  });
+});
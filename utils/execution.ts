@@ -0,0 +1,151 @@
+import { DeliveryStop, Coordinate, StopStatus, StopExecution } from '../types';
+import { optimizeRoute } from './optimizer';
+import { scheduleRoute } from './schedule';
+import { groupByVehicle } from './fleet';
+import { scheduleOptionsFor, toTimestamp, EtaOptions } from './eta';
+
+export const FAILURE_REASONS = ['not_home', 'refused', 'wrong_address', 'no_access', 'damaged', 'other'] as const;
+export type FailureReason = typeof FAILURE_REASONS[number];
+
+export interface ReplanOptions extends EtaOptions {
+  /** Live position of the driver; only used when the manifest is a single route. */
+  position?: Coordinate;
+  /** When false the open stops keep their order and are only re-timed. */
+  reorder?: boolean;
+  /** Where each vehicle finishes; see `OptimizerOptions.end`. */
+  end?: Coordinate;
+  timeBudgetMs?: number;
+}
+
+export interface RunSummary {
+  total: number;
+  counts: Record<StopStatus, number>;
+  /** Mean of actual minus planned arrival over stops that have both. */
+  averageDelayMinutes: number | null;
+  onTime: number;
+}
+
+// Arrivals within this many minutes of the planned ETA count as on time.
+export const ON_TIME_TOLERANCE_MINUTES = 5;
+
+export const stopStatus = (stop: DeliveryStop): StopStatus => stop.execution?.status ?? 'pending';
+
+export const isStopOpen = (stop: DeliveryStop): boolean => {
+  const status = stopStatus(stop);
+  return status === 'pending' || status === 'arrived';
+};
+
+/** Freezes the current ETAs as the plan and resets every stop to pending. */
+export const beginExecution = (stops: DeliveryStop[]): DeliveryStop[] =>
+  stops.map(stop => ({ ...stop, execution: { status: 'pending', plannedEta: stop.eta } }));
+
+export const markStop = (stop: DeliveryStop, status: StopStatus, at: Date, failureReason?: string): DeliveryStop => {
+  const timestamp = at.toISOString();
+  const execution: StopExecution = { status, plannedEta: stop.execution?.plannedEta ?? stop.eta };
+  if (status === 'arrived') {
+    execution.arrivedAt = timestamp;
+  } else if (status !== 'pending') {
+    // Delivering or failing implies the driver got there, even if "arrived" was never tapped.
+    execution.arrivedAt = stop.execution?.arrivedAt ?? (status === 'skipped' ? undefined : timestamp);
+    execution.completedAt = timestamp;
+    if (status === 'failed') execution.failureReason = failureReason;
+  }
+  return { ...stop, execution };
+};
+
+const completedTime = (stop: DeliveryStop) => Date.parse(stop.execution?.completedAt ?? '') || 0;
+
+/**
+ * Keeps finished stops at the head of each vehicle's run in the order they were
+ * completed and re-plans the open ones from where the driver is now: the stop
+ * they have arrived at, the live position, or the last finished stop.
+ */
+export const replanRemaining = (depot: Coordinate, stops: DeliveryStop[], now: Date, options: ReplanOptions = {}): DeliveryStop[] => {
+  const groups = groupByVehicle(stops);
+  const schedule = scheduleOptionsFor(now, options);
+
+  return groups.flatMap(group => {
+    const done = group.stops.filter(stop => !isStopOpen(stop)).sort((a, b) => completedTime(a) - completedTime(b));
+    const arrived = group.stops.filter(stop => stopStatus(stop) === 'arrived');
+    const pending = group.stops.filter(stop => stopStatus(stop) === 'pending');
+    const lastDone = done.filter(stop => stopStatus(stop) !== 'skipped').pop();
+    const origin = arrived.length > 0
+      ? arrived[arrived.length - 1].coords
+      : (groups.length === 1 && options.position) || lastDone?.coords || depot;
+
+    const ordered = options.reorder !== false && pending.length > 1
+      ? optimizeRoute(origin, pending, { timeBudgetMs: options.timeBudgetMs, schedule, end: options.end }).stops
+      : pending;
+    const open = [...arrived, ...ordered];
+    const times = new Map(scheduleRoute(origin, open, schedule).map(entry => [entry.stopId, entry]));
+
+    return [
+      ...done,
+      ...open.map(stop => {
+        const entry = times.get(stop.id)!;
+        const eta = stopStatus(stop) === 'arrived' ? stop.execution!.arrivedAt! : toTimestamp(now, entry.arrivalMinutes);
+        return {
+          ...stop,
+          eta,
+          trafficCondition: entry.traffic,
+          execution: { ...(stop.execution ?? { status: 'pending' as StopStatus }), plannedEta: stop.execution?.plannedEta ?? eta }
+        };
+      })
+    ];
+  });
+};
+
+export const delayMinutes = (stop: DeliveryStop): number | null => {
+  const planned = stop.execution?.plannedEta;
+  const actual = stop.execution?.arrivedAt;
+  if (!planned || !actual) return null;
+  return Math.round((Date.parse(actual) - Date.parse(planned)) / 60000);
+};
+
+export const summarizeRun = (stops: DeliveryStop[]): RunSummary => {
+  const counts: Record<StopStatus, number> = { pending: 0, arrived: 0, delivered: 0, failed: 0, skipped: 0 };
+  const delays: number[] = [];
+  stops.forEach(stop => {
+    counts[stopStatus(stop)]++;
+    const delay = delayMinutes(stop);
+    if (delay !== null) delays.push(delay);
+  });
+  return {
+    total: stops.length,
+    counts,
+    averageDelayMinutes: delays.length > 0 ? delays.reduce((sum, d) => sum + d, 0) / delays.length : null,
+    onTime: delays.filter(d => d <= ON_TIME_TOLERANCE_MINUTES).length
+  };
+};
+
+/**
+ * Keeps the progress recorded on this device when a newer copy of the
+ * manifest arrives without it, e.g. after the dispatcher moved a stop.
+ */
+export const carryOverExecution = (incoming: DeliveryStop[], local: DeliveryStop[]): DeliveryStop[] => {
+  const byId = new Map(local.map(stop => [stop.id, stop]));
+  return incoming.map(stop => {
+    const previous = byId.get(stop.id);
+    if (!previous?.execution || stop.execution) return stop;
+    return previous.proof ? { ...stop, execution: previous.execution, proof: previous.proof } : { ...stop, execution: previous.execution };
+  });
+};
+
+/**
+ * A driver's stop list after the manifest of account `source` changed: the
+ * stops it assigned before are replaced, those from other manifests stay.
+ */
+export const mergeAssignedStops = (local: DeliveryStop[], incoming: DeliveryStop[], source: string): DeliveryStop[] => {
+  const incomingIds = new Set(incoming.map(stop => stop.id));
+  const kept = local.filter(stop => stop.assignedBy !== source && !incomingIds.has(stop.id));
+  return [...kept, ...carryOverExecution(incoming, local).map(stop => ({ ...stop, assignedBy: source }))];
+};
+
+/** Takes the progress a driver recorded into the dispatcher's copy of the same stops on the same vehicles. */
+export const mergeDriverProgress = (local: DeliveryStop[], driverStops: DeliveryStop[]): DeliveryStop[] => {
+  const vehicleOf = new Map(local.map(stop => [stop.id, stop.vehicleId]));
+  const progressed = driverStops.filter(stop => stop.execution && stop.vehicleId && vehicleOf.get(stop.id) === stop.vehicleId);
+  if (progressed.length === 0) return local;
+  const ids = new Set(progressed.map(stop => stop.id));
+  return carryOverExecution(local.map(stop => ids.has(stop.id) ? { ...stop, execution: undefined, proof: undefined } : stop), progressed);
+};
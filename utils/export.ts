@@ -0,0 +1,217 @@
+import { DeliveryStop, Coordinate, Vehicle } from '../types';
+import { formatCsv } from './csv';
+import { groupByVehicle } from './fleet';
+import { formatEta } from './eta';
+import { calculateDistance, formatDistance, DistanceUnit } from './distance';
+import { StopDetailLabels, formatPackages, stopDetailLines } from './stopDetails';
+
+export type ExportFormat = 'csv' | 'gpx' | 'kml';
+
+export interface ExportContext {
+  name: string;
+  depot: Coordinate;
+  stops: DeliveryStop[];
+  vehicles: Vehicle[];
+}
+
+export interface DriverSheetLabels {
+  title: string;
+  stop: string;
+  customer: string;
+  address: string;
+  eta: string;
+  window: string;
+  traffic: string;
+  notes: string;
+  signature: string;
+  depot: string;
+  totalDistance: string;
+  unassigned: string;
+  details: StopDetailLabels;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const vehicleName = (vehicles: Vehicle[], id?: string) => vehicles.find(v => v.id === id)?.name ?? '';
+
+const windowText = (stop: DeliveryStop) =>
+  stop.timeWindow ? `${stop.timeWindow.earliest ?? ''}-${stop.timeWindow.latest ?? ''}` : '';
+
+export const exportCsv = ({ stops, vehicles }: ExportContext): string => formatCsv([
+  ['sequence', 'vehicle', 'customer', 'address', 'lat', 'lng', 'priority', 'time_window', 'service_minutes', 'demand', 'eta', 'traffic', 'phone', 'access', 'packages', 'cod', 'notes'],
+  ...stops.map((stop, i) => [
+    i + 1,
+    vehicleName(vehicles, stop.vehicleId),
+    stop.customerName,
+    stop.address,
+    stop.coords.lat.toFixed(6),
+    stop.coords.lng.toFixed(6),
+    stop.priority,
+    windowText(stop),
+    stop.serviceMinutes,
+    stop.demand,
+    stop.eta,
+    stop.trafficCondition,
+    stop.phone,
+    stop.accessInstructions,
+    formatPackages(stop.packages),
+    stop.codAmount?.toFixed(2),
+    stop.notes
+  ])
+]);
+
+/** GPX 1.1 with every stop as a waypoint and one route per vehicle starting at the depot. */
+export const exportGpx = ({ name, depot, stops, vehicles }: ExportContext): string => {
+  // Child order follows the GPX schema: time, name, desc, type
+  const point = (tag: string, coords: Coordinate, label: string, detail: { time?: string; desc?: string; type?: string } = {}) =>
+    `<${tag} lat="${coords.lat.toFixed(6)}" lon="${coords.lng.toFixed(6)}">`
+    + (detail.time ? `<time>${detail.time}</time>` : '')
+    + `<name>${escapeXml(label)}</name>`
+    + (detail.desc ? `<desc>${escapeXml(detail.desc)}</desc>` : '')
+    + (detail.type ? `<type>${detail.type}</type>` : '')
+    + `</${tag}>`;
+
+  const waypoints = stops.map((stop, i) => point('wpt', stop.coords, `${i + 1}. ${stop.customerName}`, { time: stop.eta, desc: [stop.address, stop.phone, stop.accessInstructions, stop.notes].filter(Boolean).join(' | '), type: stop.priority }));
+
+  const routes = groupByVehicle(stops).map(group => [
+    `  <rte><name>${escapeXml(vehicleName(vehicles, group.vehicleId) || name)}</name>`,
+    `    ${point('rtept', depot, 'Depot')}`,
+    ...group.stops.map(stop => `    ${point('rtept', stop.coords, stop.customerName)}`),
+    '  </rte>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="SwiftRoute" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints.map(w => `  ${w}`),
+    ...routes,
+    '</gpx>'
+  ].join('\n');
+};
+
+export const exportKml = ({ name, depot, stops, vehicles }: ExportContext): string => {
+  const lngLat = (c: Coordinate) => `${c.lng.toFixed(6)},${c.lat.toFixed(6)},0`;
+  const kmlColor = (hex?: string) => {
+    const h = (hex ?? '#3b82f6').replace('#', '');
+    return `ff${h.slice(4, 6)}${h.slice(2, 4)}${h.slice(0, 2)}`;
+  };
+
+  const placemarks = [
+    `    <Placemark><name>Depot</name><Point><coordinates>${lngLat(depot)}</coordinates></Point></Placemark>`,
+    ...stops.map((stop, i) => `    <Placemark><name>${i + 1}. ${escapeXml(stop.customerName)}</name><description>${escapeXml([stop.address, stop.eta, windowText(stop), stop.phone, stop.accessInstructions, formatPackages(stop.packages), stop.notes].filter(Boolean).join(' | '))}</description><Point><coordinates>${lngLat(stop.coords)}</coordinates></Point></Placemark>`),
+    ...groupByVehicle(stops).map(group => {
+      const vehicle = vehicles.find(v => v.id === group.vehicleId);
+      return `    <Placemark><name>${escapeXml(vehicle?.name ?? name)}</name><Style><LineStyle><color>${kmlColor(vehicle?.color)}</color><width>4</width></LineStyle></Style><LineString><tessellate>1</tessellate><coordinates>${[depot, ...group.stops.map(s => s.coords)].map(lngLat).join(' ')}</coordinates></LineString></Placemark>`;
+    })
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>'
+  ].join('\n');
+};
+
+const EXPORTERS: Record<ExportFormat, { serialize: (ctx: ExportContext) => string; mime: string }> = {
+  csv: { serialize: exportCsv, mime: 'text/csv;charset=utf-8' },
+  gpx: { serialize: exportGpx, mime: 'application/gpx+xml' },
+  kml: { serialize: exportKml, mime: 'application/vnd.google-earth.kml+xml' }
+};
+
+export const exportFileName = (name: string, extension: string) =>
+  `${name.trim().replace(/[^\w-]+/g, '_') || 'manifest'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export const downloadFile = (content: BlobPart, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportManifest = (format: ExportFormat, ctx: ExportContext) => {
+  const { serialize, mime } = EXPORTERS[format];
+  downloadFile(serialize(ctx), exportFileName(ctx.name, format), mime);
+};
+
+/** Self-contained, print-optimised HTML run sheet; one section per vehicle. */
+export const buildDriverSheet = (ctx: ExportContext, labels: DriverSheetLabels, options: { locale: string; unit: DistanceUnit; mapSvg?: string | null }): string => {
+  const sections = groupByVehicle(ctx.stops).map(group => {
+    const vehicle = ctx.vehicles.find(v => v.id === group.vehicleId);
+    let distance = 0;
+    group.stops.forEach((stop, i) => { distance += calculateDistance(i === 0 ? ctx.depot : group.stops[i - 1].coords, stop.coords); });
+    const heading = vehicle?.name ?? (ctx.vehicles.length > 0 ? labels.unassigned : ctx.name);
+    const rows = group.stops.map(stop => `
+        <tr>
+          <td class="seq">${ctx.stops.indexOf(stop) + 1}</td>
+          <td><strong>${escapeXml(stop.customerName)}</strong>${stop.priority === 'high' ? ' <span class="badge">!</span>' : ''}</td>
+          <td>${escapeXml(stop.address)}${stopDetailLines(stop, labels.details, options.locale).map(line => `<div class="detail">${escapeXml(line)}</div>`).join('')}</td>
+          <td>${stop.eta ? formatEta(stop.eta, options.locale) : ''}</td>
+          <td>${escapeXml(windowText(stop))}</td>
+          <td>${stop.trafficCondition ?? ''}</td>
+          <td class="sign"></td>
+        </tr>`).join('');
+    return `
+      <section>
+        <h2>${escapeXml(heading)} <small>${group.stops.length} · ${labels.totalDistance} ${formatDistance(distance, options.unit)}</small></h2>
+        <table>
+          <thead><tr><th>${labels.stop}</th><th>${labels.customer}</th><th>${labels.address}</th><th>${labels.eta}</th><th>${labels.window}</th><th>${labels.traffic}</th><th>${labels.signature}</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(`${labels.title} – ${ctx.name}`)}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: Inter, Arial, sans-serif; color: #0f172a; font-size: 11px; }
+  h1 { font-size: 18px; margin: 0 0 4px; text-transform: uppercase; letter-spacing: 0.05em; }
+  h2 { font-size: 13px; margin: 18px 0 6px; border-bottom: 2px solid #0f172a; padding-bottom: 3px; }
+  h2 small { font-weight: 600; color: #64748b; }
+  .meta { color: #64748b; margin-bottom: 10px; }
+  .map { border: 1px solid #cbd5e1; border-radius: 8px; overflow: hidden; height: 260px; margin-bottom: 8px; }
+  .map svg { width: 100%; height: 100%; }
+  table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; font-size: 9px; text-transform: uppercase; color: #64748b; border-bottom: 1px solid #cbd5e1; padding: 4px; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 6px 4px; vertical-align: top; }
+  td.seq { font-weight: 800; width: 24px; }
+  td.sign { width: 110px; }
+  .detail { color: #334155; font-size: 10px; margin-top: 2px; }
+  .badge { background: #0f172a; color: white; border-radius: 4px; padding: 0 4px; font-size: 9px; }
+</style>
+</head>
+<body>
+  <h1>${escapeXml(labels.title)}</h1>
+  <div class="meta">${escapeXml(ctx.name)} · ${new Date().toLocaleDateString(options.locale)} · ${labels.depot}: ${ctx.depot.lat.toFixed(5)}, ${ctx.depot.lng.toFixed(5)}</div>
+  ${options.mapSvg ? `<div class="map">${options.mapSvg}</div>` : ''}
+  ${sections}
+  <h2>${labels.notes}</h2>
+  <div style="height: 80px; border: 1px dashed #cbd5e1; border-radius: 8px;"></div>
+</body>
+</html>`;
+};
+
+export const printDriverSheet = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 300);
+  return true;
+};
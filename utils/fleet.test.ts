@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryStop, Vehicle } from '../types';
+import { planFleet } from './fleet';
+
+const depot = { lat: 0, lng: 0 };
+
+const stop = (id: string, lat: number, lng: number, extra: Partial<DeliveryStop> = {}): DeliveryStop => ({
+  id, address: id, customerName: id, priority: 'low', coords: { lat, lng }, vehicleId: 'stale', ...extra
+});
+
+const vehicle = (id: string, capacity: number, shiftMinutes = 600): Vehicle => ({ id, name: id, capacity, shiftMinutes, color: '#000' });
+
+// One stop on each side of the depot; by bearing they come south, east, north, west.
+const compass = () => [stop('n', 0.01, 0), stop('w', 0, -0.01), stop('s', -0.01, 0), stop('e', 0, 0.01)];
+
+const ids = (stops: DeliveryStop[]) => stops.map(s => s.id).sort();
+
+describe('planFleet', () => {
+  it('hands stops to each vehicle in bearing order up to its capacity', () => {
+    const plan = planFleet(depot, compass(), [vehicle('v1', 2), vehicle('v2', 2)], { timeBudgetMs: 50 });
+    expect(plan.routes.map(route => [route.vehicle.id, ids(route.stops), route.load])).toEqual([['v1', ['e', 's'], 2], ['v2', ['n', 'w'], 2]]);
+    expect(plan.routes.every(route => route.stops.every(s => s.vehicleId === route.vehicle.id))).toBe(true);
+    expect(plan.unassigned).toEqual([]);
+  });
+
+  it('counts demand against capacity and leaves the overflow unassigned', () => {
+    const stops = compass().map(s => ({ ...s, demand: 2 }));
+    const plan = planFleet(depot, stops, [vehicle('v1', 3), vehicle('v2', 4)], { timeBudgetMs: 50 });
+    expect(plan.routes.map(route => [route.vehicle.id, ids(route.stops), route.load])).toEqual([['v1', ['s'], 2], ['v2', ['e', 'n'], 4]]);
+    expect(plan.unassigned.map(s => [s.id, s.vehicleId])).toEqual([['w', undefined]]);
+  });
+
+  it('skips stops too large for an empty vehicle but keeps filling it', () => {
+    const stops = [stop('s', -0.01, 0, { demand: 5 }), stop('e', 0, 0.01), stop('n', 0.01, 0)];
+    const plan = planFleet(depot, stops, [vehicle('v1', 2)], { timeBudgetMs: 50 });
+    expect(ids(plan.routes[0].stops)).toEqual(['e', 'n']);
+    expect(ids(plan.unassigned)).toEqual(['s']);
+  });
+
+  it('leaves stops beyond the shift length unassigned', () => {
+    // Roughly 11 km out, far more than a five-minute shift allows.
+    const plan = planFleet(depot, [stop('far', 0.1, 0)], [vehicle('v1', 10, 5)], { timeBudgetMs: 50 });
+    expect(plan.routes).toEqual([]);
+    expect(ids(plan.unassigned)).toEqual(['far']);
+  });
+});
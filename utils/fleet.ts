@@ -0,0 +1,119 @@
+import { DeliveryStop, Coordinate, Vehicle } from '../types';
+import { optimizeRoute, OptimizerOptions, OptimizationResult, DEFAULT_TIME_BUDGET_MS } from './optimizer';
+import { scheduleRoute, driveMinutes, ScheduleOptions } from './schedule';
+
+export const VEHICLE_COLORS = ['#3b82f6', '#f97316', '#8b5cf6', '#14b8a6', '#ec4899', '#84cc16', '#eab308', '#06b6d4'];
+
+export interface VehicleRoute {
+  vehicle: Vehicle;
+  stops: DeliveryStop[];
+  load: number;
+  durationMinutes: number;
+  result: OptimizationResult;
+}
+
+export interface FleetPlan {
+  routes: VehicleRoute[];
+  /** Stops no vehicle could take within capacity and shift length. */
+  unassigned: DeliveryStop[];
+}
+
+export interface StopGroup {
+  vehicleId?: string;
+  stops: DeliveryStop[];
+}
+
+/** Stops without an explicit demand count as one parcel. */
+export const stopDemand = (stop: DeliveryStop): number => stop.demand ?? 1;
+
+/** Minutes from leaving `start` until the last stop is done, or until `end` is reached when given. */
+export const routeDurationMinutes = (start: Coordinate, stops: DeliveryStop[], schedule: ScheduleOptions, end?: Coordinate): number => {
+  const entries = scheduleRoute(start, stops, schedule);
+  if (entries.length === 0) return 0;
+  const departure = entries[entries.length - 1].departureMinutes;
+  const closing = end ? driveMinutes(stops[stops.length - 1].coords, end, departure, schedule) : 0;
+  return departure + closing - schedule.startMinutes;
+};
+
+/** Splits a flat manifest into consecutive runs that share a `vehicleId`. */
+export const groupByVehicle = (stops: DeliveryStop[]): StopGroup[] => {
+  const groups: StopGroup[] = [];
+  stops.forEach(stop => {
+    const last = groups[groups.length - 1];
+    if (last && last.vehicleId === stop.vehicleId) {
+      last.stops.push(stop);
+    } else {
+      groups.push({ vehicleId: stop.vehicleId, stops: [stop] });
+    }
+  });
+  return groups;
+};
+
+export const combineResults = (results: OptimizationResult[]): OptimizationResult => {
+  const greedyDistance = results.reduce((sum, r) => sum + r.greedyDistance, 0);
+  const optimizedDistance = results.reduce((sum, r) => sum + r.optimizedDistance, 0);
+  return {
+    stops: results.flatMap(r => r.stops),
+    greedyDistance,
+    optimizedDistance,
+    improvement: greedyDistance > 0 ? (greedyDistance - optimizedDistance) / greedyDistance : 0,
+    greedyLateMinutes: results.reduce((sum, r) => sum + r.greedyLateMinutes, 0),
+    lateMinutes: results.reduce((sum, r) => sum + r.lateMinutes, 0),
+    iterations: results.reduce((sum, r) => sum + r.iterations, 0),
+    elapsedMs: results.reduce((sum, r) => sum + r.elapsedMs, 0)
+  };
+};
+
+/**
+ * Sweep heuristic: stops are ordered by bearing from the depot and handed to
+ * each vehicle in turn until its capacity or shift length would be exceeded.
+ * Every vehicle's share is then optimized on its own.
+ */
+export const planFleet = (depot: Coordinate, stops: DeliveryStop[], vehicles: Vehicle[], options: OptimizerOptions = {}): FleetPlan => {
+  const schedule = options.schedule ?? { startMinutes: 0 };
+  const lngScale = Math.cos((depot.lat * Math.PI) / 180);
+  const bearing = (stop: DeliveryStop) => Math.atan2(stop.coords.lat - depot.lat, (stop.coords.lng - depot.lng) * lngScale);
+
+  let queue = [...stops].sort((a, b) => bearing(a) - bearing(b));
+  const assignments: { vehicle: Vehicle; stops: DeliveryStop[]; load: number }[] = [];
+
+  vehicles.forEach(vehicle => {
+    const taken: DeliveryStop[] = [];
+    const remaining: DeliveryStop[] = [];
+    let load = 0;
+    let full = false;
+
+    queue.forEach(stop => {
+      const demand = stopDemand(stop);
+      const fits = !full
+        && load + demand <= vehicle.capacity
+        && routeDurationMinutes(depot, [...taken, stop], schedule, options.end) <= vehicle.shiftMinutes;
+      if (fits) {
+        taken.push(stop);
+        load += demand;
+      } else {
+        if (taken.length > 0) full = true;
+        remaining.push(stop);
+      }
+    });
+
+    queue = remaining;
+    if (taken.length > 0) assignments.push({ vehicle, stops: taken, load });
+  });
+
+  const budget = (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS) / Math.max(1, assignments.length);
+
+  const routes = assignments.map(({ vehicle, stops: assigned, load }) => {
+    const result = optimizeRoute(depot, assigned, { ...options, timeBudgetMs: budget });
+    const ordered = result.stops.map(stop => ({ ...stop, vehicleId: vehicle.id }));
+    return {
+      vehicle,
+      stops: ordered,
+      load,
+      durationMinutes: routeDurationMinutes(depot, ordered, schedule, options.end),
+      result: { ...result, stops: ordered }
+    };
+  });
+
+  return { routes, unassigned: queue.map(stop => ({ ...stop, vehicleId: undefined })) };
+};
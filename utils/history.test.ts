@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryStop } from '../types';
+import { changesSinceOptimization, recordChange, redoChange, undoChange, EMPTY_HISTORY, MAX_HISTORY_ENTRIES, ManifestHistory } from './history';
+
+const stops = (...ids: string[]): DeliveryStop[] =>
+  ids.map(id => ({ id, address: id, customerName: id, priority: 'low', coords: { lat: 0, lng: 0 } }));
+
+const ids = (list: DeliveryStop[] | undefined) => list?.map(stop => stop.id);
+
+describe('manifest history', () => {
+  it('has nothing to undo or redo when empty', () => {
+    expect(undoChange(EMPTY_HISTORY, stops('a'))).toBeNull();
+    expect(redoChange(EMPTY_HISTORY, stops('a'))).toBeNull();
+  });
+
+  it('undoes and redoes by swapping stop lists', () => {
+    const history = recordChange(EMPTY_HISTORY, 'add', stops('a'));
+    const undone = undoChange(history, stops('a', 'b'))!;
+    expect(ids(undone.stops)).toEqual(['a']);
+    expect(undone.command).toBe('add');
+
+    const redone = redoChange(undone.history, undone.stops)!;
+    expect(ids(redone.stops)).toEqual(['a', 'b']);
+    expect(redone.history.future).toHaveLength(0);
+    expect(ids(undoChange(redone.history, redone.stops)?.stops)).toEqual(['a']);
+  });
+
+  it('drops the redo stack on a new change', () => {
+    const undone = undoChange(recordChange(EMPTY_HISTORY, 'add', stops('a')), stops('a', 'b'))!;
+    const history = recordChange(undone.history, 'remove', undone.stops);
+    expect(history.future).toHaveLength(0);
+    expect(redoChange(history, stops())).toBeNull();
+  });
+
+  it(`keeps only the last ${MAX_HISTORY_ENTRIES} changes`, () => {
+    let history: ManifestHistory = EMPTY_HISTORY;
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 10; i++) history = recordChange(history, 'add', stops(`s${i}`));
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(ids(history.past[0].stops)).toEqual(['s10']);
+
+    let current = stops('latest');
+    let steps = 0;
+    for (let step = undoChange(history, current); step; step = undoChange(history, current)) {
+      history = step.history;
+      current = step.stops;
+      steps++;
+    }
+    expect(steps).toBe(MAX_HISTORY_ENTRIES);
+    expect(history.future).toHaveLength(MAX_HISTORY_ENTRIES);
+  });
+
+  it('counts the edits made since the last optimization', () => {
+    let history = recordChange(EMPTY_HISTORY, 'add', stops());
+    expect(changesSinceOptimization(history)).toBe(1);
+    history = recordChange(history, 'optimize', stops('a'));
+    expect(changesSinceOptimization(history)).toBe(0);
+    history = recordChange(recordChange(history, 'edit', stops('a')), 'move', stops('a'));
+    expect(changesSinceOptimization(history)).toBe(2);
+    expect(changesSinceOptimization(undoChange(history, stops('a'))!.history)).toBe(1);
+  });
+});
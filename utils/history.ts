@@ -0,0 +1,56 @@
+import { DeliveryStop } from '../types';
+
+export type ManifestCommand = 'add' | 'remove' | 'reorder' | 'edit' | 'move' | 'assign' | 'flush' | 'load_template' | 'import' | 'optimize';
+
+/** One manifest change, kept as the stop list it replaced so undo and redo only swap lists. */
+export interface HistoryEntry {
+  command: ManifestCommand;
+  stops: DeliveryStop[];
+  at: string;
+}
+
+export interface ManifestHistory {
+  /** Oldest first; the last entry is undone next. */
+  past: HistoryEntry[];
+  /** The last entry is redone next. */
+  future: HistoryEntry[];
+}
+
+export interface HistoryStep {
+  history: ManifestHistory;
+  stops: DeliveryStop[];
+  command: ManifestCommand;
+}
+
+export const MAX_HISTORY_ENTRIES = 30;
+export const EMPTY_HISTORY: ManifestHistory = { past: [], future: [] };
+
+/** Records that `command` replaced `previous`; a new change drops anything that could have been redone. */
+export const recordChange = (history: ManifestHistory, command: ManifestCommand, previous: DeliveryStop[], at: string = new Date().toISOString()): ManifestHistory => ({
+  past: [...history.past, { command, stops: previous, at }].slice(-MAX_HISTORY_ENTRIES),
+  future: []
+});
+
+export const undoChange = (history: ManifestHistory, current: DeliveryStop[]): HistoryStep | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    stops: entry.stops,
+    command: entry.command,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...entry, stops: current }] }
+  };
+};
+
+export const redoChange = (history: ManifestHistory, current: DeliveryStop[]): HistoryStep | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    stops: entry.stops,
+    command: entry.command,
+    history: { past: [...history.past, { ...entry, stops: current }], future: history.future.slice(0, -1) }
+  };
+};
+
+/** Edits made after the latest optimization still in the stack, or all of them when there is none. */
+export const changesSinceOptimization = (history: ManifestHistory): number =>
+  history.past.length - 1 - history.past.map(entry => entry.command).lastIndexOf('optimize');
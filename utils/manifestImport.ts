@@ -0,0 +1,172 @@
+import * as XLSX from 'xlsx';
+import { DeliveryStop, Coordinate } from '../types';
+import { parseCsv } from './csv';
+import { calculateDistance } from './distance';
+import { parsePackages } from './stopDetails';
+
+export type ImportField =
+  | 'customerName'
+  | 'address'
+  | 'lat'
+  | 'lng'
+  | 'priority'
+  | 'earliest'
+  | 'latest'
+  | 'serviceMinutes'
+  | 'demand'
+  | 'phone'
+  | 'accessInstructions'
+  | 'packages'
+  | 'codAmount'
+  | 'notes';
+
+export const IMPORT_FIELDS: ImportField[] = ['customerName', 'address', 'lat', 'lng', 'priority', 'earliest', 'latest', 'serviceMinutes', 'demand', 'phone', 'accessInstructions', 'packages', 'codAmount', 'notes'];
+
+/** Column index per field; -1 leaves the field unmapped. */
+export type ColumnMapping = Record<ImportField, number>;
+
+export type DraftStatus = 'pending' | 'ok' | 'low_confidence' | 'not_found' | 'duplicate' | 'error';
+
+export interface ImportDraft {
+  key: string;
+  customerName: string;
+  address: string;
+  coords?: Coordinate;
+  confidence?: number;
+  priority: DeliveryStop['priority'];
+  earliest?: string;
+  latest?: string;
+  serviceMinutes?: number;
+  demand?: number;
+  phone?: string;
+  accessInstructions?: string;
+  packages?: string;
+  codAmount?: number;
+  notes?: string;
+  status: DraftStatus;
+  include: boolean;
+}
+
+// Two stops closer than this are treated as the same drop.
+const DUPLICATE_RADIUS_KM = 0.025;
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  customerName: ['name', 'customer', 'customer name', 'kunde', 'cliente', 'recipient'],
+  address: ['address', 'street', 'adresse', 'dirección', 'direccion', 'anschrift'],
+  lat: ['lat', 'latitude', 'breite', 'latitud'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'länge', 'longitud'],
+  priority: ['priority', 'priorität', 'prioridad', 'prio'],
+  earliest: ['earliest', 'from', 'window start', 'von', 'desde'],
+  latest: ['latest', 'until', 'to', 'window end', 'bis', 'hasta'],
+  serviceMinutes: ['service', 'service minutes', 'service time', 'dwell'],
+  demand: ['demand', 'qty', 'quantity', 'parcels', 'menge', 'cantidad', 'weight'],
+  phone: ['phone', 'tel', 'telephone', 'telefon', 'teléfono', 'telefono'],
+  accessInstructions: ['access', 'access code', 'gate code', 'zugang', 'acceso'],
+  packages: ['packages', 'items', 'pakete', 'artikel', 'paquetes', 'artículos'],
+  codAmount: ['cod', 'cash on delivery', 'nachnahme', 'reembolso'],
+  notes: ['notes', 'note', 'comment', 'notizen', 'notas']
+};
+
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx') || name.endsWith('.xls') || name.endsWith('.ods')) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, blankrows: false });
+    return rows.map(row => row.map(cell => (cell === undefined || cell === null ? '' : String(cell))));
+  }
+  return parseCsv(await file.text());
+};
+
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(field => {
+    mapping[field] = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+  });
+  return mapping;
+};
+
+export const normalizePriority = (value: string | undefined, fallback: DeliveryStop['priority']): DeliveryStop['priority'] => {
+  const v = (value ?? '').trim().toLowerCase();
+  if (['high', 'hoch', 'alta', 'express', '1'].includes(v)) return 'high';
+  if (['medium', 'mittel', 'media', '2'].includes(v)) return 'medium';
+  if (['low', 'niedrig', 'baja', '3'].includes(v)) return 'low';
+  return fallback;
+};
+
+const optionalNumber = (value?: string): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value.replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+export const rowsToDrafts = (rows: string[][], mapping: ColumnMapping, defaultPriority: DeliveryStop['priority']): ImportDraft[] =>
+  rows.map((row): ImportDraft => {
+    const cell = (field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]]?.trim() : undefined);
+    const lat = optionalNumber(cell('lat'));
+    const lng = optionalNumber(cell('lng'));
+    const hasCoords = lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+    return {
+      key: crypto.randomUUID(),
+      customerName: cell('customerName') ?? '',
+      address: cell('address') ?? '',
+      coords: hasCoords ? { lat: lat!, lng: lng! } : undefined,
+      confidence: hasCoords ? 1 : undefined,
+      priority: normalizePriority(cell('priority'), defaultPriority),
+      earliest: cell('earliest') || undefined,
+      latest: cell('latest') || undefined,
+      serviceMinutes: optionalNumber(cell('serviceMinutes')),
+      demand: optionalNumber(cell('demand')),
+      phone: cell('phone') || undefined,
+      accessInstructions: cell('accessInstructions') || undefined,
+      packages: cell('packages') || undefined,
+      codAmount: optionalNumber(cell('codAmount')),
+      notes: cell('notes') || undefined,
+      status: hasCoords ? 'ok' : 'pending',
+      include: true
+    };
+  }).filter(draft => draft.address || draft.coords);
+
+const normalizeAddress = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** True when `draft` matches an existing stop by address text or by location. */
+export const isDuplicateOf = (draft: { address: string; coords?: Coordinate }, stops: Pick<DeliveryStop, 'address' | 'coords'>[]): boolean =>
+  stops.some(stop =>
+    (draft.address && normalizeAddress(stop.address) === normalizeAddress(draft.address))
+    || (draft.coords && calculateDistance(stop.coords, draft.coords) < DUPLICATE_RADIUS_KM)
+  );
+
+/**
+ * Flags drafts that repeat an existing stop or an earlier draft in the same
+ * batch and excludes them by default.
+ */
+export const markDuplicates = (drafts: ImportDraft[], existing: DeliveryStop[]): ImportDraft[] => {
+  const seen: Pick<DeliveryStop, 'address' | 'coords'>[] = [...existing];
+  return drafts.map(draft => {
+    if (draft.status === 'duplicate' || !draft.include) return draft;
+    if (isDuplicateOf(draft, seen)) return { ...draft, status: 'duplicate', include: false };
+    if (draft.coords) seen.push({ address: draft.address, coords: draft.coords });
+    return draft;
+  });
+};
+
+export const draftToStop = (draft: ImportDraft): DeliveryStop => {
+  const stop: DeliveryStop = {
+    id: crypto.randomUUID(),
+    customerName: draft.customerName,
+    address: draft.address,
+    priority: draft.priority,
+    coords: draft.coords!,
+    geocodeConfidence: draft.confidence
+  };
+  if (draft.earliest || draft.latest) stop.timeWindow = { earliest: draft.earliest, latest: draft.latest };
+  if (draft.serviceMinutes !== undefined) stop.serviceMinutes = draft.serviceMinutes;
+  if (draft.demand !== undefined) stop.demand = draft.demand;
+  if (draft.phone) stop.phone = draft.phone;
+  if (draft.accessInstructions) stop.accessInstructions = draft.accessInstructions;
+  if (draft.packages) stop.packages = parsePackages(draft.packages);
+  if (draft.codAmount) stop.codAmount = draft.codAmount;
+  if (draft.notes) stop.notes = draft.notes;
+  return stop;
+};
@@ -0,0 +1,77 @@
+import { DeliveryStop } from '../types';
+import { projectMercator } from './tiles';
+
+/** Above this many stops the map paints legs and markers on a canvas instead of SVG. */
+export const DEFAULT_CANVAS_THRESHOLD = 300;
+
+export interface StopCluster {
+  key: string;
+  stops: DeliveryStop[];
+  /** Mean position of the members in Web Mercator zoom-0 pixels. */
+  center: [number, number];
+}
+
+export interface LabelBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface LabelCandidate {
+  id: string;
+  /** Positions to try, most preferred first, in screen pixels. */
+  boxes: LabelBox[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Groups stops sharing a `cellSize`-pixel grid cell at tile zoom `zoom`. Cells
+ * are fixed in world space, so panning never reshuffles clusters. Stops for
+ * which `keepApart` holds are always returned on their own.
+ */
+export const clusterStops = (stops: DeliveryStop[], zoom: number, cellSize: number, keepApart: (stop: DeliveryStop) => boolean = () => false): StopCluster[] => {
+  const scale = 2 ** zoom / cellSize;
+  const clusters: StopCluster[] = [];
+  const cells = new Map<string, DeliveryStop[]>();
+  stops.forEach(stop => {
+    if (keepApart(stop)) {
+      clusters.push({ key: stop.id, stops: [stop], center: projectMercator(stop.coords) });
+      return;
+    }
+    const [x, y] = projectMercator(stop.coords);
+    const cell = `${zoom}:${Math.floor(x * scale)}:${Math.floor(y * scale)}`;
+    const members = cells.get(cell);
+    if (members) members.push(stop);
+    else cells.set(cell, [stop]);
+  });
+  cells.forEach((members, cell) => {
+    const points = members.map(stop => projectMercator(stop.coords));
+    clusters.push({
+      key: members.length === 1 ? members[0].id : cell,
+      stops: members,
+      center: [mean(points.map(p => p[0])), mean(points.map(p => p[1]))]
+    });
+  });
+  return clusters;
+};
+
+const overlaps = (a: LabelBox, b: LabelBox) =>
+  a.left < b.left + b.width && b.left < a.left + a.width && a.top < b.top + b.height && b.top < a.top + a.height;
+
+/**
+ * Greedy collision avoidance. Candidates are placed in order, each at its first
+ * box that overlaps neither the obstacles nor an earlier label. Returns the
+ * chosen box index per id, or -1 where every position collides.
+ */
+export const placeLabels = (candidates: LabelCandidate[], obstacles: LabelBox[] = []): Map<string, number> => {
+  const placed = [...obstacles];
+  const chosen = new Map<string, number>();
+  candidates.forEach(({ id, boxes }) => {
+    const index = boxes.findIndex(box => !placed.some(other => overlaps(box, other)));
+    chosen.set(id, index);
+    if (index !== -1) placed.push(boxes[index]);
+  });
+  return chosen;
+};
@@ -0,0 +1,24 @@
+import { Coordinate } from '../types';
+
+const point = (c: Coordinate) => `${c.lat},${c.lng}`;
+
+export const isAppleMobile = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  return [
+    'iPad Simulator', 'iPhone Simulator', 'iPod Simulator', 'iPad', 'iPhone', 'iPod'
+  ].includes(navigator.platform)
+  || (navigator.userAgent.includes("Mac") && "ontouchend" in document);
+};
+
+/**
+ * Turn-by-turn deep link: Apple Maps on iOS, Google Maps elsewhere. Without
+ * an origin the maps app starts from the device's own location.
+ */
+export const directionsUrl = (destination: Coordinate, { origin, waypoints = [], ios = false }: { origin?: Coordinate; waypoints?: Coordinate[]; ios?: boolean } = {}): string => {
+  if (ios) {
+    return `maps://?${origin ? `saddr=${point(origin)}&` : ''}daddr=${[...waypoints, destination].map(point).join('&daddr=')}`;
+  }
+  return `https://www.google.com/maps/dir/?api=1${origin ? `&origin=${point(origin)}` : ''}&destination=${point(destination)}`
+    + (waypoints.length > 0 ? `&waypoints=${waypoints.map(point).join('|')}` : '')
+    + '&travelmode=driving';
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Coordinate, DeliveryStop } from '../types';
+import { DistanceModel, haversineModel, setDistanceModel } from './distance';
+import { optimizeRoute } from './optimizer';
+
+// Plane geometry keeps the expected tours easy to work out by hand.
+const euclidean = (a: Coordinate, b: Coordinate) => Math.hypot(a.lat - b.lat, a.lng - b.lng);
+const planeModel: DistanceModel = {
+  id: 'plane',
+  distance: euclidean,
+  matrix: points => points.map(a => points.map(b => euclidean(a, b)))
+};
+
+const stop = (id: string, lat: number, lng: number, extra: Partial<DeliveryStop> = {}): DeliveryStop => ({
+  id, address: id, customerName: id, priority: 'low', coords: { lat, lng }, ...extra
+});
+
+const pathLength = (start: Coordinate, stops: DeliveryStop[]) =>
+  stops.reduce((sum, s, i) => sum + euclidean(i === 0 ? start : stops[i - 1].coords, s.coords), 0);
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1 ? [items] : items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+
+const depot = { lat: 0, lng: 0 };
+
+describe('optimizeRoute', () => {
+  beforeEach(() => setDistanceModel(planeModel));
+  afterEach(() => setDistanceModel(haversineModel));
+
+  it('returns an empty result for an empty manifest', () => {
+    expect(optimizeRoute(depot, [])).toMatchObject({ stops: [], improvement: 0, lateMinutes: 0, iterations: 0 });
+  });
+
+  it('untangles a tour the nearest-neighbour start gets wrong', () => {
+    // Greedy runs out to the far end of the line and has to come all the way back.
+    const stops = [stop('a', 0, 1), stop('b', 0, -1.5), stop('c', 0, 2), stop('d', 0, 3), stop('e', 0, 4)];
+    const result = optimizeRoute(depot, stops, { timeBudgetMs: 1000 });
+    expect(result.stops.map(s => s.id)).toEqual(['b', 'a', 'c', 'd', 'e']);
+    expect(result.greedyDistance).toBeCloseTo(9.5);
+    expect(result.optimizedDistance).toBeCloseTo(7);
+    expect(result.improvement).toBeCloseTo(2.5 / 9.5);
+  });
+
+  it('finds the shortest order of a small scattered manifest', () => {
+    const points: [number, number][] = [[2, 7], [-3, 4], [5, -1], [-6, -2], [1, -5], [4, 3], [-2, -6]];
+    const stops = points.map(([lat, lng], i) => stop(`s${i}`, lat, lng));
+    const best = Math.min(...permutations(stops).map(order => pathLength(depot, order)));
+    const result = optimizeRoute(depot, stops, { timeBudgetMs: 1000 });
+    expect(result.optimizedDistance).toBeCloseTo(best);
+    expect(result.stops.map(s => s.id).sort()).toEqual(stops.map(s => s.id).sort());
+  });
+
+  it('counts the closing leg when the route has an end point', () => {
+    const stops = [stop('near', 0, 1), stop('far', 0, 5)];
+    const result = optimizeRoute(depot, stops, { timeBudgetMs: 1000, end: depot });
+    expect(result.optimizedDistance).toBeCloseTo(10);
+  });
+
+  it('gives up distance to reach a closing time window', () => {
+    // One unit takes an hour at 1 km/h; "rush" closes at 03:30, so it has to come first.
+    const stops = [stop('a', 0, 1), stop('b', 0, 2), stop('rush', 0, -3, { timeWindow: { latest: '03:30' } })];
+    const schedule = { startMinutes: 0, averageSpeedKmh: 1, defaultServiceMinutes: 0 };
+    const result = optimizeRoute(depot, stops, { timeBudgetMs: 1000, schedule });
+    expect(result.stops[0].id).toBe('rush');
+    expect(result.greedyLateMinutes).toBeGreaterThan(0);
+    expect(result.lateMinutes).toBe(0);
+    expect(result.improvement).toBeLessThan(0);
+  });
+
+  it('still returns every stop when the time budget is already spent', () => {
+    const stops = Array.from({ length: 40 }, (_, i) => stop(`s${i}`, Math.sin(i * 7) * 10, Math.cos(i * 3) * 10));
+    const result = optimizeRoute(depot, stops, { timeBudgetMs: 0 });
+    expect(result.iterations).toBe(0);
+    expect(result.stops).toHaveLength(40);
+  });
+});
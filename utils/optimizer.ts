@@ -1,40 +1,215 @@
-
 import { DeliveryStop, Coordinate } from '../types';
+import { buildDistanceMatrix } from './distance';
+import { ScheduleOptions, parseClockTime, travelMinutes, DEFAULT_SERVICE_MINUTES } from './schedule';
+
+export interface OptimizerOptions {
+  /** Wall-clock budget for the local search phase, in milliseconds. */
+  timeBudgetMs?: number;
+  /** Enables time-window awareness; without it only distance and priority count. */
+  schedule?: ScheduleOptions;
+  /** Where the route must finish; without it the route ends at its last stop. */
+  end?: Coordinate;
+}
+
+export interface OptimizationResult {
+  stops: DeliveryStop[];
+  /** Kilometres, as reported by the active distance model. */
+  greedyDistance: number;
+  optimizedDistance: number;
+  /**
+   * Share of the greedy distance saved by local search. Negative when the
+   * search accepted a longer path to meet time windows.
+   */
+  improvement: number;
+  /** Total minutes past `timeWindow.latest` across all stops of the greedy order. */
+  greedyLateMinutes: number;
+  /** Total minutes past `timeWindow.latest` across all stops of the returned order. */
+  lateMinutes: number;
+  iterations: number;
+  elapsedMs: number;
+}
+
+export const DEFAULT_TIME_BUDGET_MS = 250;
+
+const EPSILON = 1e-9;
+// Cost of arriving one minute after a window closes, in km-equivalents.
+const LATE_PENALTY_PER_MINUTE = 5;
+
+interface CostModel {
+  matrix: number[][];
+  /** Matrix index of the finishing point, if the route has one. */
+  end?: number;
+  urgency: number[];
+  windows?: {
+    earliest: (number | null)[];
+    latest: (number | null)[];
+    service: number[];
+    options: ScheduleOptions;
+  };
+}
+
+// Priority bonus: high priority stops effectively "closer"
+const priorityWeight = (priority: DeliveryStop['priority']) =>
+  priority === 'high' ? 0.7 : priority === 'medium' ? 0.9 : 1.0;
+
+const closingLeg = (order: number[], model: CostModel): number =>
+  model.end === undefined ? 0 : model.matrix[order.length > 0 ? order[order.length - 1] : 0][model.end];
 
-export const calculateDistance = (p1: Coordinate, p2: Coordinate): number => {
-  // Simple Euclidean distance for the demo (in a real app, use Haversine or Maps API)
-  const dy = p1.lat - p2.lat;
-  const dx = p1.lng - p2.lng;
-  return Math.sqrt(dx * dx + dy * dy);
+const pathDistance = (order: number[], model: CostModel): number => {
+  let total = 0;
+  let prev = 0;
+  for (const idx of order) {
+    total += model.matrix[prev][idx];
+    prev = idx;
+  }
+  return total + closingLeg(order, model);
+};
+
+const lateMinutesOf = (order: number[], model: CostModel): number => {
+  const { matrix, windows } = model;
+  if (!windows) return 0;
+  let clock = windows.options.startMinutes;
+  let late = 0;
+  let prev = 0;
+  for (const idx of order) {
+    const arrival = clock + travelMinutes(matrix[prev][idx], clock, windows.options);
+    const earliest = windows.earliest[idx];
+    const latest = windows.latest[idx];
+    if (latest !== null && arrival > latest) late += arrival - latest;
+    clock = (earliest !== null ? Math.max(arrival, earliest) : arrival) + windows.service[idx];
+    prev = idx;
+  }
+  return late;
 };
 
-export const optimizeRoute = (start: Coordinate, stops: DeliveryStop[]): DeliveryStop[] => {
-  if (stops.length === 0) return [];
+// Leg distance plus a penalty for reaching urgent stops late in the run, so the
+// local search keeps the priority bias the greedy construction starts with.
+// Scaled by stop count so it nudges the order without outweighing distance.
+// Missed time windows are penalised far above either.
+const routeCost = (order: number[], model: CostModel): number => {
+  const { matrix, urgency } = model;
+  let travelled = 0;
+  let penalty = 0;
+  let prev = 0;
+  for (const idx of order) {
+    travelled += matrix[prev][idx];
+    penalty += travelled * urgency[idx] / order.length;
+    prev = idx;
+  }
+  return travelled + closingLeg(order, model) + penalty + lateMinutesOf(order, model) * LATE_PENALTY_PER_MINUTE;
+};
 
-  const unvisited = [...stops];
-  const route: DeliveryStop[] = [];
-  let currentPos = start;
+const greedyOrder = (stops: DeliveryStop[], matrix: number[][]): number[] => {
+  const unvisited = stops.map((_, i) => i + 1);
+  const order: number[] = [];
+  let current = 0;
 
   while (unvisited.length > 0) {
     let nearestIndex = 0;
-    let minDistance = calculateDistance(currentPos, unvisited[0].coords);
+    let minDistance = matrix[current][unvisited[0]];
 
     for (let i = 1; i < unvisited.length; i++) {
-      const dist = calculateDistance(currentPos, unvisited[i].coords);
-      // Priority bonus: high priority stops effectively "closer"
-      const priorityWeight = unvisited[i].priority === 'high' ? 0.7 : unvisited[i].priority === 'medium' ? 0.9 : 1.0;
-      const weightedDist = dist * priorityWeight;
-      
+      const weightedDist = matrix[current][unvisited[i]] * priorityWeight(stops[unvisited[i] - 1].priority);
       if (weightedDist < minDistance) {
         minDistance = weightedDist;
         nearestIndex = i;
       }
     }
 
-    const nextStop = unvisited.splice(nearestIndex, 1)[0];
-    route.push(nextStop);
-    currentPos = nextStop.coords;
+    current = unvisited.splice(nearestIndex, 1)[0];
+    order.push(current);
   }
 
-  return route;
+  return order;
+};
+
+/**
+ * Builds a nearest-neighbour tour from `start`, then improves it with 2-opt
+ * segment reversals and Or-opt segment relocations until no move helps or the
+ * time budget runs out. With `options.schedule`, stop time windows and service
+ * durations are simulated and late arrivals are penalised.
+ */
+export const optimizeRoute = (start: Coordinate, stops: DeliveryStop[], options: OptimizerOptions = {}): OptimizationResult => {
+  const startedAt = performance.now();
+  const budget = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+
+  if (stops.length === 0) {
+    return { stops: [], greedyDistance: 0, optimizedDistance: 0, improvement: 0, greedyLateMinutes: 0, lateMinutes: 0, iterations: 0, elapsedMs: 0 };
+  }
+
+  // Index 0 is the start position, index i + 1 is stops[i], and the end point, if any, comes last.
+  const matrix = buildDistanceMatrix([start, ...stops.map(s => s.coords), ...(options.end ? [options.end] : [])]);
+  const model: CostModel = {
+    matrix,
+    end: options.end ? stops.length + 1 : undefined,
+    urgency: [0, ...stops.map(s => 1 - priorityWeight(s.priority))]
+  };
+  if (options.schedule) {
+    const { defaultServiceMinutes } = options.schedule;
+    model.windows = {
+      earliest: [null, ...stops.map(s => parseClockTime(s.timeWindow?.earliest))],
+      latest: [null, ...stops.map(s => parseClockTime(s.timeWindow?.latest))],
+      service: [0, ...stops.map(s => s.serviceMinutes ?? defaultServiceMinutes ?? DEFAULT_SERVICE_MINUTES)],
+      options: options.schedule
+    };
+  }
+  const outOfTime = () => performance.now() - startedAt > budget;
+
+  let order = greedyOrder(stops, matrix);
+  const greedyDistance = pathDistance(order, model);
+  const greedyLateMinutes = lateMinutesOf(order, model);
+  let bestCost = routeCost(order, model);
+  let iterations = 0;
+  let improved = true;
+
+  while (improved && !outOfTime()) {
+    improved = false;
+
+    // 2-opt: reverse order[i..j]
+    for (let i = 0; i < order.length - 1 && !outOfTime(); i++) {
+      for (let j = i + 1; j < order.length && !outOfTime(); j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const cost = routeCost(candidate, model);
+        if (cost < bestCost - EPSILON) {
+          order = candidate;
+          bestCost = cost;
+          improved = true;
+          iterations++;
+        }
+      }
+    }
+
+    // Or-opt: move a chain of 1-3 consecutive stops to another position
+    for (let len = 1; len <= 3 && !outOfTime(); len++) {
+      for (let i = 0; i + len <= order.length && !outOfTime(); i++) {
+        const segment = order.slice(i, i + len);
+        const rest = [...order.slice(0, i), ...order.slice(i + len)];
+        for (let j = 0; j <= rest.length; j++) {
+          if (j === i) continue;
+          const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)];
+          const cost = routeCost(candidate, model);
+          if (cost < bestCost - EPSILON) {
+            order = candidate;
+            bestCost = cost;
+            improved = true;
+            iterations++;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  const optimizedDistance = pathDistance(order, model);
+
+  return {
+    stops: order.map(idx => stops[idx - 1]),
+    greedyDistance,
+    optimizedDistance,
+    improvement: greedyDistance > 0 ? (greedyDistance - optimizedDistance) / greedyDistance : 0,
+    greedyLateMinutes,
+    lateMinutes: lateMinutesOf(order, model),
+    iterations,
+    elapsedMs: performance.now() - startedAt
+  };
 };
@@ -0,0 +1,126 @@
+import { DeliveryStop, ProofOfDelivery } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { stopStatus } from './execution';
+
+export type ProofInput = Omit<ProofOfDelivery, 'hash'>;
+
+const PHOTO_MAX_EDGE_PX = 1280;
+const PHOTO_QUALITY = 0.8;
+
+export const dataUrlToBytes = (dataUrl: string): { mime: string; bytes: Uint8Array } => {
+  const [header, payload] = dataUrl.split(',', 2);
+  const mime = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(payload ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { mime, bytes };
+};
+
+export const sha256Hex = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const imageDigest = (dataUrl?: string) => (dataUrl ? sha256Hex(dataUrlToBytes(dataUrl).bytes) : Promise.resolve(null));
+
+/**
+ * Canonical form that gets hashed: a fixed key order with images replaced by
+ * the SHA-256 of their raw bytes, so the exported files can be checked
+ * without re-encoding them as data URLs.
+ */
+export const canonicalProof = async (stopId: string, proof: ProofInput): Promise<string> => JSON.stringify({
+  stopId,
+  recipientName: proof.recipientName,
+  note: proof.note ?? null,
+  capturedAt: proof.capturedAt,
+  location: proof.location ? [proof.location.lat, proof.location.lng] : null,
+  signatureSha256: await imageDigest(proof.signature),
+  photoSha256: await imageDigest(proof.photo)
+});
+
+export const createProof = async (stopId: string, input: ProofInput): Promise<ProofOfDelivery> =>
+  ({ ...input, hash: await sha256Hex(await canonicalProof(stopId, input)) });
+
+export const verifyProof = async (stopId: string, proof: ProofOfDelivery): Promise<boolean> => {
+  const { hash, ...input } = proof;
+  return hash === await sha256Hex(await canonicalProof(stopId, input));
+};
+
+/** Downscales a camera photo to a JPEG data URL small enough to keep with the manifest. */
+export const readPhoto = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, PHOTO_MAX_EDGE_PX / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Image could not be decoded'));
+  };
+  img.src = url;
+});
+
+const extensionFor = (mime: string) => (mime === 'image/png' ? 'png' : mime === 'image/jpeg' ? 'jpg' : 'bin');
+
+/**
+ * ZIP with `pod.json` plus every signature and photo under `images/`. Each
+ * record carries the stored hash, whether it still verifies, and the digests
+ * of its image files.
+ */
+export const buildPodBundle = async (name: string, stops: DeliveryStop[]): Promise<Uint8Array> => {
+  const files: ZipEntry[] = [];
+  const records = [];
+
+  for (const [index, stop] of stops.entries()) {
+    const proof = stop.proof;
+    const record: Record<string, unknown> = {
+      sequence: index + 1,
+      stopId: stop.id,
+      customerName: stop.customerName,
+      address: stop.address,
+      coords: stop.coords,
+      status: stopStatus(stop),
+      plannedEta: stop.execution?.plannedEta ?? null,
+      arrivedAt: stop.execution?.arrivedAt ?? null,
+      completedAt: stop.execution?.completedAt ?? null,
+      failureReason: stop.execution?.failureReason ?? null
+    };
+    if (proof) {
+      const images: Record<string, { file: string; sha256: string }> = {};
+      for (const kind of ['signature', 'photo'] as const) {
+        const dataUrl = proof[kind];
+        if (!dataUrl) continue;
+        const { mime, bytes } = dataUrlToBytes(dataUrl);
+        const file = `images/${String(index + 1).padStart(3, '0')}-${kind}.${extensionFor(mime)}`;
+        files.push({ name: file, data: bytes });
+        images[kind] = { file, sha256: await sha256Hex(bytes) };
+      }
+      record.proof = {
+        recipientName: proof.recipientName,
+        note: proof.note ?? null,
+        capturedAt: proof.capturedAt,
+        location: proof.location ?? null,
+        images,
+        hash: proof.hash,
+        verified: await verifyProof(stop.id, proof)
+      };
+    }
+    records.push(record);
+  }
+
+  const manifest = {
+    name,
+    exportedAt: new Date().toISOString(),
+    hashAlgorithm: 'SHA-256',
+    hashInput: 'JSON of {stopId, recipientName, note, capturedAt, location: [lat, lng], signatureSha256, photoSha256} in that key order',
+    stops: records
+  };
+  return createZip([{ name: 'pod.json', data: JSON.stringify(manifest, null, 2) }, ...files]);
+};
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRefreshScheduler, nextRefreshDelay } from './refreshScheduler';
+
+const MINUTE = 60_000;
+
+describe('nextRefreshDelay', () => {
+  it('doubles per consecutive failure up to the ceiling', () => {
+    expect([0, 1, 2, 3, 10].map(failures => nextRefreshDelay(MINUTE, failures, 5 * MINUTE))).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 5 * MINUTE, 5 * MINUTE]);
+  });
+
+  it('never backs off below the interval itself', () => {
+    expect(nextRefreshDelay(10 * MINUTE, 1, 5 * MINUTE)).toBe(10 * MINUTE);
+  });
+});
+
+describe('createRefreshScheduler', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('backs off after failures and resets on success', async () => {
+    const outcomes = [false, false, true, true];
+    const calls: number[] = [];
+    const retries: number[] = [];
+    const scheduler = createRefreshScheduler({
+      intervalMs: MINUTE,
+      run: async () => {
+        calls.push(Date.now());
+        if (!outcomes.shift()) throw new Error('offline');
+      },
+      onError: (_error, retryInMs) => retries.push(retryInMs)
+    });
+    const started = Date.now();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(8 * MINUTE);
+    scheduler.stop();
+    expect(calls.map(at => (at - started) / MINUTE)).toEqual([1, 3, 7, 8]);
+    expect(retries).toEqual([2 * MINUTE, 4 * MINUTE]);
+  });
+
+  it('pauses while the page is hidden and catches up when it is shown', async () => {
+    const page = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    vi.stubGlobal('document', page);
+    const setVisibility = (state: string) => {
+      page.visibilityState = state;
+      page.dispatchEvent(new Event('visibilitychange'));
+    };
+    const run = vi.fn(async () => {});
+    const scheduler = createRefreshScheduler({ intervalMs: MINUTE, run });
+    scheduler.start();
+
+    setVisibility('hidden');
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(run).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+});
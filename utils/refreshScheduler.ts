@@ -0,0 +1,86 @@
+export interface RefreshSchedulerOptions {
+  intervalMs: number;
+  /** Ceiling for the retry delay after consecutive failures. */
+  maxBackoffMs?: number;
+  run: () => Promise<void>;
+  onError?: (error: unknown, retryInMs: number) => void;
+  onSuccess?: () => void;
+}
+
+export interface RefreshScheduler {
+  start: () => void;
+  stop: () => void;
+}
+
+export const DEFAULT_MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+/** Interval after a success, doubling per consecutive failure up to the ceiling. */
+export const nextRefreshDelay = (intervalMs: number, failures: number, maxBackoffMs: number = DEFAULT_MAX_BACKOFF_MS): number =>
+  failures === 0 ? intervalMs : Math.min(intervalMs * 2 ** failures, Math.max(maxBackoffMs, intervalMs));
+
+/**
+ * Runs `run` every `intervalMs` without overlapping calls. Polling pauses
+ * while the page is hidden; when it becomes visible again an overdue refresh
+ * fires straight away.
+ */
+export const createRefreshScheduler = ({ intervalMs, maxBackoffMs = DEFAULT_MAX_BACKOFF_MS, run, onError, onSuccess }: RefreshSchedulerOptions): RefreshScheduler => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let dueAt = 0;
+  let running = false;
+  let active = false;
+
+  const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+  const clear = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = (delay: number) => {
+    clear();
+    dueAt = Date.now() + delay;
+    if (!isHidden()) timer = setTimeout(tick, delay);
+  };
+
+  const tick = async () => {
+    timer = null;
+    if (!active || running) return;
+    running = true;
+    try {
+      await run();
+      failures = 0;
+      onSuccess?.();
+    } catch (error) {
+      failures++;
+      onError?.(error, nextRefreshDelay(intervalMs, failures, maxBackoffMs));
+    } finally {
+      running = false;
+    }
+    if (active) schedule(nextRefreshDelay(intervalMs, failures, maxBackoffMs));
+  };
+
+  const handleVisibility = () => {
+    if (!active) return;
+    if (isHidden()) {
+      clear();
+    } else if (!running) {
+      schedule(Math.max(0, dueAt - Date.now()));
+    }
+  };
+
+  return {
+    start: () => {
+      if (active) return;
+      active = true;
+      failures = 0;
+      if (typeof document !== 'undefined') document.addEventListener('visibilitychange', handleVisibility);
+      schedule(intervalMs);
+    },
+    stop: () => {
+      active = false;
+      clear();
+      if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', handleVisibility);
+    }
+  };
+};
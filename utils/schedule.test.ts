@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryStop } from '../types';
+import { formatClockTime, parseClockTime, scheduleLegs, travelMinutes, URBAN_SPEED_PROFILE } from './schedule';
+
+const stop = (id: string, extra: Partial<DeliveryStop> = {}): DeliveryStop => ({
+  id, address: id, customerName: id, priority: 'low', coords: { lat: 0, lng: 0 }, ...extra
+});
+
+describe('clock times', () => {
+  it('reads 24-hour and AM/PM times', () => {
+    expect(parseClockTime('08:30')).toBe(510);
+    expect(parseClockTime('~9:05')).toBe(545);
+    expect(parseClockTime('12:15 AM')).toBe(15);
+    expect(parseClockTime('1:00 pm')).toBe(780);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseClockTime(undefined)).toBeNull();
+    expect(parseClockTime('')).toBeNull();
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('noon')).toBeNull();
+  });
+
+  it('wraps past midnight when formatting', () => {
+    expect(formatClockTime(510)).toBe('08:30');
+    expect(formatClockTime(1440 + 65)).toBe('01:05');
+    expect(formatClockTime(-30)).toBe('23:30');
+  });
+});
+
+describe('travelMinutes', () => {
+  it('uses the flat speed without a profile', () => {
+    expect(travelMinutes(15, 0, { startMinutes: 0, averageSpeedKmh: 30 })).toBe(30);
+  });
+
+  it('slows down in the rush hour of the speed profile', () => {
+    const options = { startMinutes: 0, speedProfile: URBAN_SPEED_PROFILE };
+    expect(travelMinutes(10, 8 * 60, options)).toBeGreaterThan(travelMinutes(10, 3 * 60, options));
+  });
+});
+
+describe('scheduleLegs', () => {
+  const options = { startMinutes: 8 * 60, averageSpeedKmh: 60, defaultServiceMinutes: 10 };
+
+  it('waits for windows that have not opened and adds service time', () => {
+    const [first, second] = scheduleLegs([30, 60], [stop('a', { timeWindow: { earliest: '09:00' } }), stop('b', { serviceMinutes: 5 })], options);
+    expect(first).toMatchObject({ arrivalMinutes: 510, serviceStartMinutes: 540, waitMinutes: 30, departureMinutes: 550, status: 'early' });
+    expect(second).toMatchObject({ arrivalMinutes: 610, departureMinutes: 615, status: 'on_time' });
+  });
+
+  it('records how late a stop is reached', () => {
+    const [entry] = scheduleLegs([90], [stop('a', { timeWindow: { latest: '09:00' } })], options);
+    expect(entry).toMatchObject({ arrivalMinutes: 570, lateMinutes: 30, status: 'late' });
+  });
+
+  it('prefers known leg durations over the speed estimate', () => {
+    const [entry] = scheduleLegs([90], [stop('a')], options, [20]);
+    expect(entry.arrivalMinutes).toBe(500);
+  });
+});
@@ -0,0 +1,134 @@
+import { DeliveryStop, Coordinate, TrafficCondition } from '../types';
+import { calculateDistance, calculateDuration } from './distance';
+
+export type WindowStatus = 'on_time' | 'early' | 'late';
+
+/**
+ * Typical road speed over the day: `baseSpeedKmh` scaled by the factor of the
+ * hour a leg starts in (index 0 = midnight).
+ */
+export interface SpeedProfile {
+  baseSpeedKmh: number;
+  hourlyFactors: number[];
+}
+
+export interface ScheduleOptions {
+  /** Departure from the depot, in minutes after local midnight. May exceed 1440. */
+  startMinutes: number;
+  /** Flat speed used when no `speedProfile` is given. */
+  averageSpeedKmh?: number;
+  speedProfile?: SpeedProfile;
+  defaultServiceMinutes?: number;
+}
+
+export interface StopSchedule {
+  stopId: string;
+  arrivalMinutes: number;
+  /** When service starts, after waiting for the window to open. */
+  serviceStartMinutes: number;
+  departureMinutes: number;
+  waitMinutes: number;
+  lateMinutes: number;
+  status: WindowStatus;
+  traffic: TrafficCondition;
+}
+
+export const DEFAULT_AVERAGE_SPEED_KMH = 30;
+export const DEFAULT_SERVICE_MINUTES = 5;
+
+export const URBAN_SPEED_PROFILE: SpeedProfile = {
+  baseSpeedKmh: 40,
+  hourlyFactors: [
+    1.1, 1.1, 1.1, 1.1, 1.1, 1.0,   // 00-05
+    0.85, 0.6, 0.55, 0.7, 0.85, 0.85, // 06-11
+    0.8, 0.85, 0.85, 0.75, 0.6, 0.55, // 12-17
+    0.65, 0.85, 0.95, 1.0, 1.05, 1.1  // 18-23
+  ]
+};
+
+const speedFactorAt = (minutes: number, options: ScheduleOptions): number => {
+  if (!options.speedProfile) return 1;
+  const hour = Math.floor((((minutes % 1440) + 1440) % 1440) / 60);
+  return options.speedProfile.hourlyFactors[hour] ?? 1;
+};
+
+export const trafficForFactor = (factor: number): TrafficCondition =>
+  factor >= 0.9 ? 'light' : factor >= 0.7 ? 'moderate' : 'heavy';
+
+/** Driving minutes for a leg of `km` that starts at `departureMinutes`. */
+export const travelMinutes = (km: number, departureMinutes: number, options: ScheduleOptions): number => {
+  const speed = options.speedProfile
+    ? options.speedProfile.baseSpeedKmh * speedFactorAt(departureMinutes, options)
+    : options.averageSpeedKmh ?? DEFAULT_AVERAGE_SPEED_KMH;
+  return (km / speed) * 60;
+};
+
+/**
+ * Parses "HH:mm" (24h) or "h:mm AM/PM" into minutes after midnight.
+ * Returns null for anything else.
+ */
+export const parseClockTime = (value?: string | null): number | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^~?(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const modifier = match[3]?.toUpperCase();
+  if (modifier === 'PM' && hours < 12) hours += 12;
+  if (modifier === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatClockTime = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  const h = Math.floor(wrapped / 60).toString().padStart(2, '0');
+  const m = (wrapped % 60).toString().padStart(2, '0');
+  return `${h}:${m}`;
+};
+
+export const hasTimeWindow = (stop: DeliveryStop): boolean =>
+  parseClockTime(stop.timeWindow?.earliest) !== null || parseClockTime(stop.timeWindow?.latest) !== null;
+
+/**
+ * Walks the stops in order given the distance (km) of each leg leading to them,
+ * waiting for windows that have not opened yet and recording lateness. Known
+ * free-flow `legMinutes` replace the speed estimate and are slowed by the hour's factor.
+ */
+export const scheduleLegs = (legKm: number[], stops: DeliveryStop[], options: ScheduleOptions, legMinutes: (number | undefined)[] = []): StopSchedule[] => {
+  let clock = options.startMinutes;
+
+  return stops.map((stop, i) => {
+    const factor = speedFactorAt(clock, options);
+    const arrival = clock + (legMinutes[i] !== undefined ? legMinutes[i] / factor : travelMinutes(legKm[i], clock, options));
+    const earliest = parseClockTime(stop.timeWindow?.earliest);
+    const latest = parseClockTime(stop.timeWindow?.latest);
+    const serviceStart = earliest !== null ? Math.max(arrival, earliest) : arrival;
+    const waitMinutes = serviceStart - arrival;
+    const lateMinutes = latest !== null ? Math.max(0, arrival - latest) : 0;
+    const departure = serviceStart + (stop.serviceMinutes ?? options.defaultServiceMinutes ?? DEFAULT_SERVICE_MINUTES);
+    clock = departure;
+
+    return {
+      stopId: stop.id,
+      arrivalMinutes: arrival,
+      serviceStartMinutes: serviceStart,
+      departureMinutes: departure,
+      waitMinutes,
+      lateMinutes,
+      status: lateMinutes > 0 ? 'late' : waitMinutes > 0 ? 'early' : 'on_time',
+      traffic: trafficForFactor(factor)
+    };
+  });
+};
+
+/** Driving minutes between two points, preferring the distance model's own travel time. */
+export const driveMinutes = (from: Coordinate, to: Coordinate, departureMinutes: number, options: ScheduleOptions): number => {
+  const known = calculateDuration(from, to);
+  return known !== undefined ? known / speedFactorAt(departureMinutes, options) : travelMinutes(calculateDistance(from, to), departureMinutes, options);
+};
+
+export const scheduleRoute = (start: Coordinate, stops: DeliveryStop[], options: ScheduleOptions): StopSchedule[] => {
+  const legs = stops.map((stop, i) => [i === 0 ? start : stops[i - 1].coords, stop.coords] as const);
+  return scheduleLegs(legs.map(([a, b]) => calculateDistance(a, b)), stops, options, legs.map(([a, b]) => calculateDuration(a, b)));
+};
@@ -0,0 +1,47 @@
+import { DeliveryStop, PackageItem } from '../types';
+
+export interface StopDetailLabels {
+  phone: string;
+  access: string;
+  notes: string;
+  packages: string;
+  cod: string;
+}
+
+export const stopDetailLabels = (t: Record<'phone' | 'access_instructions' | 'notes' | 'packages' | 'cod', string>): StopDetailLabels => ({
+  phone: t.phone,
+  access: t.access_instructions,
+  notes: t.notes,
+  packages: t.packages,
+  cod: t.cod
+});
+
+/** Package list as "2× Box, 1× Crate". */
+export const formatPackages = (packages: PackageItem[] = []): string =>
+  packages.map(item => `${item.quantity}× ${item.description}`).join(', ');
+
+/** Reads the format written by `formatPackages`; "x" or "*" also separate the quantity, and ";" the items. */
+export const parsePackages = (text: string): PackageItem[] =>
+  text
+    .split(/[,;]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(\d+)\s*[×x*]\s*(.+)$/i);
+      return match ? { quantity: Number(match[1]), description: match[2].trim() } : { quantity: 1, description: part };
+    });
+
+export const packageCount = (packages: PackageItem[] = []): number =>
+  packages.reduce((sum, item) => sum + item.quantity, 0);
+
+export const formatCod = (amount: number, locale: string): string =>
+  amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** One "Label: value" line per filled-in detail, in the order a driver needs them at the door. */
+export const stopDetailLines = (stop: DeliveryStop, labels: StopDetailLabels, locale: string): string[] => [
+  stop.phone && `${labels.phone}: ${stop.phone}`,
+  stop.accessInstructions && `${labels.access}: ${stop.accessInstructions}`,
+  stop.packages?.length && `${labels.packages}: ${formatPackages(stop.packages)}`,
+  stop.codAmount && `${labels.cod}: ${formatCod(stop.codAmount, locale)}`,
+  stop.notes && `${labels.notes}: ${stop.notes}`
+].filter((line): line is string => !!line);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { RouteRecurrence, SavedRoute } from '../types';
+import { addDays, isTemplateDue, nextDueDay, reviseTemplate, weekdayOf, MAX_TEMPLATE_VERSIONS } from './templates';
+
+const template = (recurrence?: Partial<RouteRecurrence>): SavedRoute => ({
+  id: 'template',
+  name: 'Tuesday run',
+  date: '2026-01-01',
+  stops: [],
+  totalDistance: 0,
+  recurrence: recurrence && { weekdays: [2], intervalWeeks: 1, startDate: '2026-03-03', exceptions: [], ...recurrence }
+});
+
+describe('calendar days', () => {
+  it('knows the weekday of a day', () => {
+    expect(weekdayOf('2026-03-01')).toBe(0);
+    expect(weekdayOf('2026-03-03')).toBe(2);
+  });
+
+  it('adds days across a daylight saving change', () => {
+    expect(addDays('2026-03-28', 2)).toBe('2026-03-30');
+    expect(addDays('2026-10-24', 7)).toBe('2026-10-31');
+  });
+});
+
+describe('isTemplateDue', () => {
+  it('is never due without a schedule', () => {
+    expect(isTemplateDue(template(), '2026-03-03')).toBe(false);
+  });
+
+  it('is due on its weekdays from the start date on', () => {
+    const weekly = template({});
+    expect(isTemplateDue(weekly, '2026-02-24')).toBe(false);
+    expect(isTemplateDue(weekly, '2026-03-03')).toBe(true);
+    expect(isTemplateDue(weekly, '2026-03-04')).toBe(false);
+    expect(isTemplateDue(weekly, '2026-03-10')).toBe(true);
+  });
+
+  it('counts every-N-weeks from the week the schedule starts in', () => {
+    // Starts on a Thursday; that week's Tuesday is already past but still sets the rhythm.
+    const fortnightly = template({ weekdays: [2, 4], intervalWeeks: 2, startDate: '2026-03-05' });
+    expect(isTemplateDue(fortnightly, '2026-03-03')).toBe(false);
+    expect(isTemplateDue(fortnightly, '2026-03-05')).toBe(true);
+    expect(isTemplateDue(fortnightly, '2026-03-10')).toBe(false);
+    expect(isTemplateDue(fortnightly, '2026-03-17')).toBe(true);
+    expect(isTemplateDue(fortnightly, '2026-03-19')).toBe(true);
+  });
+
+  it('starts weeks on Monday', () => {
+    // A Sunday start puts the following Monday in the next week, which is skipped.
+    const fortnightly = template({ weekdays: [0, 1], intervalWeeks: 2, startDate: '2026-03-01' });
+    expect(isTemplateDue(fortnightly, '2026-03-01')).toBe(true);
+    expect(isTemplateDue(fortnightly, '2026-03-02')).toBe(false);
+    expect(isTemplateDue(fortnightly, '2026-03-09')).toBe(true);
+    expect(isTemplateDue(fortnightly, '2026-03-15')).toBe(true);
+  });
+
+  it('skips exception days', () => {
+    const weekly = template({ exceptions: ['2026-03-10'] });
+    expect(isTemplateDue(weekly, '2026-03-10')).toBe(false);
+    expect(nextDueDay(weekly, '2026-03-04')).toBe('2026-03-17');
+  });
+});
+
+describe('nextDueDay', () => {
+  it('finds the first due day on or after the given day', () => {
+    expect(nextDueDay(template({}), '2026-03-03')).toBe('2026-03-03');
+    expect(nextDueDay(template({ intervalWeeks: 3 }), '2026-03-04')).toBe('2026-03-24');
+  });
+
+  it('gives up on schedules without weekdays', () => {
+    expect(nextDueDay(template({ weekdays: [] }), '2026-03-03')).toBeNull();
+  });
+});
+
+describe('reviseTemplate', () => {
+  const stop = (id: string, address: string) => ({ id, address, customerName: address, priority: 'low' as const, coords: { lat: 0, lng: 0 } });
+
+  it('keeps the template when only ids or run state differ', () => {
+    const route = { ...template(), stops: [stop('a', 'Main St 1')] };
+    const same = [{ ...stop('b', 'Main St 1'), eta: '10:00' }];
+    expect(reviseTemplate(route, same, 0, '2026-03-03T08:00:00Z')).toBe(route);
+  });
+
+  it('moves the previous stops into a bounded history', () => {
+    let route: SavedRoute = { ...template(), stops: [stop('a', 'Stop 0')] };
+    for (let i = 1; i <= MAX_TEMPLATE_VERSIONS + 5; i++) {
+      route = reviseTemplate(route, [stop('a', `Stop ${i}`)], i, `2026-03-03T08:00:${String(i).padStart(2, '0')}Z`, 'Dana');
+    }
+    expect(route.version).toBe(MAX_TEMPLATE_VERSIONS + 6);
+    expect(route.history).toHaveLength(MAX_TEMPLATE_VERSIONS);
+    expect(route.history![0]).toMatchObject({ version: MAX_TEMPLATE_VERSIONS + 5, savedBy: 'Dana' });
+  });
+});
@@ -0,0 +1,93 @@
+import { DeliveryStop, RouteRecurrence, SavedRoute } from '../types';
+
+export const MAX_TEMPLATE_VERSIONS = 20;
+/** Weekday indices in display order, Monday first. */
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const DAY_MS = 86400000;
+
+// Calendar days are counted in UTC so daylight saving changes never shift them.
+const dayNumber = (day: string): number => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / DAY_MS);
+};
+
+const dayFromNumber = (value: number): string => new Date(value * DAY_MS).toISOString().slice(0, 10);
+
+// Day 0 (1970-01-01) was a Thursday; shifting by 3 makes weeks start on Monday.
+const weekNumber = (day: string) => Math.floor((dayNumber(day) + 3) / 7);
+
+export const weekdayOf = (day: string): number => new Date(dayNumber(day) * DAY_MS).getUTCDay();
+
+export const addDays = (day: string, days: number): string => dayFromNumber(dayNumber(day) + days);
+
+/** Localized weekday name for an index where 0 is Sunday. */
+export const weekdayName = (weekday: number, locale: string, width: 'short' | 'long' = 'short'): string =>
+  // 1970-01-04 was a Sunday.
+  new Date((3 + weekday) * DAY_MS).toLocaleDateString(locale, { weekday: width, timeZone: 'UTC' });
+
+export const defaultRecurrence = (startDate: string): RouteRecurrence => ({
+  weekdays: [weekdayOf(startDate)],
+  intervalWeeks: 1,
+  startDate,
+  exceptions: []
+});
+
+export const isTemplateDue = (route: SavedRoute, day: string): boolean => {
+  const recurrence = route.recurrence;
+  if (!recurrence || day < recurrence.startDate) return false;
+  if (!recurrence.weekdays.includes(weekdayOf(day)) || recurrence.exceptions.includes(day)) return false;
+  return (weekNumber(day) - weekNumber(recurrence.startDate)) % Math.max(1, recurrence.intervalWeeks) === 0;
+};
+
+export const dueTemplates = (routes: SavedRoute[], day: string): SavedRoute[] =>
+  routes.filter(route => isTemplateDue(route, day));
+
+/** First day on or after `from` the template is due, looking up to a year ahead. */
+export const nextDueDay = (route: SavedRoute, from: string): string | null => {
+  for (let offset = 0; offset <= 366; offset++) {
+    const day = addDays(from, offset);
+    if (isTemplateDue(route, day)) return day;
+  }
+  return null;
+};
+
+/** Stops as a template keeps them: the plan without any run state. */
+export const templateStops = (stops: DeliveryStop[]): DeliveryStop[] =>
+  stops.map(({ eta, trafficCondition, execution, proof, ...stop }) => stop);
+
+/** Manifest stops for loading templates; ids are fresh so the same template can be loaded twice. */
+export const instantiateTemplates = (routes: SavedRoute[]): DeliveryStop[] =>
+  routes.flatMap(route => templateStops(route.stops).map(stop => ({ ...stop, id: crypto.randomUUID() })));
+
+const stopsSignature = (stops: DeliveryStop[]) =>
+  JSON.stringify(templateStops(stops).map(({ id, ...stop }) => stop));
+
+/**
+ * Replaces the template's stops, keeping the previous list in its history.
+ * Returns the template unchanged when the stops are the same.
+ */
+export const reviseTemplate = (route: SavedRoute, stops: DeliveryStop[], totalDistance: number, savedAt: string, savedBy?: string): SavedRoute => {
+  if (stopsSignature(stops) === stopsSignature(route.stops)) return route;
+  const version = route.version ?? 1;
+  const previous = { version, savedAt: route.updatedAt, savedBy: route.updatedBy, stops: route.stops, totalDistance: route.totalDistance };
+  return {
+    ...route,
+    stops: templateStops(stops),
+    totalDistance,
+    version: version + 1,
+    updatedAt: savedAt,
+    updatedBy: savedBy,
+    history: [previous, ...(route.history ?? [])].slice(0, MAX_TEMPLATE_VERSIONS)
+  };
+};
+
+export const duplicateTemplate = (route: SavedRoute, name: string, savedAt: string, savedBy?: string): SavedRoute => ({
+  ...route,
+  id: crypto.randomUUID(),
+  name,
+  version: 1,
+  updatedAt: savedAt,
+  updatedBy: savedBy,
+  history: []
+});
@@ -0,0 +1,82 @@
+import { Coordinate } from '../types';
+
+export const TILE_SIZE = 256;
+export const MIN_TILE_ZOOM = 2;
+
+export interface TileSettings {
+  /** XYZ template with `{z}`, `{x}`, `{y}`; `{-y}` for TMS rows, `{s}` for a/b/c subdomains. Empty disables the basemap. */
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export const DEFAULT_TILE_SETTINGS: TileSettings = {
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '© OpenStreetMap contributors',
+  maxZoom: 19
+};
+
+export interface TilePlacement {
+  key: string;
+  x: number;
+  y: number;
+  z: number;
+  left: number;
+  top: number;
+  size: number;
+}
+
+// Web Mercator is undefined at the poles; tiles stop at ±85.0511°.
+const MAX_LATITUDE = 85.05112878;
+
+/** Web Mercator position in zoom-0 pixels, i.e. within a single 256px world tile. */
+export const projectMercator = ({ lat, lng }: Coordinate): [number, number] => {
+  const phi = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI / 180;
+  return [
+    (lng + 180) / 360 * TILE_SIZE,
+    (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2 * TILE_SIZE
+  ];
+};
+
+export const unprojectMercator = ([x, y]: [number, number]): Coordinate => ({
+  lat: Math.atan(Math.sinh(Math.PI * (1 - 2 * y / TILE_SIZE))) * 180 / Math.PI,
+  lng: x / TILE_SIZE * 360 - 180
+});
+
+/**
+ * Scale and offset that fit the projected points into the viewport. The
+ * scale doubles per tile zoom level; a lone point stops at street level.
+ */
+export const fitTransform = (points: [number, number][], width: number, height: number, padding: number, maxZoom: number) => {
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const span = Math.max((maxX - minX) / Math.max(1, width - 2 * padding), (maxY - minY) / Math.max(1, height - 2 * padding));
+  const k = Math.max(2 ** MIN_TILE_ZOOM, Math.min(2 ** Math.min(maxZoom, 17), span > 0 ? 1 / span : Infinity));
+  return { x: width / 2 - k * (minX + maxX) / 2, y: height / 2 - k * (minY + maxY) / 2, k };
+};
+
+/** Tiles covering the viewport at the zoom level nearest to `k`, wrapped horizontally around the globe. */
+export const visibleTiles = ({ x, y, k }: { x: number; y: number; k: number }, width: number, height: number, maxZoom: number): TilePlacement[] => {
+  const z = Math.max(0, Math.min(maxZoom, Math.round(Math.log2(k))));
+  const count = 2 ** z;
+  const size = k * TILE_SIZE / count;
+  const tiles: TilePlacement[] = [];
+  const rowStart = Math.max(0, Math.floor(-y / size));
+  const rowEnd = Math.min(count, Math.ceil((height - y) / size));
+  for (let row = rowStart; row < rowEnd; row++) {
+    for (let column = Math.floor(-x / size); column < Math.ceil((width - x) / size); column++) {
+      tiles.push({ key: `${z}/${column}/${row}`, x: ((column % count) + count) % count, y: row, z, left: x + column * size, top: y + row * size, size });
+    }
+  }
+  return tiles;
+};
+
+export const tileUrl = (template: string, { x, y, z }: Pick<TilePlacement, 'x' | 'y' | 'z'>): string =>
+  template
+    .replace('{s}', 'abc'[(x + y) % 3])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{-y}', String(2 ** z - 1 - y))
+    .replace('{y}', String(y))
+    .replace('{r}', '');